@@ -12,6 +12,16 @@ import AdminDashboard from "./pages/AdminDashboard";
 import CreateBlog from "./pages/CreateBlog";
 import BlogView from "./pages/BlogView";
 import SearchResults from "./pages/SearchResults";
+import Bookmarks from "./pages/Bookmarks";
+import AuthorProfile from "./pages/AuthorProfile";
+import ProfileSettings from "./pages/ProfileSettings";
+import NotificationSettings from "./pages/NotificationSettings";
+import Unsubscribe from "./pages/Unsubscribe";
+import Feed from "./pages/Feed";
+import Notifications from "./pages/Notifications";
+import Latest from "./pages/Latest";
+import Tags from "./pages/Tags";
+import TagPage from "./pages/TagPage";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -33,6 +43,16 @@ const App = () => (
               <Route path="/edit/:id" element={<CreateBlog />} />
               <Route path="/blog/:slug" element={<BlogView />} />
               <Route path="/search" element={<SearchResults />} />
+              <Route path="/feed" element={<Feed />} />
+              <Route path="/notifications" element={<Notifications />} />
+              <Route path="/latest" element={<Latest />} />
+              <Route path="/tags" element={<Tags />} />
+              <Route path="/tags/:tag" element={<TagPage />} />
+              <Route path="/bookmarks" element={<Bookmarks />} />
+              <Route path="/u/:username" element={<AuthorProfile />} />
+              <Route path="/settings/profile" element={<ProfileSettings />} />
+              <Route path="/settings/notifications" element={<NotificationSettings />} />
+              <Route path="/unsubscribe" element={<Unsubscribe />} />
               <Route path="*" element={<NotFound />} />
             </Routes>
           </Layout>
@@ -0,0 +1,96 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { AlertTriangle, Ban } from 'lucide-react';
+import { format } from 'date-fns';
+
+type SanctionRow = Database['public']['Tables']['user_sanctions']['Row'];
+
+// Shows the signed-in user an active suspension and any warnings they haven't acknowledged yet
+export function AccountStandingNotice() {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [sanctions, setSanctions] = useState<SanctionRow[]>([]);
+
+  useEffect(() => {
+    const fetchSanctions = async () => {
+      if (!profile?.id) return;
+
+      const { data, error } = await supabase
+        .from('user_sanctions')
+        .select('*')
+        .eq('user_id', profile.id)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching account standing:', error);
+        return;
+      }
+
+      setSanctions(data || []);
+    };
+
+    fetchSanctions();
+  }, [profile?.id]);
+
+  const acknowledge = async (sanction: SanctionRow) => {
+    const { error } = await supabase.rpc('acknowledge_sanction', { _sanction_id: sanction.id });
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to dismiss the notice.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSanctions(prev => prev.map(s => s.id === sanction.id ? { ...s, acknowledged_at: new Date().toISOString() } : s));
+  };
+
+  const suspension = sanctions.find(s =>
+    s.kind === 'suspension' && (!s.expires_at || new Date(s.expires_at) > new Date())
+  );
+  const warnings = sanctions.filter(s => s.kind === 'warning' && !s.acknowledged_at);
+
+  if (!suspension && warnings.length === 0) return null;
+
+  return (
+    <div className="space-y-4 mb-8">
+      {suspension && (
+        <Alert variant="destructive" className="bg-white">
+          <Ban className="h-4 w-4" />
+          <AlertTitle>
+            Your account is suspended
+            {suspension.expires_at ? ` until ${format(new Date(suspension.expires_at), 'MMM d, yyyy HH:mm')}` : ''}
+          </AlertTitle>
+          <AlertDescription>
+            <p>You can still read and manage your drafts, but you can't publish articles or post comments.</p>
+            <p className="mt-1">Reason: {suspension.reason}</p>
+          </AlertDescription>
+        </Alert>
+      )}
+      {warnings.map(warning => (
+        <Alert key={warning.id} className="bg-amber-50 border-amber-200">
+          <AlertTriangle className="h-4 w-4 text-amber-600" />
+          <AlertTitle>You've received a warning from the moderators</AlertTitle>
+          <AlertDescription>
+            <p>{warning.reason}</p>
+            <div className="flex items-center justify-between gap-4 mt-2">
+              <span className="text-xs text-muted-foreground">
+                {format(new Date(warning.created_at), 'MMM d, yyyy')}
+              </span>
+              <Button size="sm" variant="outline" onClick={() => acknowledge(warning)}>
+                Got it
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Check, CalendarClock } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface ApproveBlogDialogProps {
+  blog: {
+    title: string;
+    requested_publish_at?: string | null;
+  };
+  onApprove: (publishAt: string | null) => void;
+  children: React.ReactNode;
+}
+
+const toInputValue = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+export function ApproveBlogDialog({ blog, onApprove, children }: ApproveBlogDialogProps) {
+  const hasFutureRequest = !!blog.requested_publish_at && new Date(blog.requested_publish_at) > new Date();
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState(hasFutureRequest ? 'schedule' : 'now');
+  const [publishAt, setPublishAt] = useState(
+    hasFutureRequest ? toInputValue(new Date(blog.requested_publish_at)) : ''
+  );
+
+  const isScheduleValid = !!publishAt && new Date(publishAt) > new Date();
+
+  const handleConfirm = () => {
+    onApprove(mode === 'schedule' ? new Date(publishAt).toISOString() : null);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Approve Article</DialogTitle>
+          <DialogDescription className="line-clamp-2">{blog.title}</DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={mode} onValueChange={setMode} className="space-y-3">
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="now" id="publish-now" />
+            <Label htmlFor="publish-now">Publish now</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <RadioGroupItem value="schedule" id="publish-later" />
+            <Label htmlFor="publish-later">Schedule for later</Label>
+          </div>
+        </RadioGroup>
+
+        {mode === 'schedule' && (
+          <div className="space-y-2">
+            <Input
+              type="datetime-local"
+              value={publishAt}
+              min={toInputValue(new Date())}
+              onChange={(e) => setPublishAt(e.target.value)}
+            />
+            {blog.requested_publish_at && (
+              <p className="text-xs text-muted-foreground">
+                Author requested {format(new Date(blog.requested_publish_at), 'MMM dd, yyyy HH:mm')}
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={mode === 'schedule' && !isScheduleValid}
+            className="bg-green-600 hover:bg-green-700"
+          >
+            {mode === 'schedule' ? (
+              <>
+                <CalendarClock className="mr-2 w-4 h-4" />
+                Schedule
+              </>
+            ) : (
+              <>
+                <Check className="mr-2 w-4 h-4" />
+                Approve
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
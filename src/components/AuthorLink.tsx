@@ -0,0 +1,29 @@
+import { Link } from 'react-router-dom';
+
+interface AuthorLinkProps {
+  profile?: {
+    full_name?: string | null;
+    username?: string | null;
+  } | null;
+  className?: string;
+  children?: React.ReactNode;
+}
+
+// Links to the author's public profile, falling back to plain text for profiles without a username
+export function AuthorLink({ profile, className, children }: AuthorLinkProps) {
+  const content = children ?? (profile?.full_name || profile?.username || 'Anonymous');
+
+  if (!profile?.username) {
+    return <span className={className}>{content}</span>;
+  }
+
+  return (
+    <Link
+      to={`/u/${encodeURIComponent(profile.username)}`}
+      className={`hover:text-primary hover:underline underline-offset-2 transition-colors ${className || ''}`}
+      onClick={(e) => e.stopPropagation()}
+    >
+      {content}
+    </Link>
+  );
+}
@@ -0,0 +1,192 @@
+import { useState, useRef } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Camera, Trash2, ZoomIn } from 'lucide-react';
+
+interface AvatarUploadProps {
+  currentAvatarUrl?: string | null;
+  fallback: string;
+  onAvatarUploaded: (url: string) => void;
+  onAvatarRemoved: () => void;
+}
+
+const AVATAR_SIZE = 256;
+const PREVIEW_SIZE = 200;
+
+// Draws the centered square crop of the image, scaled by zoom, onto the canvas
+const drawSquareCrop = (canvas: HTMLCanvasElement, image: HTMLImageElement, zoom: number) => {
+  const context = canvas.getContext('2d');
+  if (!context) return;
+
+  const side = Math.min(image.naturalWidth, image.naturalHeight) / zoom;
+  const sx = (image.naturalWidth - side) / 2;
+  const sy = (image.naturalHeight - side) / 2;
+
+  context.clearRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, sx, sy, side, side, 0, 0, canvas.width, canvas.height);
+};
+
+export function AvatarUpload({ currentAvatarUrl, fallback, onAvatarUploaded, onAvatarRemoved }: AvatarUploadProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [uploading, setUploading] = useState(false);
+
+  const handleFileSelect = (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+
+    const allowedTypes = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+    if (!allowedTypes.includes(file.type)) {
+      toast({
+        title: "Invalid file type",
+        description: "Please upload a JPEG, PNG, WebP, or GIF image.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (file.size > 5 * 1024 * 1024) {
+      toast({
+        title: "File too large",
+        description: "Please upload an image smaller than 5MB.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const objectUrl = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      setZoom(1);
+      setImage(img);
+      URL.revokeObjectURL(objectUrl);
+    };
+    img.src = objectUrl;
+
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const uploadAvatar = async () => {
+    if (!user || !image) return;
+
+    setUploading(true);
+    try {
+      const canvas = document.createElement('canvas');
+      canvas.width = AVATAR_SIZE;
+      canvas.height = AVATAR_SIZE;
+      drawSquareCrop(canvas, image, zoom);
+
+      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.9));
+      if (!blob) throw new Error('Failed to process image.');
+
+      const fileName = `${user.id}/avatar-${Date.now()}.jpg`;
+
+      const { error: uploadError } = await supabase.storage
+        .from('blog-images')
+        .upload(fileName, blob, {
+          cacheControl: '3600',
+          contentType: 'image/jpeg',
+          upsert: false
+        });
+
+      if (uploadError) throw uploadError;
+
+      const { data } = supabase.storage
+        .from('blog-images')
+        .getPublicUrl(fileName);
+
+      onAvatarUploaded(data.publicUrl);
+      setImage(null);
+    } catch (error) {
+      toast({
+        title: "Upload failed",
+        description: error instanceof Error ? error.message : "Failed to upload avatar.",
+        variant: "destructive",
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-6">
+      <Avatar className="h-20 w-20 border-2 border-white shadow-md">
+        <AvatarImage src={currentAvatarUrl || undefined} />
+        <AvatarFallback className="bg-gradient-to-br from-blue-600 to-purple-600 text-white text-2xl">
+          {fallback}
+        </AvatarFallback>
+      </Avatar>
+
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={uploading}>
+          <Camera className="w-4 h-4 mr-2" />
+          {currentAvatarUrl ? 'Change Photo' : 'Upload Photo'}
+        </Button>
+        {currentAvatarUrl && (
+          <Button variant="ghost" onClick={onAvatarRemoved} disabled={uploading} className="text-destructive hover:text-destructive">
+            <Trash2 className="w-4 h-4 mr-2" />
+            Remove
+          </Button>
+        )}
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        onChange={(e) => handleFileSelect(e.target.files)}
+        className="hidden"
+      />
+
+      <Dialog open={!!image} onOpenChange={(open) => !open && !uploading && setImage(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Crop Photo</DialogTitle>
+            <DialogDescription>Your photo is cropped to a square and resized for your profile.</DialogDescription>
+          </DialogHeader>
+          <div className="flex flex-col items-center gap-4">
+            <canvas
+              ref={(canvas) => canvas && image && drawSquareCrop(canvas, image, zoom)}
+              width={PREVIEW_SIZE}
+              height={PREVIEW_SIZE}
+              className="rounded-full border shadow-sm"
+            />
+            <div className="flex items-center gap-3 w-full">
+              <ZoomIn className="w-4 h-4 text-muted-foreground" />
+              <Slider
+                value={[zoom]}
+                min={1}
+                max={3}
+                step={0.05}
+                onValueChange={([value]) => setZoom(value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setImage(null)} disabled={uploading}>
+              Cancel
+            </Button>
+            <Button onClick={uploadAvatar} disabled={uploading}>
+              {uploading ? 'Uploading...' : 'Save Photo'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -3,16 +3,31 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Check, X, Eye, EyeOff, ExternalLink } from 'lucide-react';
-import { formatDistanceToNow } from 'date-fns';
+import { Check, X, Eye, EyeOff, ExternalLink, CalendarClock, History } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
 import { Link } from 'react-router-dom';
+import { MarkdownRenderer } from '@/components/MarkdownRenderer';
+import { ChangesSinceApprovalDialog } from '@/components/ChangesSinceApprovalDialog';
+import { ApproveBlogDialog } from '@/components/ApproveBlogDialog';
+import { RejectBlogDialog, RejectionInput } from '@/components/RejectBlogDialog';
+import { ReviewThreadDialog } from '@/components/ReviewThread';
+import { AuthorLink } from '@/components/AuthorLink';
+import { TagLink } from '@/components/TagLink';
 
 interface BlogCardProps {
   blog: any;
-  onStatusUpdate?: (blogId: string, status: string) => void;
+  onStatusUpdate?: (blogId: string, status: string, publishAt?: string | null) => void;
+  onChangesApprove?: (blogId: string) => void;
+  onChangesReject?: (blogId: string, review: RejectionInput) => Promise<boolean>;
+  onReject?: (blogId: string, review: RejectionInput) => Promise<boolean>;
 }
 
-export default function BlogCard({ blog, onStatusUpdate }: BlogCardProps) {
+export default function BlogCard({ blog, onStatusUpdate, onChangesApprove, onChangesReject, onReject }: BlogCardProps) {
+  const hasPendingChanges = blog.status === 'approved' && !!blog.pending_changes;
+  // Admins preview the submitted edits rather than the live version
+  const preview = hasPendingChanges && onChangesApprove ? { ...blog, ...blog.pending_changes } : blog;
+  const isScheduled = blog.status === 'approved' && !!blog.published_at && new Date(blog.published_at) > new Date();
+
   return (
     <Card>
       <CardContent className="p-6">
@@ -22,7 +37,7 @@ export default function BlogCard({ blog, onStatusUpdate }: BlogCardProps) {
               <div className="flex-1">
                 <h3 className="text-lg font-semibold mb-2">{blog.title}</h3>
                 <div className="flex items-center space-x-4 text-sm text-muted-foreground mb-2">
-                  <span>By {blog.profiles?.full_name || blog.profiles?.username || 'Anonymous'}</span>
+                  <span>By <AuthorLink profile={blog.profiles} /></span>
                   <span>•</span>
                   <span>{formatDistanceToNow(new Date(blog.created_at), { addSuffix: true })}</span>
                   <span>•</span>
@@ -36,9 +51,11 @@ export default function BlogCard({ blog, onStatusUpdate }: BlogCardProps) {
                 {blog.tags && blog.tags.length > 0 && (
                   <div className="flex flex-wrap gap-1 mb-3">
                     {blog.tags.slice(0, 3).map((tag: string) => (
-                      <Badge key={tag} variant="outline" className="text-xs">
-                        {tag}
-                      </Badge>
+                      <TagLink key={tag} tag={tag}>
+                        <Badge variant="outline" className="text-xs hover:bg-accent transition-colors">
+                          {tag}
+                        </Badge>
+                      </TagLink>
                     ))}
                   </div>
                 )}
@@ -48,8 +65,17 @@ export default function BlogCard({ blog, onStatusUpdate }: BlogCardProps) {
                 blog.status === 'pending' ? 'secondary' : 
                 'destructive'
               }>
-                {blog.status.charAt(0).toUpperCase() + blog.status.slice(1)}
+                {isScheduled ? 'Scheduled' : blog.status.charAt(0).toUpperCase() + blog.status.slice(1)}
               </Badge>
+              {hasPendingChanges && onChangesApprove && (
+                <Badge variant="secondary">Edits pending</Badge>
+              )}
+              {isScheduled && (
+                <Badge variant="outline" className="gap-1">
+                  <CalendarClock className="w-3 h-3" />
+                  {format(new Date(blog.published_at), 'MMM dd, yyyy HH:mm')}
+                </Badge>
+              )}
             </div>
           </div>
         </div>
@@ -58,51 +84,89 @@ export default function BlogCard({ blog, onStatusUpdate }: BlogCardProps) {
         {onStatusUpdate && (
           <div className="flex space-x-2">
             {blog.status === 'pending' && (
+              <>
+                <ApproveBlogDialog
+                  blog={blog}
+                  onApprove={(publishAt) => onStatusUpdate(blog.id, 'approved', publishAt)}
+                >
+                  <Button size="sm" className="bg-green-600 hover:bg-green-700">
+                    <Check className="mr-2 w-4 h-4" />
+                    Approve
+                  </Button>
+                </ApproveBlogDialog>
+                {onReject && (
+                  <RejectBlogDialog blog={blog} onReject={(review) => onReject(blog.id, review)}>
+                    <Button size="sm" variant="destructive">
+                      <X className="mr-2 w-4 h-4" />
+                      Reject
+                    </Button>
+                  </RejectBlogDialog>
+                )}
+              </>
+            )}
+
+            {hasPendingChanges && onChangesApprove && (
               <>
                 <Button
                   size="sm"
-                  onClick={() => onStatusUpdate(blog.id, 'approved')}
+                  onClick={() => onChangesApprove(blog.id)}
                   className="bg-green-600 hover:bg-green-700"
                 >
                   <Check className="mr-2 w-4 h-4" />
-                  Approve
-                </Button>
-                <Button
-                  size="sm"
-                  variant="destructive"
-                  onClick={() => onStatusUpdate(blog.id, 'rejected')}
-                >
-                  <X className="mr-2 w-4 h-4" />
-                  Reject
+                  Approve Edits
                 </Button>
+                {onChangesReject && (
+                  <RejectBlogDialog
+                    blog={preview}
+                    editsOnly
+                    onReject={(review) => onChangesReject(blog.id, review)}
+                  >
+                    <Button size="sm" variant="destructive">
+                      <X className="mr-2 w-4 h-4" />
+                      Discard Edits
+                    </Button>
+                  </RejectBlogDialog>
+                )}
               </>
             )}
 
-            {blog.status === 'approved' && (
-              <Button
-                size="sm"
-                variant="outline"
-                onClick={() => onStatusUpdate(blog.id, 'rejected')}
-              >
-                <EyeOff className="mr-2 w-4 h-4" />
-                Unpublish
-              </Button>
+            {blog.status === 'approved' && onReject && (
+              <RejectBlogDialog blog={blog} onReject={(review) => onReject(blog.id, review)}>
+                <Button size="sm" variant="outline">
+                  <EyeOff className="mr-2 w-4 h-4" />
+                  Unpublish
+                </Button>
+              </RejectBlogDialog>
             )}
 
             {blog.status === 'rejected' && (
-              <Button
-                size="sm"
-                onClick={() => onStatusUpdate(blog.id, 'approved')}
-                className="bg-green-600 hover:bg-green-700"
+              <ApproveBlogDialog
+                blog={blog}
+                onApprove={(publishAt) => onStatusUpdate(blog.id, 'approved', publishAt)}
               >
-                <Check className="mr-2 w-4 h-4" />
-                Approve
-              </Button>
+                <Button size="sm" className="bg-green-600 hover:bg-green-700">
+                  <Check className="mr-2 w-4 h-4" />
+                  Approve
+                </Button>
+              </ApproveBlogDialog>
             )}
           </div>
         )}
           
           <div className="flex space-x-2">
+            {onStatusUpdate && (hasPendingChanges || blog.status === 'pending') && (
+              <ChangesSinceApprovalDialog blog={blog} />
+            )}
+
+            {onStatusUpdate && (
+              <ReviewThreadDialog blogId={blog.id} blogTitle={blog.title}>
+                <Button variant="outline" size="sm">
+                  <History className="w-4 h-4 mr-2" />
+                  Reviews
+                </Button>
+              </ReviewThreadDialog>
+            )}
+
             <Dialog>
               <DialogTrigger asChild>
                 <Button variant="outline" size="sm">
@@ -112,23 +176,23 @@ export default function BlogCard({ blog, onStatusUpdate }: BlogCardProps) {
               </DialogTrigger>
               <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
                 <DialogHeader>
-                  <DialogTitle>{blog.title}</DialogTitle>
+                  <DialogTitle>{preview.title}</DialogTitle>
                 </DialogHeader>
                 <div className="prose prose-gray dark:prose-invert max-w-none">
                   <div className="mb-4">
                     <p className="text-sm text-muted-foreground">
-                      By {blog.profiles?.full_name || blog.profiles?.username || 'Anonymous'} • 
+                      By <AuthorLink profile={blog.profiles} /> • 
                       {formatDistanceToNow(new Date(blog.created_at), { addSuffix: true })}
                     </p>
                   </div>
-                  {blog.cover_image_url && (
+                  {preview.cover_image_url && (
                     <img 
-                      src={blog.cover_image_url} 
-                      alt={blog.title}
+                      src={preview.cover_image_url} 
+                      alt={preview.title}
                       className="w-full h-48 object-cover rounded-lg mb-4"
                     />
                   )}
-                  <div className="whitespace-pre-wrap">{blog.content}</div>
+                  <MarkdownRenderer content={preview.content} />
                 </div>
               </DialogContent>
             </Dialog>
@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { RevisionDiff, RevisionSnapshot } from '@/components/RevisionDiff';
+import { GitCompare } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface ChangesSinceApprovalDialogProps {
+  blog: RevisionSnapshot & {
+    id: string;
+    pending_changes?: RevisionSnapshot | null;
+  };
+}
+
+export function ChangesSinceApprovalDialog({ blog }: ChangesSinceApprovalDialogProps) {
+  const [loading, setLoading] = useState(false);
+  const [approved, setApproved] = useState<(RevisionSnapshot & { created_at?: string }) | null>(null);
+
+  const submitted = blog.pending_changes || blog;
+
+  const fetchApprovedVersion = async () => {
+    // Staged edits sit on top of the live row, which is the approved version itself
+    if (blog.pending_changes) {
+      setApproved(blog);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('blog_revisions')
+        .select('*')
+        .eq('blog_id', blog.id)
+        .eq('kind', 'approved')
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      setApproved(data);
+    } catch (error) {
+      console.error('Error fetching approved version:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={(open) => open && fetchApprovedVersion()}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <GitCompare className="w-4 h-4 mr-2" />
+          Changes
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-5xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitCompare className="w-5 h-5" />
+            Changes Since Last Approval
+          </DialogTitle>
+        </DialogHeader>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : approved ? (
+          <div className="space-y-4">
+            {approved.created_at && (
+              <p className="text-sm text-muted-foreground">
+                Compared with the version approved on {format(new Date(approved.created_at), 'MMM dd, yyyy HH:mm')}
+              </p>
+            )}
+            <RevisionDiff before={approved} after={submitted} />
+          </div>
+        ) : (
+          <p className="text-muted-foreground text-center py-8">
+            This article has never been approved, so the whole submission is new.
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
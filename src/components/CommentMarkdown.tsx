@@ -0,0 +1,62 @@
+import { Link } from 'react-router-dom';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeSanitize from 'rehype-sanitize';
+import { cn } from '@/lib/utils';
+
+interface CommentMarkdownProps {
+  content: string;
+  className?: string;
+}
+
+// Comments get inline code, code blocks, links and emphasis; anything else is unwrapped to its text
+const ALLOWED_ELEMENTS = ['p', 'br', 'em', 'strong', 'code', 'pre', 'a'];
+
+// Same shape as the database trigger that sends mention notifications
+const MENTION_PATTERN = /(^|[^a-zA-Z0-9_@/])@([a-zA-Z0-9_]{3,30})/g;
+const CODE_PATTERN = /(```[\s\S]*?```|`[^`]*`)/;
+// A single leading slash; browsers read //host and /\host as another site
+const INTERNAL_LINK_PATTERN = /^\/(?![/\\])/;
+
+// Turns @username into a profile link, leaving code untouched
+const linkMentions = (content: string) =>
+  content
+    .split(CODE_PATTERN)
+    .map((part, index) =>
+      index % 2 === 1
+        ? part
+        : part.replace(MENTION_PATTERN, (_match, prefix, username) =>
+          `${prefix}[@${username}](/u/${username})`
+        )
+    )
+    .join('');
+
+// Single line breaks are kept, as they were when comments were plain text
+export function CommentMarkdown({ content, className }: CommentMarkdownProps) {
+  return (
+    <div
+      className={cn(
+        'prose prose-sm prose-slate max-w-none break-words [&_p]:whitespace-pre-wrap prose-p:my-2 prose-a:text-primary prose-pre:my-2 prose-pre:bg-slate-50 prose-pre:text-slate-800 prose-pre:border',
+        className
+      )}
+    >
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={[rehypeSanitize]}
+        allowedElements={ALLOWED_ELEMENTS}
+        unwrapDisallowed
+        components={{
+          a: ({ node, href, ...props }) => {
+            if (href && INTERNAL_LINK_PATTERN.test(href)) {
+              return <Link to={href} {...props} />;
+            }
+
+            return <a href={href} {...props} target="_blank" rel="noopener noreferrer nofollow ugc" />;
+          },
+        }}
+      >
+        {linkMentions(content)}
+      </ReactMarkdown>
+    </div>
+  );
+}
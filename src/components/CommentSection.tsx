@@ -1,48 +1,174 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { Link, useLocation } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
-import { Textarea } from '@/components/ui/textarea';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { useToast } from '@/hooks/use-toast';
-import { MessageCircle, Reply, Send } from 'lucide-react';
+import { AuthorLink } from '@/components/AuthorLink';
+import { ReportDialog, ReportTarget } from '@/components/ReportDialog';
+import { CommentMarkdown } from '@/components/CommentMarkdown';
+import { MentionTextarea } from '@/components/MentionTextarea';
+import {
+  ArrowBigDown,
+  ArrowBigUp,
+  ArrowLeft,
+  ArrowUp,
+  ChevronDown,
+  ChevronRight,
+  EyeOff,
+  Flag,
+  Link2,
+  MessageCircle,
+  Pencil,
+  Pin,
+  PinOff,
+  Reply,
+  Send,
+  Trash2,
+} from 'lucide-react';
 import { format } from 'date-fns';
 
 interface Comment {
   id: string;
   content: string;
   author_id: string;
-  parent_id?: string;
+  parent_id?: string | null;
   created_at: string;
   updated_at: string;
+  deleted_at?: string | null;
+  hidden_at?: string | null;
+  score: number;
+  pinned_at?: string | null;
   profiles: {
     full_name: string;
     avatar_url?: string;
     username?: string;
   };
-  replies?: Comment[];
 }
 
 interface CommentSectionProps {
   blogId: string;
+  blogAuthorId?: string;
 }
 
-export function CommentSection({ blogId }: CommentSectionProps) {
+type CommentSort = 'top' | 'newest' | 'oldest';
+
+interface Threads {
+  byId: Map<string, Comment>;
+  roots: Comment[];
+  children: Map<string, Comment[]>;
+}
+
+// Levels shown inline before a subthread continues in its own view
+const MAX_DEPTH = 4;
+const ROOT_PAGE_SIZE = 20;
+const INITIAL_REPLIES = 3;
+const MORE_REPLIES = 10;
+const HIGHLIGHT_MS = 3000;
+const PERMALINK_PREFIX = '#comment-';
+
+// updated_at only moves when the text changes
+const isEdited = (comment: Comment) =>
+  !comment.deleted_at && new Date(comment.updated_at).getTime() > new Date(comment.created_at).getTime();
+
+// Pins only exist on top-level comments and always come first
+const compareComments = (sort: CommentSort) => (a: Comment, b: Comment) => {
+  if (!!a.pinned_at !== !!b.pinned_at) return a.pinned_at ? -1 : 1;
+  if (a.pinned_at && b.pinned_at) return new Date(b.pinned_at).getTime() - new Date(a.pinned_at).getTime();
+  if (sort === 'top' && a.score !== b.score) return b.score - a.score;
+
+  const age = new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+  return sort === 'newest' ? -age : age;
+};
+
+const rankComments = (comments: Comment[], sort: CommentSort) =>
+  new Map([...comments].sort(compareComments(sort)).map((comment, index) => [comment.id, index]));
+
+const buildThreads = (comments: Comment[], order: Map<string, number>): Threads => {
+  const byId = new Map(comments.map(comment => [comment.id, comment]));
+  const roots: Comment[] = [];
+  const children = new Map<string, Comment[]>();
+  const rank = (comment: Comment) => order.get(comment.id) ?? Number.MAX_SAFE_INTEGER;
+
+  [...comments].sort((a, b) => rank(a) - rank(b)).forEach(comment => {
+    if (!comment.parent_id) {
+      roots.push(comment);
+      return;
+    }
+
+    // Hidden parents aren't returned to other readers; keep their replies under a placeholder
+    if (!byId.has(comment.parent_id)) {
+      const placeholder: Comment = {
+        id: comment.parent_id,
+        content: '',
+        author_id: '',
+        created_at: comment.created_at,
+        updated_at: comment.created_at,
+        deleted_at: comment.created_at,
+        hidden_at: comment.created_at,
+        score: 0,
+        profiles: { full_name: '' },
+      };
+      byId.set(placeholder.id, placeholder);
+      roots.push(placeholder);
+    }
+
+    children.set(comment.parent_id, [...(children.get(comment.parent_id) || []), comment]);
+  });
+
+  return { byId, roots, children };
+};
+
+type CommentChange = Pick<Comment, 'id' | 'content' | 'updated_at' | 'deleted_at' | 'hidden_at' | 'score' | 'pinned_at'>;
+
+export function CommentSection({ blogId, blogAuthorId }: CommentSectionProps) {
   const { user, profile } = useAuth();
   const { toast } = useToast();
+  const location = useLocation();
   const [comments, setComments] = useState<Comment[]>([]);
   const [loading, setLoading] = useState(true);
+  const [sort, setSort] = useState<CommentSort>('top');
+  // The comments as of the last load; ranking is only recomputed then or when the sort
+  // changes, so live score updates don't reorder a thread while someone is reading it
+  const [rankedComments, setRankedComments] = useState<Comment[]>([]);
+  const [myVotes, setMyVotes] = useState<Record<string, number>>({});
   const [newComment, setNewComment] = useState('');
   const [replyTo, setReplyTo] = useState<string | null>(null);
   const [replyContent, setReplyContent] = useState('');
   const [submitting, setSubmitting] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editContent, setEditContent] = useState('');
+  const [deletingComment, setDeletingComment] = useState<Comment | null>(null);
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
+  const [newCommentIds, setNewCommentIds] = useState<string[]>([]);
+  const [collapsedIds, setCollapsedIds] = useState<string[]>([]);
+  const [visibleRootCount, setVisibleRootCount] = useState(ROOT_PAGE_SIZE);
+  const [visibleReplies, setVisibleReplies] = useState<Record<string, number>>({});
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const sectionRef = useRef<HTMLDivElement>(null);
+  // Ids currently rendered, so realtime events can tell new comments from known ones
+  const loadedIdsRef = useRef<Set<string>>(new Set());
+  // A comment to bring into view once it has loaded (permalink or freshly posted)
+  const [pendingRevealId, setPendingRevealId] = useState<string | null>(null);
 
-  useEffect(() => {
-    fetchComments();
-  }, [blogId]);
+  const order = useMemo(() => rankComments(rankedComments, sort), [rankedComments, sort]);
+  const threads = useMemo(() => buildThreads(comments, order), [comments, order]);
 
-  const fetchComments = async () => {
+  const fetchComments = useCallback(async () => {
     try {
       const { data, error } = await supabase
         .from('comments')
@@ -59,32 +185,151 @@ export function CommentSection({ blogId }: CommentSectionProps) {
 
       if (error) throw error;
 
-      // Organize comments into threads
-      const commentMap = new Map();
-      const rootComments: Comment[] = [];
+      loadedIdsRef.current = new Set(data.map(comment => comment.id));
+      setNewCommentIds([]);
+      setComments(data as Comment[]);
+      setRankedComments(data as Comment[]);
+    } catch (error) {
+      console.error('Error fetching comments:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [blogId]);
 
-      data.forEach(comment => {
-        commentMap.set(comment.id, { ...comment, replies: [] });
+  useEffect(() => {
+    setFocusedId(null);
+    setVisibleRootCount(ROOT_PAGE_SIZE);
+    setVisibleReplies({});
+    setCollapsedIds([]);
+    fetchComments();
+  }, [fetchComments]);
+
+  useEffect(() => {
+    const fetchMyVotes = async () => {
+      if (!profile?.id) {
+        setMyVotes({});
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from('comment_votes')
+        .select('comment_id, value, comments!inner ( blog_id )')
+        .eq('user_id', profile.id)
+        .eq('comments.blog_id', blogId);
+
+      if (error) {
+        console.error('Error fetching comment votes:', error);
+        return;
+      }
+
+      setMyVotes(Object.fromEntries((data || []).map(vote => [vote.comment_id, vote.value])));
+    };
+
+    fetchMyVotes();
+  }, [blogId, profile?.id]);
+
+  useEffect(() => {
+    if (!location.hash.startsWith(PERMALINK_PREFIX)) return;
+
+    setPendingRevealId(location.hash.slice(PERMALINK_PREFIX.length));
+  }, [location.hash]);
+
+  // Expands, pages in and if needed focuses the subthread so a comment is on screen, then highlights it
+  const revealComment = useCallback((id: string) => {
+    const chain: Comment[] = [];
+    for (let comment = threads.byId.get(id); comment; comment = comment.parent_id ? threads.byId.get(comment.parent_id) : undefined) {
+      chain.unshift(comment);
+    }
+    if (chain.length === 0) return;
+
+    const depth = chain.length - 1;
+    const focus = depth >= MAX_DEPTH ? chain[depth - (MAX_DEPTH - 1)] : null;
+    const chainIds = chain.map(comment => comment.id);
+
+    setFocusedId(focus?.id ?? null);
+    setCollapsedIds(prev => prev.filter(collapsedId => !chainIds.includes(collapsedId)));
+    setVisibleReplies(prev => {
+      const next = { ...prev };
+      chain.slice(1).forEach(comment => {
+        const parentId = comment.parent_id as string;
+        const index = (threads.children.get(parentId) || []).findIndex(sibling => sibling.id === comment.id);
+        next[parentId] = Math.max(next[parentId] ?? INITIAL_REPLIES, index + 1);
       });
+      return next;
+    });
+    if (!focus) {
+      const rootIndex = threads.roots.findIndex(root => root.id === chain[0].id);
+      setVisibleRootCount(prev => Math.max(prev, rootIndex + 1));
+    }
+    setHighlightedId(id);
+  }, [threads]);
 
-      data.forEach(comment => {
-        if (comment.parent_id) {
-          const parent = commentMap.get(comment.parent_id);
-          if (parent) {
-            parent.replies.push(commentMap.get(comment.id));
+  useEffect(() => {
+    if (!pendingRevealId || !threads.byId.has(pendingRevealId)) return;
+
+    setPendingRevealId(null);
+    revealComment(pendingRevealId);
+  }, [pendingRevealId, threads, revealComment]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+
+    document.getElementById(`comment-${highlightedId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timeout = setTimeout(() => setHighlightedId(null), HIGHLIGHT_MS);
+    return () => clearTimeout(timeout);
+  }, [highlightedId]);
+
+  // New comments from other readers are announced rather than inserted, so the
+  // thread doesn't shift under someone who is reading it; edits apply in place
+  useEffect(() => {
+    const channel = supabase
+      .channel(`comments:${blogId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'comments', filter: `blog_id=eq.${blogId}` },
+        (payload) => {
+          const comment = payload.new as Comment;
+          // Our own comments are loaded right after posting
+          if (comment.author_id === profile?.id || loadedIdsRef.current.has(comment.id)) return;
+          setNewCommentIds(prev => (prev.includes(comment.id) ? prev : [...prev, comment.id]));
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'comments', filter: `blog_id=eq.${blogId}` },
+        (payload) => {
+          const change = payload.new as CommentChange;
+          if (!loadedIdsRef.current.has(change.id)) {
+            // A comment we only announced was removed again
+            if (change.deleted_at) setNewCommentIds(prev => prev.filter(newId => newId !== change.id));
+            return;
+          }
+          // Removals tombstone the row before deleting it, so reload to drop whatever is gone
+          if (change.deleted_at) {
+            fetchComments();
+            return;
           }
-        } else {
-          rootComments.push(commentMap.get(comment.id));
+          setComments(prev => prev.map(comment =>
+            comment.id === change.id
+              ? {
+                  ...comment,
+                  content: change.content,
+                  updated_at: change.updated_at,
+                  deleted_at: change.deleted_at,
+                  hidden_at: change.hidden_at,
+                  score: change.score,
+                  pinned_at: change.pinned_at,
+                }
+              : comment
+          ));
         }
-      });
+      )
+      .subscribe();
 
-      setComments(rootComments);
-    } catch (error) {
-      console.error('Error fetching comments:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [blogId, profile?.id, fetchComments]);
 
   const handleSubmitComment = async () => {
     if (!user || !profile) {
@@ -99,23 +344,26 @@ export function CommentSection({ blogId }: CommentSectionProps) {
 
     setSubmitting(true);
     try {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('comments')
         .insert({
           content: newComment.trim(),
           blog_id: blogId,
           author_id: profile.id,
-        });
+        })
+        .select('id')
+        .single();
 
       if (error) throw error;
 
       setNewComment('');
+      setPendingRevealId(data.id);
       await fetchComments();
       toast({
         title: "Comment posted!",
         description: "Your comment has been added.",
       });
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: "Error",
         description: "Failed to post comment.",
@@ -139,25 +387,28 @@ export function CommentSection({ blogId }: CommentSectionProps) {
 
     setSubmitting(true);
     try {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('comments')
         .insert({
           content: replyContent.trim(),
           blog_id: blogId,
           author_id: profile.id,
           parent_id: parentId,
-        });
+        })
+        .select('id')
+        .single();
 
       if (error) throw error;
 
       setReplyContent('');
       setReplyTo(null);
+      setPendingRevealId(data.id);
       await fetchComments();
       toast({
         title: "Reply posted!",
         description: "Your reply has been added.",
       });
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: "Error",
         description: "Failed to post reply.",
@@ -168,86 +419,446 @@ export function CommentSection({ blogId }: CommentSectionProps) {
     }
   };
 
-  const CommentItem = ({ comment, isReply = false }: { comment: Comment; isReply?: boolean }) => (
-    <div className={`${isReply ? 'ml-8 border-l-2 border-muted pl-4' : ''}`}>
-      <Card className="mb-4">
-        <CardContent className="pt-4">
-          <div className="flex items-start space-x-3">
-            <Avatar className="w-8 h-8">
-              <AvatarImage src={comment.profiles.avatar_url} />
-              <AvatarFallback>
-                {comment.profiles.full_name?.charAt(0)}
-              </AvatarFallback>
-            </Avatar>
-            <div className="flex-1">
-              <div className="flex items-center space-x-2 mb-2">
-                <span className="font-medium text-sm">
-                  {comment.profiles.full_name}
-                </span>
-                <span className="text-xs text-muted-foreground">
-                  {format(new Date(comment.created_at), 'MMM dd, yyyy')}
-                </span>
+  const handleVote = async (comment: Comment, value: 1 | -1) => {
+    if (!user || !profile) {
+      toast({
+        title: "Sign in required",
+        description: "Please sign in to vote on comments.",
+      });
+      return;
+    }
+
+    const previous = myVotes[comment.id] || 0;
+    const next = previous === value ? 0 : value;
+    const applyVote = (from: number, to: number) => {
+      setMyVotes(prev => ({ ...prev, [comment.id]: to }));
+      setComments(prev => prev.map(c => c.id === comment.id ? { ...c, score: c.score - from + to } : c));
+    };
+
+    applyVote(previous, next);
+    try {
+      const { error } = next === 0
+        ? await supabase
+          .from('comment_votes')
+          .delete()
+          .eq('comment_id', comment.id)
+          .eq('user_id', profile.id)
+        : await supabase
+          .from('comment_votes')
+          .upsert({ comment_id: comment.id, user_id: profile.id, value: next }, { onConflict: 'comment_id,user_id' });
+
+      if (error) throw error;
+    } catch (error) {
+      applyVote(next, previous);
+      toast({
+        title: "Error",
+        description: "Failed to save your vote.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const canEdit = (comment: Comment) => !comment.deleted_at && !!profile && comment.author_id === profile.id;
+
+  const canDelete = (comment: Comment) =>
+    !comment.deleted_at && !!profile && (
+      comment.author_id === profile.id ||
+      blogAuthorId === profile.id ||
+      profile.role === 'admin'
+    );
+
+  const canReport = (comment: Comment) => !comment.deleted_at && comment.author_id !== profile?.id;
+
+  const canPin = (comment: Comment) =>
+    !comment.parent_id && !comment.deleted_at && !comment.hidden_at && !!profile &&
+    (blogAuthorId === profile.id || profile.role === 'admin');
+
+  const openReport = (comment: Comment) => {
+    if (!user || !profile) {
+      toast({
+        title: "Sign in required",
+        description: "Please sign in to report comments.",
+      });
+      return;
+    }
+
+    setReportTarget({ blogId, commentId: comment.id });
+  };
+
+  const copyPermalink = async (comment: Comment) => {
+    try {
+      await navigator.clipboard.writeText(
+        `${window.location.origin}${location.pathname}${PERMALINK_PREFIX}${comment.id}`
+      );
+      toast({
+        title: "Link copied!",
+        description: "Comment link copied to clipboard.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to copy link.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleTogglePin = async (comment: Comment) => {
+    try {
+      const { error } = await supabase.rpc('set_comment_pinned', {
+        _comment_id: comment.id,
+        _pinned: !comment.pinned_at,
+      });
+
+      if (error) throw error;
+
+      await fetchComments();
+      toast({
+        title: comment.pinned_at ? "Comment unpinned" : "Comment pinned",
+        description: comment.pinned_at
+          ? "The comment is back in its usual place."
+          : "The comment now appears at the top of the discussion.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update the pin.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const startEditing = (comment: Comment) => {
+    setEditingId(comment.id);
+    setEditContent(comment.content);
+    setReplyTo(null);
+  };
+
+  const handleSaveEdit = async (commentId: string) => {
+    if (!editContent.trim()) return;
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase
+        .from('comments')
+        .update({ content: editContent.trim() })
+        .eq('id', commentId);
+
+      if (error) throw error;
+
+      setEditingId(null);
+      setEditContent('');
+      await fetchComments();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update comment.",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (comment: Comment) => {
+    try {
+      const { error } = await supabase.rpc('delete_comment', { _comment_id: comment.id });
+
+      if (error) throw error;
+
+      await fetchComments();
+      toast({
+        title: "Comment deleted",
+        description: threads.children.has(comment.id)
+          ? "Replies to this comment are still visible."
+          : "The comment has been removed.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete comment.",
+        variant: "destructive",
+      });
+    } finally {
+      setDeletingComment(null);
+    }
+  };
+
+  const toggleCollapsed = (commentId: string) => {
+    setCollapsedIds(prev =>
+      prev.includes(commentId) ? prev.filter(id => id !== commentId) : [...prev, commentId]
+    );
+  };
+
+  const focusThread = (commentId: string | null) => {
+    setFocusedId(commentId);
+    sectionRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  const countReplies = (commentId: string): number =>
+    (threads.children.get(commentId) || []).reduce((total, reply) => total + 1 + countReplies(reply.id), 0);
+
+  // Rendered as a plain function rather than a nested component so open text areas keep focus
+  const renderComment = (comment: Comment, depth = 0) => {
+    const replies = threads.children.get(comment.id) || [];
+    const collapsed = collapsedIds.includes(comment.id);
+    const shownReplies = visibleReplies[comment.id] ?? INITIAL_REPLIES;
+    const myVote = myVotes[comment.id] || 0;
+    const canVote = !comment.deleted_at && comment.author_id !== profile?.id;
+
+    return (
+      <div key={comment.id} className={depth > 0 ? 'border-l-2 border-muted pl-4' : ''}>
+        <Card
+          id={`comment-${comment.id}`}
+          className={`mb-4 scroll-mt-24 transition-shadow ${highlightedId === comment.id ? 'ring-2 ring-primary' : ''}`}
+        >
+          <CardContent className="pt-4">
+            {comment.deleted_at ? (
+              <div className="flex items-center gap-2">
+                {replies.length > 0 && (
+                  <button
+                    onClick={() => toggleCollapsed(comment.id)}
+                    className="text-muted-foreground hover:text-foreground"
+                    aria-label={collapsed ? 'Expand replies' : 'Collapse replies'}
+                  >
+                    {collapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                  </button>
+                )}
+                <p className="text-sm italic text-muted-foreground">
+                  {comment.hidden_at ? '[removed by a moderator]' : '[deleted]'}
+                </p>
               </div>
-              <p className="text-sm leading-relaxed mb-3">
-                {comment.content}
-              </p>
-              {!isReply && (
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => setReplyTo(replyTo === comment.id ? null : comment.id)}
-                >
-                  <Reply className="w-3 h-3 mr-1" />
-                  Reply
-                </Button>
-              )}
+            ) : (
+              <div className="flex items-start space-x-3">
+                <AuthorLink profile={comment.profiles}>
+                  <Avatar className="w-8 h-8">
+                    <AvatarImage src={comment.profiles.avatar_url} />
+                    <AvatarFallback>
+                      {comment.profiles.full_name?.charAt(0)}
+                    </AvatarFallback>
+                  </Avatar>
+                </AuthorLink>
+                <div className="flex-1">
+                  <div className="flex flex-wrap items-center gap-x-2 gap-y-1 mb-2">
+                    {replies.length > 0 && (
+                      <button
+                        onClick={() => toggleCollapsed(comment.id)}
+                        className="text-muted-foreground hover:text-foreground"
+                        aria-label={collapsed ? 'Expand replies' : 'Collapse replies'}
+                      >
+                        {collapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                      </button>
+                    )}
+                    <AuthorLink profile={comment.profiles} className="font-medium text-sm" />
+                    {comment.author_id === blogAuthorId && (
+                      <span className="text-xs font-medium text-primary">Author</span>
+                    )}
+                    <Link
+                      to={{ hash: `${PERMALINK_PREFIX}${comment.id}` }}
+                      className="text-xs text-muted-foreground hover:underline"
+                    >
+                      {format(new Date(comment.created_at), 'MMM dd, yyyy')}
+                    </Link>
+                    {isEdited(comment) && (
+                      <span
+                        className="text-xs text-muted-foreground"
+                        title={`Edited ${format(new Date(comment.updated_at), 'MMM dd, yyyy HH:mm')}`}
+                      >
+                        (edited)
+                      </span>
+                    )}
+                    {comment.pinned_at && (
+                      <span className="flex items-center gap-1 text-xs text-primary">
+                        <Pin className="w-3 h-3" />
+                        Pinned by the author
+                      </span>
+                    )}
+                    {comment.hidden_at && (
+                      <span className="flex items-center gap-1 text-xs text-destructive">
+                        <EyeOff className="w-3 h-3" />
+                        Hidden by a moderator
+                      </span>
+                    )}
+                  </div>
 
-              {/* Reply Form */}
-              {replyTo === comment.id && (
-                <div className="mt-3 space-y-3">
-                  <Textarea
-                    placeholder="Write a reply..."
-                    value={replyContent}
-                    onChange={(e) => setReplyContent(e.target.value)}
-                    rows={3}
-                  />
-                  <div className="flex space-x-2">
+                  {editingId === comment.id ? (
+                    <div className="space-y-3 mb-3">
+                      <MentionTextarea
+                        value={editContent}
+                        onChange={setEditContent}
+                        rows={3}
+                        autoFocus
+                      />
+                      <div className="flex space-x-2">
+                        <Button
+                          size="sm"
+                          onClick={() => handleSaveEdit(comment.id)}
+                          disabled={submitting || !editContent.trim() || editContent.trim() === comment.content}
+                        >
+                          Save
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setEditingId(null);
+                            setEditContent('');
+                          }}
+                        >
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <CommentMarkdown content={comment.content} className="leading-relaxed mb-3" />
+                  )}
+
+                  <div className="flex flex-wrap items-center gap-1">
+                    <div className="flex items-center mr-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className={`h-8 px-1 ${myVote === 1 ? 'text-primary' : ''}`}
+                        onClick={() => handleVote(comment, 1)}
+                        disabled={!canVote}
+                        aria-label="Upvote"
+                      >
+                        <ArrowBigUp className={`w-4 h-4 ${myVote === 1 ? 'fill-current' : ''}`} />
+                      </Button>
+                      <span className="min-w-[1.5rem] text-center text-sm font-medium tabular-nums">
+                        {comment.score}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className={`h-8 px-1 ${myVote === -1 ? 'text-destructive' : ''}`}
+                        onClick={() => handleVote(comment, -1)}
+                        disabled={!canVote}
+                        aria-label="Downvote"
+                      >
+                        <ArrowBigDown className={`w-4 h-4 ${myVote === -1 ? 'fill-current' : ''}`} />
+                      </Button>
+                    </div>
                     <Button
+                      variant="ghost"
                       size="sm"
-                      onClick={() => handleSubmitReply(comment.id)}
-                      disabled={submitting || !replyContent.trim()}
+                      onClick={() => setReplyTo(replyTo === comment.id ? null : comment.id)}
                     >
-                      <Send className="w-3 h-3 mr-1" />
-                      Post Reply
+                      <Reply className="w-3 h-3 mr-1" />
+                      Reply
                     </Button>
+                    {canEdit(comment) && editingId !== comment.id && (
+                      <Button variant="ghost" size="sm" onClick={() => startEditing(comment)}>
+                        <Pencil className="w-3 h-3 mr-1" />
+                        Edit
+                      </Button>
+                    )}
+                    {canPin(comment) && (
+                      <Button variant="ghost" size="sm" onClick={() => handleTogglePin(comment)}>
+                        {comment.pinned_at ? <PinOff className="w-3 h-3 mr-1" /> : <Pin className="w-3 h-3 mr-1" />}
+                        {comment.pinned_at ? 'Unpin' : 'Pin'}
+                      </Button>
+                    )}
+                    {canDelete(comment) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => setDeletingComment(comment)}
+                      >
+                        <Trash2 className="w-3 h-3 mr-1" />
+                        Delete
+                      </Button>
+                    )}
                     <Button
                       variant="ghost"
                       size="sm"
-                      onClick={() => {
-                        setReplyTo(null);
-                        setReplyContent('');
-                      }}
+                      className="text-muted-foreground"
+                      onClick={() => copyPermalink(comment)}
                     >
-                      Cancel
+                      <Link2 className="w-3 h-3 mr-1" />
+                      Link
                     </Button>
+                    {canReport(comment) && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-muted-foreground"
+                        onClick={() => openReport(comment)}
+                      >
+                        <Flag className="w-3 h-3 mr-1" />
+                        Report
+                      </Button>
+                    )}
                   </div>
+
+                  {/* Reply Form */}
+                  {replyTo === comment.id && (
+                    <div className="mt-3 space-y-3">
+                      <MentionTextarea
+                        placeholder="Write a reply..."
+                        value={replyContent}
+                        onChange={setReplyContent}
+                        rows={3}
+                      />
+                      <div className="flex space-x-2">
+                        <Button
+                          size="sm"
+                          onClick={() => handleSubmitReply(comment.id)}
+                          disabled={submitting || !replyContent.trim()}
+                        >
+                          <Send className="w-3 h-3 mr-1" />
+                          Post Reply
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setReplyTo(null);
+                            setReplyContent('');
+                          }}
+                        >
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  )}
                 </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Replies */}
+        {replies.length > 0 && (
+          collapsed ? (
+            <Button variant="link" size="sm" className="ml-4 mb-4 h-auto p-0" onClick={() => toggleCollapsed(comment.id)}>
+              Show {countReplies(comment.id)} hidden repl{countReplies(comment.id) === 1 ? 'y' : 'ies'}
+            </Button>
+          ) : depth + 1 >= MAX_DEPTH ? (
+            <Button variant="link" size="sm" className="ml-4 mb-4 h-auto p-0" onClick={() => focusThread(comment.id)}>
+              Continue this thread ({countReplies(comment.id)} more)
+              <ChevronRight className="w-3 h-3 ml-1" />
+            </Button>
+          ) : (
+            <div className="ml-4">
+              {replies.slice(0, shownReplies).map((reply) => renderComment(reply, depth + 1))}
+              {replies.length > shownReplies && (
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="mb-4 h-auto p-0"
+                  onClick={() => setVisibleReplies(prev => ({ ...prev, [comment.id]: shownReplies + MORE_REPLIES }))}
+                >
+                  Show {Math.min(MORE_REPLIES, replies.length - shownReplies)} more of {replies.length - shownReplies} replies
+                </Button>
               )}
             </div>
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* Replies */}
-      {comment.replies && comment.replies.length > 0 && (
-        <div className="ml-4">
-          {comment.replies.map((reply) => (
-            <CommentItem key={reply.id} comment={reply} isReply={true} />
-          ))}
-        </div>
-      )}
-    </div>
-  );
+          )
+        )}
+      </div>
+    );
+  };
 
   if (loading) {
     return (
@@ -257,28 +868,45 @@ export function CommentSection({ blogId }: CommentSectionProps) {
     );
   }
 
+  const focusedComment = focusedId ? threads.byId.get(focusedId) : undefined;
+
   return (
-    <div>
-      <div className="flex items-center space-x-2 mb-6">
-        <MessageCircle className="w-5 h-5" />
-        <h2 className="text-xl font-semibold">
-          Comments ({comments.reduce((total, comment) => 
-            total + 1 + (comment.replies?.length || 0), 0
-          )})
-        </h2>
+    <div ref={sectionRef} className="scroll-mt-24">
+      <div className="flex items-center justify-between gap-4 mb-6">
+        <div className="flex items-center space-x-2">
+          <MessageCircle className="w-5 h-5" />
+          <h2 className="text-xl font-semibold">
+            Comments ({comments.filter(comment => !comment.deleted_at).length})
+          </h2>
+        </div>
+        {comments.length > 1 && (
+          <Select value={sort} onValueChange={(value) => setSort(value as CommentSort)}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="top">Top</SelectItem>
+              <SelectItem value="newest">Newest</SelectItem>
+              <SelectItem value="oldest">Oldest</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
       </div>
 
       {/* New Comment Form */}
       <div className="mb-8">
         <div className="space-y-4">
-          <Textarea
+          <MentionTextarea
             placeholder={user ? "Join the conversation..." : "Sign in to join the conversation"}
             value={newComment}
-            onChange={(e) => setNewComment(e.target.value)}
+            onChange={setNewComment}
             rows={4}
             disabled={!user}
           />
-          <div className="flex justify-end">
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-xs text-muted-foreground">
+              Supports **bold**, *italic*, `code`, ```code blocks```, links and @mentions
+            </p>
             <Button
               onClick={handleSubmitComment}
               disabled={submitting || !newComment.trim() || !user}
@@ -292,10 +920,33 @@ export function CommentSection({ blogId }: CommentSectionProps) {
 
       {/* Comments List */}
       <div>
-        {comments.length > 0 ? (
-          comments.map((comment) => (
-            <CommentItem key={comment.id} comment={comment} />
-          ))
+        {newCommentIds.length > 0 && (
+          <div className="sticky top-20 z-10 flex justify-center mb-4">
+            <Button size="sm" className="rounded-full shadow-md" onClick={fetchComments}>
+              <ArrowUp className="w-3 h-3 mr-1" />
+              {newCommentIds.length} new comment{newCommentIds.length !== 1 ? 's' : ''}
+            </Button>
+          </div>
+        )}
+        {focusedComment ? (
+          <>
+            <Button variant="ghost" size="sm" className="mb-4" onClick={() => focusThread(null)}>
+              <ArrowLeft className="w-3 h-3 mr-1" />
+              Back to all comments
+            </Button>
+            {renderComment(focusedComment)}
+          </>
+        ) : threads.roots.length > 0 ? (
+          <>
+            {threads.roots.slice(0, visibleRootCount).map((comment) => renderComment(comment))}
+            {threads.roots.length > visibleRootCount && (
+              <div className="flex justify-center">
+                <Button variant="outline" onClick={() => setVisibleRootCount(count => count + ROOT_PAGE_SIZE)}>
+                  Load more comments ({threads.roots.length - visibleRootCount} remaining)
+                </Button>
+              </div>
+            )}
+          </>
         ) : (
           <div className="text-center py-8 text-muted-foreground">
             <MessageCircle className="w-12 h-12 mx-auto mb-4 opacity-50" />
@@ -303,6 +954,27 @@ export function CommentSection({ blogId }: CommentSectionProps) {
           </div>
         )}
       </div>
+
+      <AlertDialog open={!!deletingComment} onOpenChange={(open) => !open && setDeletingComment(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this comment?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deletingComment && threads.children.has(deletingComment.id)
+                ? "The comment will be replaced with [deleted] so its replies stay in the thread."
+                : "This can't be undone."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deletingComment && handleDelete(deletingComment)}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <ReportDialog target={reportTarget} onClose={() => setReportTarget(null)} />
     </div>
   );
-}
\ No newline at end of file
+}
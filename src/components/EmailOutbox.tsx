@@ -0,0 +1,220 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { AlertTriangle, Mail, RefreshCw, RotateCcw } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+
+type OutboxRow = Database['public']['Tables']['email_outbox']['Row'];
+type OutboxFilter = 'queued' | 'dead' | 'sent' | 'skipped' | 'all';
+
+interface OutboxEmail extends OutboxRow {
+  recipient: { full_name: string | null; username: string | null } | null;
+}
+
+interface EmailOutboxProps {
+  onChanged?: () => void;
+}
+
+const LIST_LIMIT = 50;
+
+const FILTERS: { value: OutboxFilter; label: string; statuses: string[] | null }[] = [
+  { value: 'queued', label: 'Queued', statuses: ['pending', 'sending'] },
+  { value: 'dead', label: 'Failed', statuses: ['dead'] },
+  { value: 'sent', label: 'Sent', statuses: ['sent'] },
+  { value: 'skipped', label: 'Skipped', statuses: ['skipped'] },
+  { value: 'all', label: 'All', statuses: null },
+];
+
+const TEMPLATE_LABELS: Record<string, string> = {
+  new_blog: 'New post',
+  new_comment: 'Comment',
+  new_reply: 'Reply',
+  new_mention: 'Mention',
+  new_follower: 'New follower',
+  blog_approved: 'Post approved',
+  blog_rejected: 'Post not approved',
+  weekly_digest: 'Weekly digest',
+};
+
+const statusBadge = (email: OutboxRow) => {
+  switch (email.status) {
+    case 'sent':
+      return <Badge className="bg-green-500/10 text-green-700 border-green-200" variant="outline">Sent</Badge>;
+    case 'dead':
+      return <Badge variant="destructive">Failed</Badge>;
+    case 'skipped':
+      return <Badge variant="secondary">Skipped</Badge>;
+    case 'sending':
+      return <Badge variant="outline">Sending</Badge>;
+    default:
+      return <Badge variant="outline">{email.attempts > 0 ? 'Retrying' : 'Queued'}</Badge>;
+  }
+};
+
+// Admin view of the email outbox: what is waiting, what failed for good, and
+// a way to put dead-lettered emails back in the queue
+export function EmailOutbox({ onChanged }: EmailOutboxProps) {
+  const { toast } = useToast();
+  const [filter, setFilter] = useState<OutboxFilter>('queued');
+  const [emails, setEmails] = useState<OutboxEmail[]>([]);
+  const [counts, setCounts] = useState<Record<OutboxFilter, number>>({ queued: 0, dead: 0, sent: 0, skipped: 0, all: 0 });
+  const [loading, setLoading] = useState(true);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+
+  const fetchEmails = useCallback(async () => {
+    setLoading(true);
+    try {
+      const statuses = FILTERS.find(f => f.value === filter)?.statuses;
+      let query = supabase
+        .from('email_outbox')
+        .select('*, recipient:profiles!email_outbox_recipient_id_fkey ( full_name, username )')
+        .order('created_at', { ascending: false })
+        .limit(LIST_LIMIT);
+
+      if (statuses) {
+        query = query.in('status', statuses);
+      }
+
+      const [listResult, ...countResults] = await Promise.all([
+        query,
+        ...FILTERS.map(f => {
+          const countQuery = supabase.from('email_outbox').select('id', { count: 'exact', head: true });
+          return f.statuses ? countQuery.in('status', f.statuses) : countQuery;
+        }),
+      ]);
+
+      if (listResult.error) throw listResult.error;
+
+      setEmails((listResult.data || []) as OutboxEmail[]);
+      setCounts(Object.fromEntries(
+        FILTERS.map((f, index) => [f.value, countResults[index].count || 0])
+      ) as Record<OutboxFilter, number>);
+    } catch (error) {
+      console.error('Error fetching email outbox:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the email outbox.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [filter, toast]);
+
+  useEffect(() => {
+    fetchEmails();
+  }, [fetchEmails]);
+
+  const retryEmail = async (email: OutboxEmail) => {
+    setRetryingId(email.id);
+    try {
+      const { error } = await supabase.rpc('retry_email', { _email_id: email.id });
+
+      if (error) throw error;
+
+      toast({
+        title: "Email requeued",
+        description: "It will be sent on the next outbox run.",
+      });
+      fetchEmails();
+      onChanged?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to retry the email.",
+        variant: "destructive",
+      });
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-muted-foreground">
+          {counts.queued} queued, {counts.dead} failed after all retries.
+        </p>
+        <div className="flex items-center gap-3">
+          <Select value={filter} onValueChange={(value) => setFilter(value as OutboxFilter)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FILTERS.map(f => (
+                <SelectItem key={f.value} value={f.value}>
+                  {f.label} ({counts[f.value]})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={fetchEmails} className="gap-2">
+            <RefreshCw className="w-4 h-4" />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : emails.length === 0 ? (
+        <div className="text-center py-12 bg-muted/20 rounded-lg">
+          <div className="mx-auto w-16 h-16 flex items-center justify-center bg-muted rounded-full mb-4">
+            <Mail className="w-8 h-8 text-muted-foreground" />
+          </div>
+          <h3 className="text-lg font-medium mb-2">No emails</h3>
+          <p className="text-muted-foreground">Nothing matches this filter.</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {counts.all > emails.length && (
+            <p className="text-xs text-muted-foreground">Showing the {emails.length} most recent.</p>
+          )}
+          {emails.map(email => (
+            <div key={email.id} className="border rounded-lg p-4 space-y-2">
+              <div className="flex flex-wrap items-center gap-2">
+                {statusBadge(email)}
+                <span className="font-medium">{TEMPLATE_LABELS[email.template] || email.template}</span>
+                <span className="text-sm text-muted-foreground">
+                  to {email.recipient?.full_name || email.recipient?.username || 'Deleted user'}
+                </span>
+                {email.status === 'dead' && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="ml-auto"
+                    disabled={retryingId === email.id}
+                    onClick={() => retryEmail(email)}
+                  >
+                    <RotateCcw className="w-3 h-3 mr-1" />
+                    Retry
+                  </Button>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                <span>Queued {formatDistanceToNow(new Date(email.created_at), { addSuffix: true })}</span>
+                {email.attempts > 0 && <span>{email.attempts} attempt{email.attempts !== 1 ? 's' : ''}</span>}
+                {email.status === 'pending' && (
+                  <span>Next attempt {format(new Date(email.next_attempt_at), 'MMM d, HH:mm')}</span>
+                )}
+                {email.sent_at && <span>Sent {format(new Date(email.sent_at), 'MMM d, HH:mm')}</span>}
+              </div>
+              {email.last_error && (
+                <p className="flex items-start gap-1 text-xs text-destructive">
+                  <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                  {email.last_error}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
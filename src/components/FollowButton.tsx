@@ -0,0 +1,96 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { UserCheck, UserPlus } from 'lucide-react';
+
+interface FollowButtonProps {
+  profileId: string;
+  size?: 'sm' | 'default';
+  onFollowChange?: (following: boolean) => void;
+}
+
+export function FollowButton({ profileId, size = 'sm', onFollowChange }: FollowButtonProps) {
+  const { user, profile } = useAuth();
+  const { toast } = useToast();
+  const [isFollowing, setIsFollowing] = useState(false);
+  const [updating, setUpdating] = useState(false);
+
+  useEffect(() => {
+    const checkIfFollowing = async () => {
+      if (!profile?.id) {
+        setIsFollowing(false);
+        return;
+      }
+
+      const { data } = await supabase
+        .from('follows')
+        .select('id')
+        .eq('follower_id', profile.id)
+        .eq('following_id', profileId)
+        .maybeSingle();
+
+      setIsFollowing(!!data);
+    };
+
+    checkIfFollowing();
+  }, [profileId, profile?.id]);
+
+  // Authors can't follow themselves
+  if (profile?.id === profileId) return null;
+
+  const handleFollow = async () => {
+    if (!user || !profile) {
+      toast({
+        title: "Sign in required",
+        description: "Please sign in to follow authors.",
+      });
+      return;
+    }
+
+    setUpdating(true);
+    try {
+      if (isFollowing) {
+        const { error } = await supabase
+          .from('follows')
+          .delete()
+          .eq('follower_id', profile.id)
+          .eq('following_id', profileId);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('follows')
+          .insert({ follower_id: profile.id, following_id: profileId });
+
+        if (error) throw error;
+      }
+
+      setIsFollowing(!isFollowing);
+      onFollowChange?.(!isFollowing);
+    } catch (error) {
+      console.error('Error updating follow:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update follow status.",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  return (
+    <Button
+      size={size}
+      variant={isFollowing ? 'outline' : 'default'}
+      onClick={handleFollow}
+      disabled={updating}
+      className="gap-2"
+    >
+      {isFollowing ? <UserCheck className="w-4 h-4" /> : <UserPlus className="w-4 h-4" />}
+      {isFollowing ? 'Following' : 'Follow'}
+    </Button>
+  );
+}
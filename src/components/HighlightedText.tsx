@@ -0,0 +1,28 @@
+interface HighlightedTextProps {
+  text: string;
+  className?: string;
+}
+
+// search_blogs wraps matched terms in STX/ETX control characters instead of HTML,
+// so highlights are rendered as elements and the text itself is never parsed as markup
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+export function HighlightedText({ text, className }: HighlightedTextProps) {
+  const [leading, ...matches] = text.split(MATCH_START);
+
+  return (
+    <span className={className}>
+      {leading}
+      {matches.map((segment, index) => {
+        const [match, ...rest] = segment.split(MATCH_END);
+        return (
+          <span key={index}>
+            <mark className="bg-yellow-200/70 text-inherit rounded-sm px-0.5">{match}</mark>
+            {rest.join(MATCH_END)}
+          </span>
+        );
+      })}
+    </span>
+  );
+}
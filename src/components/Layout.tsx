@@ -1,7 +1,7 @@
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Search, PenTool, User, Settings, LogOut, Home, TrendingUp, Tag, BookOpen, Menu, X, ArrowUp } from 'lucide-react';
+import { Search, PenTool, User, Settings, LogOut, Home, TrendingUp, Tag, BookOpen, Menu, X, ArrowUp, Bookmark, UserCircle, Shield, Rss, Bell } from 'lucide-react';
 import { Link, useNavigate, useLocation } from 'react-router-dom';
 import {
   DropdownMenu,
@@ -11,6 +11,7 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { NotificationBell } from '@/components/NotificationBell';
 import { useEffect, useState, useRef } from 'react';
 
 interface LayoutProps {
@@ -195,6 +196,8 @@ export default function Layout({ children }: LayoutProps) {
                     Write
                   </Link>
                 </Button>
+
+                <NotificationBell />
                 
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
@@ -221,16 +224,48 @@ export default function Layout({ children }: LayoutProps) {
                       </div>
                     </div>
                     <DropdownMenuSeparator />
+                    {profile?.username && (
+                      <DropdownMenuItem asChild>
+                        <Link to={`/u/${encodeURIComponent(profile.username)}`} className="flex items-center cursor-pointer">
+                          <UserCircle className="mr-2 h-4 w-4" />
+                          Your Profile
+                        </Link>
+                      </DropdownMenuItem>
+                    )}
                     <DropdownMenuItem asChild>
                       <Link to="/dashboard" className="flex items-center cursor-pointer">
                         <User className="mr-2 h-4 w-4" />
                         Dashboard
                       </Link>
                     </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <Link to="/notifications" className="flex items-center cursor-pointer">
+                        <Bell className="mr-2 h-4 w-4" />
+                        Notifications
+                      </Link>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <Link to="/feed" className="flex items-center cursor-pointer">
+                        <Rss className="mr-2 h-4 w-4" />
+                        Following
+                      </Link>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <Link to="/bookmarks" className="flex items-center cursor-pointer">
+                        <Bookmark className="mr-2 h-4 w-4" />
+                        Reading List
+                      </Link>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <Link to="/settings/profile" className="flex items-center cursor-pointer">
+                        <Settings className="mr-2 h-4 w-4" />
+                        Settings
+                      </Link>
+                    </DropdownMenuItem>
                     {profile?.role === 'admin' && (
                       <DropdownMenuItem asChild>
                         <Link to="/admin" className="flex items-center cursor-pointer">
-                          <Settings className="mr-2 h-4 w-4" />
+                          <Shield className="mr-2 h-4 w-4" />
                           Admin Panel
                         </Link>
                       </DropdownMenuItem>
@@ -308,12 +343,40 @@ export default function Layout({ children }: LayoutProps) {
                       <User className="w-5 h-5" />
                       <span>Dashboard</span>
                     </Link>
+                    <Link
+                      to="/notifications"
+                      className="flex items-center space-x-3 px-3 py-3 rounded-lg text-base font-medium text-muted-foreground hover:text-foreground hover:bg-muted/50 w-full"
+                    >
+                      <Bell className="w-5 h-5" />
+                      <span>Notifications</span>
+                    </Link>
+                    <Link
+                      to="/feed"
+                      className="flex items-center space-x-3 px-3 py-3 rounded-lg text-base font-medium text-muted-foreground hover:text-foreground hover:bg-muted/50 w-full"
+                    >
+                      <Rss className="w-5 h-5" />
+                      <span>Following</span>
+                    </Link>
+                    <Link
+                      to="/bookmarks"
+                      className="flex items-center space-x-3 px-3 py-3 rounded-lg text-base font-medium text-muted-foreground hover:text-foreground hover:bg-muted/50 w-full"
+                    >
+                      <Bookmark className="w-5 h-5" />
+                      <span>Reading List</span>
+                    </Link>
+                    <Link
+                      to="/settings/profile"
+                      className="flex items-center space-x-3 px-3 py-3 rounded-lg text-base font-medium text-muted-foreground hover:text-foreground hover:bg-muted/50 w-full"
+                    >
+                      <Settings className="w-5 h-5" />
+                      <span>Settings</span>
+                    </Link>
                     {profile?.role === 'admin' && (
                       <Link
                         to="/admin"
                         className="flex items-center space-x-3 px-3 py-3 rounded-lg text-base font-medium text-muted-foreground hover:text-foreground hover:bg-muted/50 w-full"
                       >
-                        <Settings className="w-5 h-5" />
+                        <Shield className="w-5 h-5" />
                         <span>Admin Panel</span>
                       </Link>
                     )}
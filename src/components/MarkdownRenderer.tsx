@@ -0,0 +1,57 @@
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
+import rehypeSlug from 'rehype-slug';
+import rehypeAutolinkHeadings from 'rehype-autolink-headings';
+import rehypeHighlight from 'rehype-highlight';
+import { cn } from '@/lib/utils';
+import 'highlight.js/styles/github.css';
+
+interface MarkdownRendererProps {
+  content: string;
+  className?: string;
+}
+
+// Only language-* classes survive sanitizing; highlighting runs afterwards so its spans are kept
+const sanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [...(defaultSchema.attributes?.code || []), ['className', /^language-./]],
+  },
+};
+
+export function MarkdownRenderer({ content, className }: MarkdownRendererProps) {
+  return (
+    <div
+      className={cn(
+        'prose prose-slate max-w-none prose-headings:scroll-mt-24 prose-a:text-primary prose-pre:bg-slate-50 prose-pre:text-slate-800 prose-pre:border',
+        className
+      )}
+    >
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={[
+          [rehypeSanitize, sanitizeSchema],
+          rehypeSlug,
+          [rehypeAutolinkHeadings, { behavior: 'wrap' }],
+          rehypeHighlight,
+        ]}
+        components={{
+          a: ({ node, href, ...props }) => {
+            const isExternal = !!href && /^https?:\/\//.test(href);
+            return (
+              <a
+                href={href}
+                {...props}
+                {...(isExternal ? { target: '_blank', rel: 'noopener noreferrer nofollow' } : {})}
+              />
+            );
+          },
+        }}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
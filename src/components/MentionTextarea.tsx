@@ -0,0 +1,149 @@
+import { useState, useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Textarea, TextareaProps } from '@/components/ui/textarea';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { cn } from '@/lib/utils';
+
+interface MentionTextareaProps extends Omit<TextareaProps, 'value' | 'onChange'> {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+interface MentionCandidate {
+  id: string;
+  username: string;
+  full_name: string | null;
+  avatar_url: string | null;
+}
+
+const MAX_SUGGESTIONS = 5;
+// An @ at the start of a word, followed by the part of the username typed so far
+const ACTIVE_MENTION = /(?:^|[^a-zA-Z0-9_@/])@([a-zA-Z0-9_]{0,30})$/;
+
+const escapeLike = (text: string) => text.replace(/[\\%_]/g, '\\$&');
+
+// Textarea that suggests usernames while an @mention is being typed
+export function MentionTextarea({ value, onChange, onKeyDown, className, ...props }: MentionTextareaProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [query, setQuery] = useState<string | null>(null);
+  const [candidates, setCandidates] = useState<MentionCandidate[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    if (query === null) {
+      setCandidates([]);
+      return;
+    }
+
+    const timeout = setTimeout(() => fetchCandidates(query), 150);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const fetchCandidates = async (prefix: string) => {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, username, full_name, avatar_url')
+      .ilike('username', `${escapeLike(prefix)}%`)
+      .order('username')
+      .limit(MAX_SUGGESTIONS);
+
+    if (error) {
+      console.error('Error fetching mention suggestions:', error);
+      return;
+    }
+
+    setCandidates((data || []).filter((profile): profile is MentionCandidate => !!profile.username));
+    setActiveIndex(0);
+  };
+
+  const updateQuery = (text: string, caret: number) => {
+    const match = text.slice(0, caret).match(ACTIVE_MENTION);
+    setQuery(match && match[1] ? match[1] : null);
+  };
+
+  const selectCandidate = (candidate: MentionCandidate) => {
+    const textarea = textareaRef.current;
+    const caret = textarea?.selectionStart ?? value.length;
+    const before = value.slice(0, caret).replace(/@[a-zA-Z0-9_]*$/, `@${candidate.username} `);
+    const next = before + value.slice(caret);
+
+    onChange(next);
+    setQuery(null);
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (candidates.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveIndex(index => (index + step + candidates.length) % candidates.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        selectCandidate(candidates[activeIndex]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setQuery(null);
+        return;
+      }
+    }
+
+    onKeyDown?.(e);
+  };
+
+  return (
+    <div className="relative">
+      <Textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateQuery(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => updateQuery(e.currentTarget.value, e.currentTarget.selectionStart)}
+        onBlur={() => setTimeout(() => setQuery(null), 150)}
+        className={className}
+        {...props}
+      />
+      {query !== null && candidates.length > 0 && (
+        <ul className="absolute left-0 z-20 mt-1 w-64 rounded-md border bg-popover p-1 shadow-md" role="listbox">
+          {candidates.map((candidate, index) => (
+            <li
+              key={candidate.id}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={cn(
+                'flex items-center gap-2 rounded-sm px-2 py-1.5 text-sm cursor-pointer',
+                index === activeIndex ? 'bg-accent text-accent-foreground' : 'hover:bg-accent/50'
+              )}
+              // mousedown keeps focus in the textarea
+              onMouseDown={(e) => {
+                e.preventDefault();
+                selectCandidate(candidate);
+              }}
+            >
+              <Avatar className="w-6 h-6">
+                <AvatarImage src={candidate.avatar_url || undefined} />
+                <AvatarFallback className="text-xs">
+                  {(candidate.full_name || candidate.username).charAt(0)}
+                </AvatarFallback>
+              </Avatar>
+              <span className="font-medium">@{candidate.username}</span>
+              {candidate.full_name && (
+                <span className="truncate text-muted-foreground">{candidate.full_name}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { NotificationItem } from '@/components/NotificationItem';
+import { AppNotification, NOTIFICATION_SELECT, notificationLink } from '@/lib/notifications';
+import { Bell, Settings } from 'lucide-react';
+
+const PREVIEW_SIZE = 8;
+
+export function NotificationBell() {
+  const { profile } = useAuth();
+  const navigate = useNavigate();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [open, setOpen] = useState(false);
+  const profileId = profile?.id;
+
+  const fetchNotifications = useCallback(async () => {
+    if (!profileId) return;
+
+    const [listResult, unreadResult] = await Promise.all([
+      supabase
+        .from('notifications')
+        .select(NOTIFICATION_SELECT)
+        .eq('user_id', profileId)
+        .order('created_at', { ascending: false })
+        .limit(PREVIEW_SIZE),
+      supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', profileId)
+        .is('read_at', null),
+    ]);
+
+    if (listResult.error || unreadResult.error) {
+      console.error('Error fetching notifications:', listResult.error || unreadResult.error);
+      return;
+    }
+
+    setNotifications(listResult.data as AppNotification[]);
+    setUnreadCount(unreadResult.count || 0);
+  }, [profileId]);
+
+  useEffect(() => {
+    if (!profileId) return;
+
+    fetchNotifications();
+
+    // Any change (new notification, read elsewhere) refreshes the badge
+    const channel = supabase
+      .channel(`notifications:${profileId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${profileId}` },
+        () => fetchNotifications()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [profileId, fetchNotifications]);
+
+  const markAllRead = async () => {
+    if (!profile) return;
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', profile.id)
+      .is('read_at', null);
+
+    if (error) {
+      console.error('Error marking notifications read:', error);
+      return;
+    }
+
+    fetchNotifications();
+  };
+
+  const handleSelect = async (notification: AppNotification) => {
+    setOpen(false);
+
+    if (!notification.read_at) {
+      setNotifications(prev =>
+        prev.map(n => n.id === notification.id ? { ...n, read_at: new Date().toISOString() } : n)
+      );
+      setUnreadCount(count => Math.max(0, count - 1));
+      await supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .eq('id', notification.id);
+    }
+
+    const link = notificationLink(notification);
+    if (link) navigate(link);
+  };
+
+  if (!profile) return null;
+
+  return (
+    <DropdownMenu open={open} onOpenChange={setOpen}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="w-5 h-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1.125rem] h-[1.125rem] px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-semibold leading-[1.125rem] text-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-80 p-0" align="end">
+        <div className="flex items-center justify-between px-3 py-2">
+          <p className="text-sm font-semibold">Notifications</p>
+          {unreadCount > 0 && (
+            <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={markAllRead}>
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator className="m-0" />
+        <div className="max-h-96 overflow-y-auto p-1">
+          {notifications.length > 0 ? (
+            notifications.map(notification => (
+              <NotificationItem key={notification.id} notification={notification} onSelect={handleSelect} />
+            ))
+          ) : (
+            <p className="py-8 text-center text-sm text-muted-foreground">You're all caught up.</p>
+          )}
+        </div>
+        <DropdownMenuSeparator className="m-0" />
+        <div className="flex">
+          <Link
+            to="/notifications"
+            onClick={() => setOpen(false)}
+            className="flex-1 px-3 py-2 text-center text-sm text-primary hover:bg-muted/50"
+          >
+            View all notifications
+          </Link>
+          <Link
+            to="/settings/notifications"
+            onClick={() => setOpen(false)}
+            className="px-3 py-2 text-muted-foreground hover:text-foreground hover:bg-muted/50"
+            aria-label="Notification settings"
+          >
+            <Settings className="w-4 h-4" />
+          </Link>
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,50 @@
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { AppNotification, notificationMessage } from '@/lib/notifications';
+import { cn } from '@/lib/utils';
+import { CheckCircle, XCircle } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+interface NotificationItemProps {
+  notification: AppNotification;
+  onSelect: (notification: AppNotification) => void;
+  className?: string;
+}
+
+export function NotificationItem({ notification, onSelect, className }: NotificationItemProps) {
+  const unread = !notification.read_at;
+
+  return (
+    <button
+      type="button"
+      onClick={() => onSelect(notification)}
+      className={cn(
+        'flex w-full items-start gap-3 rounded-md p-3 text-left transition-colors hover:bg-muted/50',
+        unread && 'bg-blue-50/60',
+        className
+      )}
+    >
+      {notification.type === 'blog_approved' ? (
+        <CheckCircle className="w-8 h-8 shrink-0 text-green-500" />
+      ) : notification.type === 'blog_rejected' ? (
+        <XCircle className="w-8 h-8 shrink-0 text-destructive" />
+      ) : (
+        <Avatar className="w-8 h-8 shrink-0">
+          <AvatarImage src={notification.actor?.avatar_url || undefined} />
+          <AvatarFallback className="text-xs">
+            {(notification.actor?.full_name || notification.actor?.username || '?').charAt(0)}
+          </AvatarFallback>
+        </Avatar>
+      )}
+      <div className="min-w-0 flex-1">
+        <p className={cn('text-sm', unread && 'font-medium')}>{notificationMessage(notification)}</p>
+        {notification.comments?.content && (
+          <p className="text-sm text-muted-foreground line-clamp-2">{notification.comments.content}</p>
+        )}
+        <p className="text-xs text-muted-foreground mt-1">
+          {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+        </p>
+      </div>
+      {unread && <span className="mt-2 h-2 w-2 shrink-0 rounded-full bg-blue-600" aria-label="Unread" />}
+    </button>
+  );
+}
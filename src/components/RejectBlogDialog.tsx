@@ -0,0 +1,188 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { MessageSquarePlus, X } from 'lucide-react';
+import { REJECTION_REASONS, RejectionReason, ParagraphNote, splitParagraphs } from '@/lib/reviews';
+
+const MAX_FEEDBACK_LENGTH = 5000;
+const MAX_NOTE_LENGTH = 1000;
+const EXCERPT_LENGTH = 300;
+
+export interface RejectionInput {
+  reason: RejectionReason;
+  feedback: string;
+  notes: ParagraphNote[];
+}
+
+interface RejectBlogDialogProps {
+  blog: {
+    title: string;
+    content: string;
+    status: string;
+  };
+  // Reject an approved article's staged edits instead of the article itself
+  editsOnly?: boolean;
+  onReject: (review: RejectionInput) => Promise<boolean>;
+  children: React.ReactNode;
+}
+
+export function RejectBlogDialog({ blog, editsOnly = false, onReject, children }: RejectBlogDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState<RejectionReason | ''>('');
+  const [feedback, setFeedback] = useState('');
+  const [notes, setNotes] = useState<Record<number, string>>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  const paragraphs = splitParagraphs(blog.content || '');
+  const isUnpublish = !editsOnly && blog.status === 'approved';
+  const title = editsOnly ? 'Discard Edits' : isUnpublish ? 'Unpublish Article' : 'Reject Article';
+  const actionLabel = editsOnly ? 'Discard edits' : isUnpublish ? 'Unpublish' : 'Reject';
+  const selectedReason = REJECTION_REASONS.find(option => option.value === reason);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) {
+      setReason('');
+      setFeedback('');
+      setNotes({});
+    }
+  };
+
+  const removeNote = (index: number) => {
+    setNotes(prev => {
+      const next = { ...prev };
+      delete next[index];
+      return next;
+    });
+  };
+
+  const handleConfirm = async () => {
+    if (!reason) return;
+
+    setSubmitting(true);
+    const rejected = await onReject({
+      reason,
+      feedback: feedback.trim(),
+      notes: Object.entries(notes)
+        .filter(([, note]) => note.trim())
+        .map(([index, note]) => ({
+          paragraph_index: Number(index),
+          excerpt: paragraphs[Number(index)].slice(0, EXCERPT_LENGTH),
+          note: note.trim(),
+        })),
+    });
+    setSubmitting(false);
+
+    if (rejected) handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription className="line-clamp-2">{blog.title}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label>Reason</Label>
+          <Select value={reason} onValueChange={(value) => setReason(value as RejectionReason)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Choose a reason" />
+            </SelectTrigger>
+            <SelectContent>
+              {REJECTION_REASONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {selectedReason && (
+            <p className="text-xs text-muted-foreground">{selectedReason.description}</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="reject-feedback">Feedback for the author</Label>
+          <Textarea
+            id="reject-feedback"
+            value={feedback}
+            onChange={(e) => setFeedback(e.target.value.slice(0, MAX_FEEDBACK_LENGTH))}
+            placeholder="What should change before this can be published?"
+            rows={4}
+          />
+          <p className="text-xs text-muted-foreground text-right">
+            {feedback.length}/{MAX_FEEDBACK_LENGTH}
+          </p>
+        </div>
+
+        {paragraphs.length > 0 && (
+          <div className="space-y-2">
+            <Label>Paragraph notes (optional)</Label>
+            <div className="max-h-72 overflow-y-auto rounded-md border divide-y">
+              {paragraphs.map((paragraph, index) => (
+                <div key={index} className="p-3 space-y-2">
+                  <div className="flex items-start gap-2">
+                    <p className="flex-1 text-sm text-muted-foreground line-clamp-3 whitespace-pre-line">
+                      {paragraph}
+                    </p>
+                    {index in notes ? (
+                      <Button variant="ghost" size="sm" onClick={() => removeNote(index)}>
+                        <X className="w-4 h-4" />
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setNotes(prev => ({ ...prev, [index]: '' }))}
+                      >
+                        <MessageSquarePlus className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                  {index in notes && (
+                    <Textarea
+                      value={notes[index]}
+                      onChange={(e) =>
+                        setNotes(prev => ({ ...prev, [index]: e.target.value.slice(0, MAX_NOTE_LENGTH) }))
+                      }
+                      placeholder="Note on this paragraph"
+                      rows={2}
+                      autoFocus
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleConfirm}
+            disabled={submitting || !reason || (reason === 'other' && !feedback.trim())}
+          >
+            {submitting ? 'Sending...' : actionLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
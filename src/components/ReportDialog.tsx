@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { REPORT_REASONS, ReportReason } from '@/lib/reports';
+
+const MAX_DETAILS_LENGTH = 500;
+
+export interface ReportTarget {
+  blogId: string;
+  commentId?: string;
+}
+
+interface ReportDialogProps {
+  target: ReportTarget | null;
+  onClose: () => void;
+}
+
+export function ReportDialog({ target, onClose }: ReportDialogProps) {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [reason, setReason] = useState<ReportReason | ''>('');
+  const [details, setDetails] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const close = () => {
+    setReason('');
+    setDetails('');
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    if (!target || !profile || !reason) return;
+
+    setSubmitting(true);
+    try {
+      // The database fills in the reported author and a snapshot of the content
+      const { error } = await supabase
+        .from('reports')
+        .insert({
+          reporter_id: profile.id,
+          blog_id: target.blogId,
+          comment_id: target.commentId ?? null,
+          reason,
+          details: details.trim() || null,
+        });
+
+      if (error) {
+        if (error.code === '23505') {
+          toast({
+            title: "Already reported",
+            description: "You've already reported this. Our moderators will take a look.",
+          });
+          close();
+          return;
+        }
+        throw error;
+      }
+
+      toast({
+        title: "Report sent",
+        description: "Thanks for letting us know. A moderator will review it.",
+      });
+      close();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send report.",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const subject = target?.commentId ? 'comment' : 'article';
+
+  return (
+    <Dialog open={!!target} onOpenChange={(open) => !open && close()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Report {subject}</DialogTitle>
+          <DialogDescription>
+            Reports are anonymous to the author. Choose the reason that fits best.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={reason} onValueChange={(value) => setReason(value as ReportReason)} className="gap-3">
+          {REPORT_REASONS.map(option => (
+            <Label
+              key={option.value}
+              htmlFor={`report-reason-${option.value}`}
+              className="flex items-start gap-3 rounded-md border p-3 cursor-pointer font-normal hover:bg-accent"
+            >
+              <RadioGroupItem value={option.value} id={`report-reason-${option.value}`} className="mt-0.5" />
+              <span>
+                <span className="block font-medium">{option.label}</span>
+                <span className="block text-xs text-muted-foreground">{option.description}</span>
+              </span>
+            </Label>
+          ))}
+        </RadioGroup>
+
+        <div className="space-y-2">
+          <Label htmlFor="report-details">Details (optional)</Label>
+          <Textarea
+            id="report-details"
+            value={details}
+            onChange={(e) => setDetails(e.target.value.slice(0, MAX_DETAILS_LENGTH))}
+            placeholder="Anything that helps a moderator understand the problem"
+            rows={3}
+          />
+          <p className="text-xs text-muted-foreground text-right">
+            {details.length}/{MAX_DETAILS_LENGTH}
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={submitting || !reason || (reason === 'other' && !details.trim())}>
+            {submitting ? 'Sending...' : 'Send report'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,543 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { reportReasonLabel } from '@/lib/reports';
+import { AlertTriangle, Ban, Check, ExternalLink, EyeOff, Flag, RefreshCw, Trash2 } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+
+type ReportRow = Database['public']['Tables']['reports']['Row'];
+type SanctionRow = Database['public']['Tables']['user_sanctions']['Row'];
+export type ModerationAction = 'dismiss' | 'hide' | 'delete';
+
+interface ReportProfile {
+  id: string;
+  full_name: string | null;
+  username: string | null;
+  role: string | null;
+}
+
+interface QueuedReport extends ReportRow {
+  reporter: Pick<ReportProfile, 'full_name' | 'username'> | null;
+  reported_user: ReportProfile | null;
+  blogs: { title: string; slug: string; status: string | null } | null;
+  comments: { content: string; deleted_at: string | null; hidden_at: string | null } | null;
+}
+
+interface SanctionForm {
+  kind: 'warning' | 'suspension';
+  user: ReportProfile;
+  reportId: string;
+}
+
+const SUSPENSION_OPTIONS = [
+  { value: '1', label: '1 day' },
+  { value: '7', label: '7 days' },
+  { value: '30', label: '30 days' },
+  { value: 'permanent', label: 'Until lifted' },
+];
+
+const REPORT_SELECT = `
+  *,
+  reporter:profiles!reports_reporter_id_fkey ( full_name, username ),
+  reported_user:profiles!reports_reported_user_id_fkey ( id, full_name, username, role ),
+  blogs ( title, slug, status ),
+  comments ( content, deleted_at, hidden_at )
+`;
+
+const errorMessage = (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback);
+
+const displayName = (profile: Pick<ReportProfile, 'full_name' | 'username'> | null) =>
+  profile?.full_name || profile?.username || 'Deleted user';
+
+// Open reports on the same comment or article are reviewed together
+const targetKey = (report: ReportRow) => report.comment_id ?? `blog:${report.blog_id}`;
+
+const isActiveSuspension = (sanction: SanctionRow) =>
+  sanction.kind === 'suspension' && (!sanction.expires_at || new Date(sanction.expires_at) > new Date());
+
+interface ReportQueueProps {
+  onResolved?: (report: ReportRow, action: ModerationAction) => void;
+}
+
+export function ReportQueue({ onResolved }: ReportQueueProps) {
+  const { toast } = useToast();
+  const [reports, setReports] = useState<QueuedReport[]>([]);
+  const [sanctions, setSanctions] = useState<SanctionRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showResolved, setShowResolved] = useState(false);
+  const [working, setWorking] = useState(false);
+  const [deletingReport, setDeletingReport] = useState<QueuedReport | null>(null);
+  const [sanctionForm, setSanctionForm] = useState<SanctionForm | null>(null);
+  const [sanctionReason, setSanctionReason] = useState('');
+  const [suspendFor, setSuspendFor] = useState('7');
+
+  const fetchReports = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('reports')
+        .select(REPORT_SELECT)
+        .eq('status', 'open')
+        .order('created_at', { ascending: true });
+
+      const resolved = showResolved
+        ? await supabase
+          .from('reports')
+          .select(REPORT_SELECT)
+          .neq('status', 'open')
+          .order('resolved_at', { ascending: false })
+          .limit(50)
+        : null;
+
+      if (error) throw error;
+      if (resolved?.error) throw resolved.error;
+
+      const loaded = [...(data || []), ...(resolved?.data || [])] as QueuedReport[];
+      setReports(loaded);
+
+      const userIds = [...new Set(loaded.map(report => report.reported_user_id).filter((id): id is string => !!id))];
+      if (userIds.length > 0) {
+        const { data: sanctionData, error: sanctionError } = await supabase
+          .from('user_sanctions')
+          .select('*')
+          .in('user_id', userIds)
+          .order('created_at', { ascending: false });
+
+        if (sanctionError) throw sanctionError;
+
+        setSanctions(sanctionData || []);
+      } else {
+        setSanctions([]);
+      }
+    } catch (error) {
+      console.error('Error fetching reports:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load reports.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [showResolved, toast]);
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  const resolveReport = async (report: QueuedReport, action: ModerationAction) => {
+    setWorking(true);
+    try {
+      const { error } = await supabase.rpc('resolve_report', { _report_id: report.id, _action: action });
+
+      if (error) throw error;
+
+      const subject = report.comment_id ? 'Comment' : 'Article';
+      toast({
+        title: action === 'dismiss' ? "Report dismissed" : `${subject} ${action === 'hide' ? 'hidden' : 'deleted'}`,
+        description: action === 'dismiss'
+          ? "The content stays up and the report is closed."
+          : "All open reports on it have been resolved.",
+      });
+      onResolved?.(report, action);
+      fetchReports();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to resolve report."),
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+      setDeletingReport(null);
+    }
+  };
+
+  const openSanctionForm = (kind: SanctionForm['kind'], report: QueuedReport) => {
+    if (!report.reported_user) return;
+
+    setSanctionForm({ kind, user: report.reported_user, reportId: report.id });
+    setSanctionReason(reportReasonLabel(report.reason));
+    setSuspendFor('7');
+  };
+
+  const issueSanction = async () => {
+    if (!sanctionForm || !sanctionReason.trim()) return;
+
+    setWorking(true);
+    try {
+      const { error } = await supabase.rpc('sanction_user', {
+        _user_id: sanctionForm.user.id,
+        _kind: sanctionForm.kind,
+        _reason: sanctionReason.trim(),
+        _suspend_days: sanctionForm.kind === 'suspension' && suspendFor !== 'permanent' ? Number(suspendFor) : undefined,
+        _report_id: sanctionForm.reportId,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: sanctionForm.kind === 'warning' ? "Warning sent" : "User suspended",
+        description: `${displayName(sanctionForm.user)} will see this on their dashboard.`,
+      });
+      setSanctionForm(null);
+      fetchReports();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to sanction user."),
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const liftSuspension = async (sanction: SanctionRow) => {
+    setWorking(true);
+    try {
+      const { error } = await supabase.rpc('lift_suspension', { _sanction_id: sanction.id });
+
+      if (error) throw error;
+
+      toast({ title: "Suspension lifted" });
+      fetchReports();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to lift suspension."),
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const openGroups = new Map<string, QueuedReport[]>();
+  reports
+    .filter(report => report.status === 'open')
+    .forEach(report => {
+      const key = targetKey(report);
+      openGroups.set(key, [...(openGroups.get(key) || []), report]);
+    });
+  const resolvedReports = reports.filter(report => report.status !== 'open');
+
+  const renderTarget = (report: QueuedReport) => {
+    const isComment = !!report.comment_id;
+    const currentContent = report.comments?.content;
+    const removed = isComment ? !report.comments || !!report.comments.deleted_at : !report.blogs;
+
+    return (
+      <div className="rounded-md bg-muted/40 p-3 space-y-2">
+        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+          <Badge variant="outline">{isComment ? 'Comment' : 'Article'}</Badge>
+          {report.blogs ? (
+            <Link
+              to={`/blog/${report.blogs.slug}`}
+              target="_blank"
+              className="flex items-center gap-1 hover:text-primary"
+            >
+              {isComment ? 'on ' : ''}"{report.blogs.title}"
+              <ExternalLink className="w-3 h-3" />
+            </Link>
+          ) : (
+            <span>Article deleted</span>
+          )}
+          {removed && <Badge variant="secondary">Removed</Badge>}
+          {(report.comments?.hidden_at || (!isComment && report.blogs?.status === 'hidden')) && (
+            <Badge variant="secondary">Hidden</Badge>
+          )}
+        </div>
+        <p className="text-sm whitespace-pre-wrap line-clamp-6">
+          {currentContent || report.content_snapshot}
+        </p>
+        {currentContent && report.content_snapshot && currentContent !== report.content_snapshot && (
+          <details className="text-xs text-muted-foreground">
+            <summary className="cursor-pointer">Edited since it was reported</summary>
+            <p className="mt-1 whitespace-pre-wrap">{report.content_snapshot}</p>
+          </details>
+        )}
+      </div>
+    );
+  };
+
+  const renderOffender = (report: QueuedReport, actionable: boolean) => {
+    const offender = report.reported_user;
+    if (!offender) return null;
+
+    const history = sanctions.filter(sanction => sanction.user_id === offender.id);
+    const warnings = history.filter(sanction => sanction.kind === 'warning').length;
+    const activeSuspension = history.find(isActiveSuspension);
+
+    return (
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span>
+          Posted by <span className="font-medium">{displayName(offender)}</span>
+          {offender.username && <span className="text-muted-foreground"> @{offender.username}</span>}
+        </span>
+        {warnings > 0 && (
+          <Badge variant="outline" className="text-amber-600 border-amber-200">
+            {warnings} warning{warnings !== 1 ? 's' : ''}
+          </Badge>
+        )}
+        {activeSuspension && (
+          <Badge variant="destructive">
+            Suspended{activeSuspension.expires_at
+              ? ` until ${format(new Date(activeSuspension.expires_at), 'MMM d, yyyy')}`
+              : ''}
+          </Badge>
+        )}
+        {actionable && offender.role !== 'admin' && (
+          <div className="flex gap-1 ml-auto">
+            <Button variant="outline" size="sm" disabled={working} onClick={() => openSanctionForm('warning', report)}>
+              <AlertTriangle className="w-3 h-3 mr-1" />
+              Warn
+            </Button>
+            {activeSuspension ? (
+              <Button variant="outline" size="sm" disabled={working} onClick={() => liftSuspension(activeSuspension)}>
+                Lift suspension
+              </Button>
+            ) : (
+              <Button
+                variant="outline"
+                size="sm"
+                className="text-destructive hover:text-destructive"
+                disabled={working}
+                onClick={() => openSanctionForm('suspension', report)}
+              >
+                <Ban className="w-3 h-3 mr-1" />
+                Suspend
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderReasons = (group: QueuedReport[]) => (
+    <ul className="space-y-1">
+      {group.map(report => (
+        <li key={report.id} className="text-sm">
+          <Badge variant="secondary" className="mr-2">{reportReasonLabel(report.reason)}</Badge>
+          <span className="text-muted-foreground">
+            {displayName(report.reporter)}, {formatDistanceToNow(new Date(report.created_at), { addSuffix: true })}
+          </span>
+          {report.details && <p className="mt-1 ml-1 text-muted-foreground italic">"{report.details}"</p>}
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-muted-foreground">
+          {openGroups.size === 0
+            ? 'Nothing waiting for review.'
+            : `${openGroups.size} reported item${openGroups.size !== 1 ? 's' : ''} waiting for review, oldest first.`}
+        </p>
+        <div className="flex items-center gap-3">
+          <div className="flex items-center gap-2">
+            <Switch id="show-resolved" checked={showResolved} onCheckedChange={setShowResolved} />
+            <Label htmlFor="show-resolved" className="text-sm">Show resolved</Label>
+          </div>
+          <Button variant="outline" size="sm" onClick={fetchReports} className="gap-2">
+            <RefreshCw className="w-4 h-4" />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : openGroups.size === 0 && resolvedReports.length === 0 ? (
+        <div className="text-center py-12 bg-muted/20 rounded-lg">
+          <div className="mx-auto w-16 h-16 flex items-center justify-center bg-muted rounded-full mb-4">
+            <Flag className="w-8 h-8 text-muted-foreground" />
+          </div>
+          <h3 className="text-lg font-medium mb-2">No reports</h3>
+          <p className="text-muted-foreground">Reports from readers will show up here.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {[...openGroups.entries()].map(([key, group]) => {
+            const report = group[0];
+            const canHide = report.comment_id
+              ? !!report.comments && !report.comments.deleted_at && !report.comments.hidden_at
+              : !!report.blogs && report.blogs.status !== 'hidden';
+            const canDelete = report.comment_id
+              ? !!report.comments && !report.comments.deleted_at
+              : !!report.blogs;
+
+            return (
+              <div key={key} className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-center gap-2">
+                  <Flag className="w-4 h-4 text-destructive" />
+                  <span className="font-medium">
+                    {group.length} report{group.length !== 1 ? 's' : ''}
+                  </span>
+                </div>
+                {renderReasons(group)}
+                {renderTarget(report)}
+                {renderOffender(report, true)}
+                <div className="flex flex-wrap gap-2 pt-2 border-t">
+                  <Button variant="outline" size="sm" disabled={working} onClick={() => resolveReport(report, 'dismiss')}>
+                    <Check className="w-3 h-3 mr-1" />
+                    Dismiss
+                  </Button>
+                  {canHide && (
+                    <Button variant="outline" size="sm" disabled={working} onClick={() => resolveReport(report, 'hide')}>
+                      <EyeOff className="w-3 h-3 mr-1" />
+                      Hide
+                    </Button>
+                  )}
+                  {canDelete && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-destructive hover:text-destructive"
+                      disabled={working}
+                      onClick={() => setDeletingReport(report)}
+                    >
+                      <Trash2 className="w-3 h-3 mr-1" />
+                      Delete
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+
+          {resolvedReports.length > 0 && (
+            <>
+              <h3 className="text-sm font-medium text-muted-foreground pt-4">Recently resolved</h3>
+              {resolvedReports.map(report => (
+                <div key={report.id} className="border rounded-lg p-4 space-y-3 opacity-80">
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <Badge variant={report.status === 'dismissed' ? 'secondary' : 'default'}>
+                      {report.resolution === 'dismiss' ? 'Dismissed' : report.resolution === 'hide' ? 'Hidden' : 'Deleted'}
+                    </Badge>
+                    {report.resolved_at && (
+                      <span className="text-muted-foreground">
+                        {format(new Date(report.resolved_at), 'MMM d, yyyy HH:mm')}
+                      </span>
+                    )}
+                  </div>
+                  {renderReasons([report])}
+                  {renderTarget(report)}
+                  {renderOffender(report, false)}
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+
+      <AlertDialog open={!!deletingReport} onOpenChange={(open) => !open && setDeletingReport(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Delete this {deletingReport?.comment_id ? 'comment' : 'article'}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {deletingReport?.comment_id
+                ? "Comments with replies are replaced with [deleted] so the thread stays intact."
+                : "The article and all of its comments will be permanently removed. Hiding it instead keeps it recoverable."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deletingReport && resolveReport(deletingReport, 'delete')}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={!!sanctionForm} onOpenChange={(open) => !open && setSanctionForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {sanctionForm?.kind === 'warning' ? 'Warn' : 'Suspend'} {displayName(sanctionForm?.user ?? null)}
+            </DialogTitle>
+            <DialogDescription>
+              {sanctionForm?.kind === 'warning'
+                ? "The user sees the warning on their dashboard until they acknowledge it."
+                : "Suspended users can still read, but can't publish articles or comments."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="sanction-reason">Reason shown to the user</Label>
+              <Textarea
+                id="sanction-reason"
+                value={sanctionReason}
+                onChange={(e) => setSanctionReason(e.target.value.slice(0, 500))}
+                rows={3}
+              />
+            </div>
+            {sanctionForm?.kind === 'suspension' && (
+              <div className="space-y-2">
+                <Label>Duration</Label>
+                <Select value={suspendFor} onValueChange={setSuspendFor}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SUSPENSION_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSanctionForm(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={sanctionForm?.kind === 'suspension' ? 'destructive' : 'default'}
+              onClick={issueSanction}
+              disabled={working || !sanctionReason.trim()}
+            >
+              {sanctionForm?.kind === 'warning' ? 'Send warning' : 'Suspend user'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { AuthorLink } from '@/components/AuthorLink';
+import { useToast } from '@/hooks/use-toast';
+import { BlogReview, REVIEW_SELECT, rejectionReasonLabel } from '@/lib/reviews';
+import { CheckCircle, XCircle, RotateCcw } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+const MAX_COMMENT_LENGTH = 2000;
+
+interface ReviewFeedbackProps {
+  review: Pick<BlogReview, 'reason' | 'feedback'> & { blog_review_notes?: BlogReview['blog_review_notes'] };
+}
+
+// Reason, feedback and paragraph notes of a single rejection
+export function ReviewFeedback({ review }: ReviewFeedbackProps) {
+  const notes = [...(review.blog_review_notes || [])].sort((a, b) => a.paragraph_index - b.paragraph_index);
+
+  return (
+    <div className="space-y-3">
+      {review.reason && (
+        <Badge variant="outline" className="border-destructive/40 text-destructive">
+          {rejectionReasonLabel(review.reason)}
+        </Badge>
+      )}
+      {review.feedback && (
+        <p className="text-sm whitespace-pre-line">{review.feedback}</p>
+      )}
+      {notes.map(note => (
+        <div key={note.id} className="space-y-1">
+          <blockquote className="border-l-2 pl-3 text-xs text-muted-foreground line-clamp-3 whitespace-pre-line">
+            {note.excerpt}
+          </blockquote>
+          <p className="text-sm pl-3 whitespace-pre-line">{note.note}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const entryTitle = (review: BlogReview) => {
+  switch (review.kind) {
+    case 'rejected':
+      return 'requested changes';
+    case 'approved':
+      return 'approved the article';
+    case 'resubmitted':
+      return 'resubmitted for review';
+    case 'changes_rejected':
+      return 'declined the submitted edits';
+    case 'changes_approved':
+      return 'approved the submitted edits';
+    default:
+      return 'commented';
+  }
+};
+
+function ReviewEntry({ review }: { review: BlogReview }) {
+  const name = review.actor?.full_name || review.actor?.username || 'A moderator';
+
+  return (
+    <div className="flex gap-3">
+      {review.kind === 'approved' || review.kind === 'changes_approved' ? (
+        <CheckCircle className="w-8 h-8 shrink-0 text-green-500" />
+      ) : review.kind === 'rejected' || review.kind === 'changes_rejected' ? (
+        <XCircle className="w-8 h-8 shrink-0 text-destructive" />
+      ) : review.kind === 'resubmitted' ? (
+        <RotateCcw className="w-8 h-8 shrink-0 text-muted-foreground" />
+      ) : (
+        <Avatar className="w-8 h-8 shrink-0">
+          <AvatarImage src={review.actor?.avatar_url || undefined} />
+          <AvatarFallback className="text-xs">{name.charAt(0)}</AvatarFallback>
+        </Avatar>
+      )}
+      <div className="min-w-0 flex-1 space-y-2">
+        <p className="text-sm">
+          <AuthorLink profile={review.actor} className="font-medium">{name}</AuthorLink>
+          {review.actor?.role === 'admin' && (
+            <Badge variant="secondary" className="ml-2 text-xs">Moderator</Badge>
+          )}
+          <span className="text-muted-foreground"> {entryTitle(review)} · </span>
+          <span className="text-xs text-muted-foreground">
+            {formatDistanceToNow(new Date(review.created_at), { addSuffix: true })}
+          </span>
+        </p>
+        {review.kind === 'rejected' || review.kind === 'changes_rejected' ? (
+          <ReviewFeedback review={review} />
+        ) : review.feedback && (
+          <p className="text-sm whitespace-pre-line">{review.feedback}</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface ReviewThreadDialogProps {
+  blogId: string;
+  blogTitle: string;
+  children: React.ReactNode;
+}
+
+// Full moderation history of an article, shared by its author and the moderators
+export function ReviewThreadDialog({ blogId, blogTitle, children }: ReviewThreadDialogProps) {
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [reviews, setReviews] = useState<BlogReview[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [comment, setComment] = useState('');
+  const [posting, setPosting] = useState(false);
+
+  const fetchReviews = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('blog_reviews')
+        .select(REVIEW_SELECT)
+        .eq('blog_id', blogId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      setReviews((data || []) as unknown as BlogReview[]);
+    } catch (error) {
+      console.error('Error fetching reviews:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load the review history.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [blogId, toast]);
+
+  useEffect(() => {
+    if (open) {
+      fetchReviews();
+    }
+  }, [open, fetchReviews]);
+
+  const postComment = async () => {
+    if (!profile || !comment.trim()) return;
+
+    setPosting(true);
+    try {
+      const { data, error } = await supabase
+        .from('blog_reviews')
+        .insert({
+          blog_id: blogId,
+          actor_id: profile.id,
+          kind: 'comment',
+          feedback: comment.trim(),
+        })
+        .select(REVIEW_SELECT)
+        .single();
+
+      if (error) throw error;
+
+      setReviews(prev => [...prev, data as unknown as BlogReview]);
+      setComment('');
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to post comment.",
+        variant: "destructive",
+      });
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Review history</DialogTitle>
+          <DialogDescription className="line-clamp-2">{blogTitle}</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : reviews.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">No reviews yet.</p>
+        ) : (
+          <div className="space-y-5">
+            {reviews.map(review => (
+              <ReviewEntry key={review.id} review={review} />
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2 border-t pt-4">
+          <Textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value.slice(0, MAX_COMMENT_LENGTH))}
+            placeholder="Reply to the review..."
+            rows={3}
+          />
+          <div className="flex justify-end">
+            <Button size="sm" onClick={postComment} disabled={posting || !comment.trim()}>
+              {posting ? 'Posting...' : 'Post reply'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { diffLines, diffWords } from 'diff';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+
+export interface RevisionSnapshot {
+  title: string;
+  content: string;
+  excerpt?: string | null;
+  tags?: string[] | null;
+  cover_image_url?: string | null;
+}
+
+interface RevisionDiffProps {
+  before: RevisionSnapshot;
+  after: RevisionSnapshot;
+}
+
+interface DiffRow {
+  left?: string;
+  right?: string;
+  type: 'same' | 'removed' | 'added' | 'changed';
+}
+
+const splitLines = (value: string) => value.replace(/\n$/, '').split('\n');
+
+// Pairs removed and added chunks so changed lines sit next to each other
+const buildSideBySideRows = (before: string, after: string): DiffRow[] => {
+  const rows: DiffRow[] = [];
+  const parts = diffLines(before, after);
+
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i];
+    const lines = splitLines(part.value);
+
+    if (part.removed && parts[i + 1]?.added) {
+      const added = splitLines(parts[i + 1].value);
+      const length = Math.max(lines.length, added.length);
+      for (let j = 0; j < length; j++) {
+        rows.push({ left: lines[j], right: added[j], type: 'changed' });
+      }
+      i++;
+    } else if (part.removed) {
+      lines.forEach(line => rows.push({ left: line, type: 'removed' }));
+    } else if (part.added) {
+      lines.forEach(line => rows.push({ right: line, type: 'added' }));
+    } else {
+      lines.forEach(line => rows.push({ left: line, right: line, type: 'same' }));
+    }
+  }
+
+  return rows;
+};
+
+function InlineWordDiff({ before, after }: { before: string; after: string }) {
+  return (
+    <p className="text-sm leading-relaxed">
+      {diffWords(before, after).map((part, index) => (
+        <span
+          key={index}
+          className={
+            part.added
+              ? 'bg-green-100 text-green-900'
+              : part.removed
+              ? 'bg-red-100 text-red-900 line-through'
+              : ''
+          }
+        >
+          {part.value}
+        </span>
+      ))}
+    </p>
+  );
+}
+
+export function RevisionDiff({ before, after }: RevisionDiffProps) {
+  const [mode, setMode] = useState('inline');
+  const beforeTags = before.tags || [];
+  const afterTags = after.tags || [];
+  const removedTags = beforeTags.filter(tag => !afterTags.includes(tag));
+  const addedTags = afterTags.filter(tag => !beforeTags.includes(tag));
+  const contentChanged = before.content !== after.content;
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium text-muted-foreground">Title</h4>
+        <InlineWordDiff before={before.title} after={after.title} />
+      </div>
+
+      {(before.excerpt || after.excerpt) && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-muted-foreground">Excerpt</h4>
+          <InlineWordDiff before={before.excerpt || ''} after={after.excerpt || ''} />
+        </div>
+      )}
+
+      {(addedTags.length > 0 || removedTags.length > 0) && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-muted-foreground">Tags</h4>
+          <div className="flex flex-wrap gap-2">
+            {removedTags.map(tag => (
+              <Badge key={`-${tag}`} variant="outline" className="bg-red-50 text-red-700 border-red-200 line-through">
+                #{tag}
+              </Badge>
+            ))}
+            {addedTags.map(tag => (
+              <Badge key={`+${tag}`} variant="outline" className="bg-green-50 text-green-700 border-green-200">
+                #{tag}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {(before.cover_image_url || null) !== (after.cover_image_url || null) && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-muted-foreground">Cover Image</h4>
+          <p className="text-sm">
+            {!after.cover_image_url ? 'Removed' : !before.cover_image_url ? 'Added' : 'Replaced'}
+          </p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-medium text-muted-foreground">Content</h4>
+          {contentChanged && (
+            <Tabs value={mode} onValueChange={setMode}>
+              <TabsList className="h-8">
+                <TabsTrigger value="inline" className="text-xs">Inline</TabsTrigger>
+                <TabsTrigger value="side-by-side" className="text-xs">Side by side</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          )}
+        </div>
+
+        {!contentChanged ? (
+          <p className="text-sm text-muted-foreground">No changes to the content.</p>
+        ) : mode === 'inline' ? (
+          <pre className="text-xs font-mono border rounded-md overflow-x-auto">
+            {diffLines(before.content, after.content).flatMap((part, index) =>
+              splitLines(part.value).map((line, lineIndex) => (
+                <div
+                  key={`${index}-${lineIndex}`}
+                  className={`px-3 whitespace-pre-wrap ${
+                    part.added ? 'bg-green-50 text-green-900' : part.removed ? 'bg-red-50 text-red-900' : ''
+                  }`}
+                >
+                  {part.added ? '+ ' : part.removed ? '- ' : '  '}
+                  {line}
+                </div>
+              ))
+            )}
+          </pre>
+        ) : (
+          <div className="text-xs font-mono border rounded-md overflow-x-auto">
+            {buildSideBySideRows(before.content, after.content).map((row, index) => (
+              <div key={index} className="grid grid-cols-2 divide-x">
+                <div
+                  className={`px-3 whitespace-pre-wrap ${
+                    row.type === 'removed' || (row.type === 'changed' && row.left !== undefined)
+                      ? 'bg-red-50 text-red-900'
+                      : ''
+                  }`}
+                >
+                  {row.left ?? ''}
+                </div>
+                <div
+                  className={`px-3 whitespace-pre-wrap ${
+                    row.type === 'added' || (row.type === 'changed' && row.right !== undefined)
+                      ? 'bg-green-50 text-green-900'
+                      : ''
+                  }`}
+                >
+                  {row.right ?? ''}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
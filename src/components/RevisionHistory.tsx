@@ -0,0 +1,213 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { RevisionDiff } from '@/components/RevisionDiff';
+import { History, GitCompare, RotateCcw } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+
+export interface Revision {
+  id: string;
+  kind: 'draft' | 'edit' | 'staged' | 'approved';
+  title: string;
+  content: string;
+  excerpt: string | null;
+  tags: string[] | null;
+  cover_image_url: string | null;
+  created_at: string;
+  profiles: {
+    full_name?: string;
+    username?: string;
+  } | null;
+}
+
+interface RevisionHistoryProps {
+  blogId: string;
+  onRestore: (revision: Revision) => void;
+  refreshKey?: number;
+}
+
+const kindLabels: Record<Revision['kind'], string> = {
+  draft: 'Draft',
+  edit: 'Submitted',
+  staged: 'Edits submitted',
+  approved: 'Approved',
+};
+
+const kindClasses: Record<Revision['kind'], string> = {
+  draft: 'bg-slate-100 text-slate-700 border-slate-200',
+  edit: 'bg-amber-100 text-amber-800 border-amber-200',
+  staged: 'bg-amber-100 text-amber-800 border-amber-200',
+  approved: 'bg-green-100 text-green-800 border-green-200',
+};
+
+const revisionLabel = (revision: Revision) =>
+  `${format(new Date(revision.created_at), 'MMM dd, HH:mm')} · ${kindLabels[revision.kind]}`;
+
+export function RevisionHistory({ blogId, onRestore, refreshKey }: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [compareOpen, setCompareOpen] = useState(false);
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+
+  const fetchRevisions = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('blog_revisions')
+        .select(`
+          *,
+          profiles:author_id (
+            full_name,
+            username
+          )
+        `)
+        .eq('blog_id', blogId)
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+
+      setRevisions((data || []) as Revision[]);
+    } catch (error) {
+      console.error('Error fetching revisions:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [blogId]);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [fetchRevisions, refreshKey]);
+
+  const openCompare = (revision?: Revision) => {
+    const target = revision || revisions[0];
+    const targetIndex = revisions.findIndex(r => r.id === target?.id);
+    const previous = revisions[targetIndex + 1] || target;
+
+    setFromId(previous?.id || '');
+    setToId(target?.id || '');
+    setCompareOpen(true);
+  };
+
+  const fromRevision = revisions.find(r => r.id === fromId);
+  const toRevision = revisions.find(r => r.id === toId);
+
+  return (
+    <Card className="border-0 shadow-sm">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <History className="w-4 h-4" />
+            History
+          </CardTitle>
+          {revisions.length > 1 && (
+            <Button variant="ghost" size="sm" onClick={() => openCompare()} className="gap-1">
+              <GitCompare className="w-3 h-3" />
+              Compare
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-primary"></div>
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No saved versions yet.</p>
+        ) : (
+          <div className="space-y-3 max-h-[360px] overflow-y-auto pr-1">
+            {revisions.map((revision, index) => (
+              <div key={revision.id} className="flex items-start justify-between gap-2 text-sm">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <Badge variant="outline" className={`text-xs ${kindClasses[revision.kind]}`}>
+                      {kindLabels[revision.kind]}
+                    </Badge>
+                    {index === 0 && <span className="text-xs text-muted-foreground">Latest</span>}
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {revision.profiles?.full_name || revision.profiles?.username || 'Unknown'} ·{' '}
+                    {formatDistanceToNow(new Date(revision.created_at), { addSuffix: true })}
+                  </p>
+                </div>
+                <div className="flex shrink-0">
+                  {index < revisions.length - 1 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      title="Show changes"
+                      onClick={() => openCompare(revision)}
+                    >
+                      <GitCompare className="w-3 h-3" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    title="Restore this version"
+                    onClick={() => onRestore(revision)}
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={compareOpen} onOpenChange={setCompareOpen}>
+        <DialogContent className="max-w-5xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <GitCompare className="w-5 h-5" />
+              Compare Versions
+            </DialogTitle>
+          </DialogHeader>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <Select value={fromId} onValueChange={setFromId}>
+              <SelectTrigger>
+                <SelectValue placeholder="From version" />
+              </SelectTrigger>
+              <SelectContent>
+                {revisions.map(revision => (
+                  <SelectItem key={revision.id} value={revision.id}>
+                    {revisionLabel(revision)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={toId} onValueChange={setToId}>
+              <SelectTrigger>
+                <SelectValue placeholder="To version" />
+              </SelectTrigger>
+              <SelectContent>
+                {revisions.map(revision => (
+                  <SelectItem key={revision.id} value={revision.id}>
+                    {revisionLabel(revision)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {fromRevision && toRevision && (
+            <RevisionDiff before={fromRevision} after={toRevision} />
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,92 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { Check, Plus } from 'lucide-react';
+
+interface TagFollowButtonProps {
+  tagId: string;
+  size?: 'sm' | 'default';
+}
+
+// Followed tags feed new posts into the weekly digest (or new-post emails)
+export function TagFollowButton({ tagId, size = 'sm' }: TagFollowButtonProps) {
+  const { user, profile } = useAuth();
+  const { toast } = useToast();
+  const [isFollowing, setIsFollowing] = useState(false);
+  const [updating, setUpdating] = useState(false);
+
+  useEffect(() => {
+    const checkIfFollowing = async () => {
+      if (!profile?.id) {
+        setIsFollowing(false);
+        return;
+      }
+
+      const { data } = await supabase
+        .from('tag_follows')
+        .select('id')
+        .eq('user_id', profile.id)
+        .eq('tag_id', tagId)
+        .maybeSingle();
+
+      setIsFollowing(!!data);
+    };
+
+    checkIfFollowing();
+  }, [tagId, profile?.id]);
+
+  const handleFollow = async () => {
+    if (!user || !profile) {
+      toast({
+        title: "Sign in required",
+        description: "Please sign in to follow tags.",
+      });
+      return;
+    }
+
+    setUpdating(true);
+    try {
+      if (isFollowing) {
+        const { error } = await supabase
+          .from('tag_follows')
+          .delete()
+          .eq('user_id', profile.id)
+          .eq('tag_id', tagId);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase
+          .from('tag_follows')
+          .insert({ user_id: profile.id, tag_id: tagId });
+
+        if (error) throw error;
+      }
+
+      setIsFollowing(!isFollowing);
+    } catch (error) {
+      console.error('Error updating tag follow:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update follow status.",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  return (
+    <Button
+      size={size}
+      variant={isFollowing ? 'outline' : 'default'}
+      onClick={handleFollow}
+      disabled={updating}
+      className="gap-2"
+    >
+      {isFollowing ? <Check className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+      {isFollowing ? 'Following' : 'Follow tag'}
+    </Button>
+  );
+}
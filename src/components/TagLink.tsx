@@ -0,0 +1,16 @@
+import { Link } from 'react-router-dom';
+
+interface TagLinkProps {
+  tag: string;
+  className?: string;
+  children?: React.ReactNode;
+}
+
+// Links a tag badge to its tag page without triggering clicks on the surrounding card
+export function TagLink({ tag, className, children }: TagLinkProps) {
+  return (
+    <Link to={`/tags/${encodeURIComponent(tag)}`} className={className} onClick={(e) => e.stopPropagation()}>
+      {children ?? `#${tag}`}
+    </Link>
+  );
+}
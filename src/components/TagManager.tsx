@@ -0,0 +1,440 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Archive, ArchiveRestore, GitMerge, MoreHorizontal, Pencil, Plus, Search, Tags, X } from 'lucide-react';
+
+type TagRow = Database['public']['Tables']['tags']['Row'];
+type TagSynonym = Database['public']['Tables']['tag_synonyms']['Row'];
+
+const errorMessage = (error: unknown, fallback: string) => (error instanceof Error ? error.message : fallback);
+
+export function TagManager() {
+  const { toast } = useToast();
+  const [tags, setTags] = useState<TagRow[]>([]);
+  const [synonyms, setSynonyms] = useState<TagSynonym[]>([]);
+  const [postCounts, setPostCounts] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState('');
+  const [showRetired, setShowRetired] = useState(false);
+
+  const [editingTag, setEditingTag] = useState<TagRow | null>(null);
+  const [editForm, setEditForm] = useState({ name: '', description: '' });
+  const [newSynonym, setNewSynonym] = useState('');
+  const [mergingTag, setMergingTag] = useState<TagRow | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [retiringTag, setRetiringTag] = useState<TagRow | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchTags = useCallback(async () => {
+    try {
+      const [tagsResult, synonymsResult, countsResult] = await Promise.all([
+        supabase.from('tags').select('*').order('slug'),
+        supabase.from('tag_synonyms').select('*').order('synonym'),
+        supabase.rpc('get_tag_counts'),
+      ]);
+
+      if (tagsResult.error) throw tagsResult.error;
+      if (synonymsResult.error) throw synonymsResult.error;
+      if (countsResult.error) throw countsResult.error;
+
+      setTags(tagsResult.data || []);
+      setSynonyms(synonymsResult.data || []);
+      setPostCounts(Object.fromEntries((countsResult.data || []).map(({ tag, blog_count }) => [tag, blog_count])));
+    } catch (error) {
+      console.error('Error fetching tags:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load tags.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchTags();
+  }, [fetchTags]);
+
+  const openEditDialog = (tag: TagRow) => {
+    setEditingTag(tag);
+    setEditForm({ name: tag.name, description: tag.description || '' });
+    setNewSynonym('');
+  };
+
+  const saveTag = async () => {
+    if (!editingTag || !editForm.name.trim()) return;
+
+    setSaving(true);
+    try {
+      // Renaming can change the slug and rewrite posts, so it goes through the RPC
+      if (editForm.name.trim() !== editingTag.name) {
+        const { error } = await supabase.rpc('rename_tag', { _tag_id: editingTag.id, _name: editForm.name.trim() });
+        if (error) throw error;
+      }
+
+      const description = editForm.description.trim() || null;
+      if (description !== editingTag.description) {
+        const { error } = await supabase.from('tags').update({ description }).eq('id', editingTag.id);
+        if (error) throw error;
+      }
+
+      setEditingTag(null);
+      toast({ title: "Tag updated" });
+      fetchTags();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to update tag."),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addSynonym = async () => {
+    if (!editingTag || !newSynonym.trim()) return;
+
+    try {
+      const { data, error } = await supabase.rpc('add_tag_synonym', {
+        _tag_id: editingTag.id,
+        _synonym: newSynonym.trim(),
+      });
+
+      if (error) throw error;
+
+      setSynonyms(prev => [...prev.filter(s => s.synonym !== data.synonym), data]);
+      setNewSynonym('');
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to add synonym."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removeSynonym = async (synonym: string) => {
+    try {
+      const { error } = await supabase.from('tag_synonyms').delete().eq('synonym', synonym);
+
+      if (error) throw error;
+
+      setSynonyms(prev => prev.filter(s => s.synonym !== synonym));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to remove synonym."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const mergeTag = async () => {
+    if (!mergingTag || !mergeTargetId) return;
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase.rpc('merge_tags', {
+        _source_id: mergingTag.id,
+        _target_id: mergeTargetId,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Tags merged",
+        description: `#${mergingTag.slug} now points to #${data.slug}.`,
+      });
+      setMergingTag(null);
+      fetchTags();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to merge tags."),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setRetired = async (tag: TagRow, retired: boolean) => {
+    try {
+      const { error } = await supabase.rpc('set_tag_retired', { _tag_id: tag.id, _retired: retired });
+
+      if (error) throw error;
+
+      toast({
+        title: retired ? "Tag retired" : "Tag restored",
+        description: retired
+          ? `#${tag.slug} was removed from all articles.`
+          : `Authors can use #${tag.slug} again.`,
+      });
+      fetchTags();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: errorMessage(error, "Failed to update tag."),
+        variant: "destructive",
+      });
+    } finally {
+      setRetiringTag(null);
+    }
+  };
+
+  const query = filter.trim().toLowerCase();
+  const visibleTags = tags.filter(tag =>
+    (showRetired || !tag.is_retired) &&
+    (!query || tag.slug.includes(query) || tag.name.toLowerCase().includes(query))
+  );
+  const synonymsFor = (tagId: string) => synonyms.filter(s => s.tag_id === tagId);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row gap-4 items-start md:items-center justify-between">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <Tags className="w-5 h-5" />
+          Tags
+        </h2>
+        <div className="flex flex-col sm:flex-row gap-3 w-full md:w-auto sm:items-center">
+          <div className="flex items-center gap-2">
+            <Switch id="show-retired" checked={showRetired} onCheckedChange={setShowRetired} />
+            <Label htmlFor="show-retired" className="text-sm">Show retired</Label>
+          </div>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+            <Input
+              placeholder="Filter tags..."
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              className="pl-9 w-full md:w-[250px]"
+            />
+          </div>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : visibleTags.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">No tags found.</p>
+      ) : (
+        <div className="divide-y border rounded-lg">
+          {visibleTags.map(tag => (
+            <div key={tag.id} className="flex items-start justify-between gap-4 p-4">
+              <div className="min-w-0 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">#{tag.slug}</span>
+                  {tag.name !== tag.slug && <span className="text-sm text-muted-foreground">{tag.name}</span>}
+                  {tag.is_retired && <Badge variant="secondary">Retired</Badge>}
+                  <span className="text-xs text-muted-foreground">
+                    {postCounts[tag.slug] || 0} published
+                  </span>
+                </div>
+                {tag.description && <p className="text-sm text-muted-foreground">{tag.description}</p>}
+                {synonymsFor(tag.id).length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {synonymsFor(tag.id).map(s => (
+                      <Badge key={s.synonym} variant="outline" className="text-xs font-normal">
+                        {s.synonym}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="sm">
+                    <MoreHorizontal className="w-4 h-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => openEditDialog(tag)} className="cursor-pointer">
+                    <Pencil className="w-4 h-4 mr-2" />
+                    Edit
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() => {
+                      setMergingTag(tag);
+                      setMergeTargetId('');
+                    }}
+                    className="cursor-pointer"
+                  >
+                    <GitMerge className="w-4 h-4 mr-2" />
+                    Merge into...
+                  </DropdownMenuItem>
+                  {tag.is_retired ? (
+                    <DropdownMenuItem onClick={() => setRetired(tag, false)} className="cursor-pointer">
+                      <ArchiveRestore className="w-4 h-4 mr-2" />
+                      Restore
+                    </DropdownMenuItem>
+                  ) : (
+                    <DropdownMenuItem onClick={() => setRetiringTag(tag)} className="text-destructive cursor-pointer">
+                      <Archive className="w-4 h-4 mr-2" />
+                      Retire
+                    </DropdownMenuItem>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Edit Dialog */}
+      <Dialog open={!!editingTag} onOpenChange={(open) => !open && setEditingTag(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit #{editingTag?.slug}</DialogTitle>
+            <DialogDescription>
+              Renaming updates every article using this tag. The old name keeps working as a synonym.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="tag-name">Name</Label>
+              <Input
+                id="tag-name"
+                value={editForm.name}
+                maxLength={50}
+                onChange={(e) => setEditForm(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tag-description">Description</Label>
+              <Textarea
+                id="tag-description"
+                rows={3}
+                maxLength={280}
+                value={editForm.description}
+                onChange={(e) => setEditForm(prev => ({ ...prev, description: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tag-synonym">Synonyms</Label>
+              <div className="flex flex-wrap gap-1">
+                {editingTag && synonymsFor(editingTag.id).map(s => (
+                  <Badge key={s.synonym} variant="secondary" className="gap-1">
+                    {s.synonym}
+                    <button onClick={() => removeSynonym(s.synonym)} aria-label={`Remove ${s.synonym}`}>
+                      <X className="w-3 h-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Input
+                  id="tag-synonym"
+                  placeholder="e.g. reactjs"
+                  value={newSynonym}
+                  onChange={(e) => setNewSynonym(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && addSynonym()}
+                />
+                <Button variant="outline" onClick={addSynonym} disabled={!newSynonym.trim()}>
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingTag(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={saveTag} disabled={saving || !editForm.name.trim()}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Merge Dialog */}
+      <Dialog open={!!mergingTag} onOpenChange={(open) => !open && setMergingTag(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Merge #{mergingTag?.slug}</DialogTitle>
+            <DialogDescription>
+              Articles tagged #{mergingTag?.slug} are retagged with the target, and #{mergingTag?.slug} becomes
+              one of its synonyms.
+            </DialogDescription>
+          </DialogHeader>
+          <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Choose a target tag" />
+            </SelectTrigger>
+            <SelectContent>
+              {tags
+                .filter(tag => tag.id !== mergingTag?.id && !tag.is_retired)
+                .map(tag => (
+                  <SelectItem key={tag.id} value={tag.id}>
+                    #{tag.slug}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMergingTag(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={mergeTag} disabled={saving || !mergeTargetId}>
+              {saving ? 'Merging...' : 'Merge'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Retire Confirmation */}
+      <AlertDialog open={!!retiringTag} onOpenChange={(open) => !open && setRetiringTag(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Retire #{retiringTag?.slug}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The tag is removed from every article and authors can no longer use it. Restoring it later
+              will not add it back to articles.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => retiringTag && setRetired(retiringTag, true)}>
+              Retire
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+
+interface TagSuggestionsProps {
+  value: string;
+  onSelect: (value: string) => void;
+}
+
+interface KnownTag {
+  id: string;
+  slug: string;
+  name: string;
+  synonyms: string[];
+}
+
+const MAX_SUGGESTIONS = 6;
+
+// Loose client-side match key; the database does the real normalization on save
+const toMatchKey = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '');
+
+// Suggests existing tags for the fragment after the last comma of a comma-separated tag list
+export function TagSuggestions({ value, onSelect }: TagSuggestionsProps) {
+  const [knownTags, setKnownTags] = useState<KnownTag[]>([]);
+
+  useEffect(() => {
+    fetchKnownTags();
+  }, []);
+
+  const fetchKnownTags = async () => {
+    const { data, error } = await supabase
+      .from('tags')
+      .select('id, slug, name, tag_synonyms ( synonym )')
+      .eq('is_retired', false)
+      .order('slug');
+
+    if (error) {
+      console.error('Error fetching tags:', error);
+      return;
+    }
+
+    setKnownTags((data || []).map(tag => ({
+      id: tag.id,
+      slug: tag.slug,
+      name: tag.name,
+      synonyms: tag.tag_synonyms.map(s => s.synonym),
+    })));
+  };
+
+  const parts = value.split(',');
+  const fragment = toMatchKey(parts[parts.length - 1]);
+  const chosen = new Set(parts.slice(0, -1).map(toMatchKey));
+
+  if (!fragment) return null;
+
+  const suggestions = knownTags
+    .filter(tag =>
+      !chosen.has(toMatchKey(tag.slug)) &&
+      [tag.slug, tag.name, ...tag.synonyms].some(candidate => toMatchKey(candidate).includes(fragment))
+    )
+    // Prefix matches first, then alphabetical
+    .sort((a, b) => Number(!toMatchKey(a.slug).startsWith(fragment)) - Number(!toMatchKey(b.slug).startsWith(fragment)))
+    .slice(0, MAX_SUGGESTIONS);
+
+  if (suggestions.length === 0) return null;
+
+  const selectTag = (slug: string) => {
+    const kept = parts.slice(0, -1).map(part => part.trim()).filter(Boolean);
+    onSelect([...kept, slug].join(', ') + ', ');
+  };
+
+  return (
+    <div className="rounded-md border bg-muted/30 p-2">
+      <p className="text-xs text-muted-foreground mb-2">Existing tags</p>
+      <div className="flex flex-wrap gap-1">
+        {suggestions.map(tag => (
+          <Badge
+            key={tag.id}
+            variant="outline"
+            className="cursor-pointer bg-background hover:bg-accent"
+            onClick={() => selectTag(tag.slug)}
+          >
+            #{tag.slug}
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -13,6 +13,11 @@ interface Profile {
   role: 'blogger' | 'admin';
 }
 
+// Fields a user may change on their own profile; role is managed by admins
+type ProfileUpdates = Partial<Pick<Profile, 'username' | 'full_name' | 'bio'>> & {
+  avatar_url?: string | null;
+};
+
 interface AuthContextType {
   user: User | null;
   session: Session | null;
@@ -21,7 +26,7 @@ interface AuthContextType {
   signUp: (email: string, password: string, fullName: string) => Promise<{ error?: any }>;
   signIn: (email: string, password: string) => Promise<{ error?: any }>;
   signOut: () => Promise<void>;
-  updateProfile: (updates: Partial<Profile>) => Promise<void>;
+  updateProfile: (updates: ProfileUpdates) => Promise<{ error?: unknown }>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -148,9 +153,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const updateProfile = async (updates: Partial<Profile>) => {
+  const updateProfile = async (updates: ProfileUpdates) => {
     try {
-      if (!user) return;
+      if (!user) return { error: new Error('Not signed in') };
 
       const { error } = await supabase
         .from('profiles')
@@ -166,12 +171,18 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         title: "Profile updated",
         description: "Your profile has been successfully updated.",
       });
+
+      return { error: null };
     } catch (error: any) {
       toast({
         title: "Error",
-        description: "There was an error updating your profile.",
+        description: error.code === '23505'
+          ? "That username is already taken."
+          : "There was an error updating your profile.",
         variant: "destructive",
       });
+
+      return { error };
     }
   };
 
@@ -29,9 +29,209 @@ export type Database = {
         }
         Relationships: []
       }
+      blog_pending_changes: {
+        Row: {
+          blog_id: string
+          changes: Json
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          blog_id: string
+          changes: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          blog_id?: string
+          changes?: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blog_pending_changes_blog_id_fkey"
+            columns: ["blog_id"]
+            isOneToOne: true
+            referencedRelation: "blogs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      blog_review_notes: {
+        Row: {
+          excerpt: string
+          id: string
+          note: string
+          paragraph_index: number
+          review_id: string
+        }
+        Insert: {
+          excerpt: string
+          id?: string
+          note: string
+          paragraph_index: number
+          review_id: string
+        }
+        Update: {
+          excerpt?: string
+          id?: string
+          note?: string
+          paragraph_index?: number
+          review_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blog_review_notes_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: false
+            referencedRelation: "blog_reviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      blog_reviews: {
+        Row: {
+          actor_id: string | null
+          blog_id: string
+          created_at: string
+          feedback: string | null
+          id: string
+          kind: string
+          reason: string | null
+        }
+        Insert: {
+          actor_id?: string | null
+          blog_id: string
+          created_at?: string
+          feedback?: string | null
+          id?: string
+          kind: string
+          reason?: string | null
+        }
+        Update: {
+          actor_id?: string | null
+          blog_id?: string
+          created_at?: string
+          feedback?: string | null
+          id?: string
+          kind?: string
+          reason?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blog_reviews_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "blog_reviews_blog_id_fkey"
+            columns: ["blog_id"]
+            isOneToOne: false
+            referencedRelation: "blogs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      blog_revisions: {
+        Row: {
+          author_id: string | null
+          blog_id: string
+          content: string
+          cover_image_url: string | null
+          created_at: string
+          excerpt: string | null
+          id: string
+          kind: string
+          tags: string[] | null
+          title: string
+        }
+        Insert: {
+          author_id?: string | null
+          blog_id: string
+          content: string
+          cover_image_url?: string | null
+          created_at?: string
+          excerpt?: string | null
+          id?: string
+          kind: string
+          tags?: string[] | null
+          title: string
+        }
+        Update: {
+          author_id?: string | null
+          blog_id?: string
+          content?: string
+          cover_image_url?: string | null
+          created_at?: string
+          excerpt?: string | null
+          id?: string
+          kind?: string
+          tags?: string[] | null
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blog_revisions_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "blog_revisions_blog_id_fkey"
+            columns: ["blog_id"]
+            isOneToOne: false
+            referencedRelation: "blogs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      blog_views: {
+        Row: {
+          blog_id: string
+          created_at: string
+          id: string
+          viewer_id: string | null
+          visitor_id: string | null
+        }
+        Insert: {
+          blog_id: string
+          created_at?: string
+          id?: string
+          viewer_id?: string | null
+          visitor_id?: string | null
+        }
+        Update: {
+          blog_id?: string
+          created_at?: string
+          id?: string
+          viewer_id?: string | null
+          visitor_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blog_views_blog_id_fkey"
+            columns: ["blog_id"]
+            isOneToOne: false
+            referencedRelation: "blogs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "blog_views_viewer_id_fkey"
+            columns: ["viewer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       blogs: {
         Row: {
           author_id: string
+          bookmarks_count: number | null
           comments_count: number | null
           content: string
           cover_image_url: string | null
@@ -41,6 +241,8 @@ export type Database = {
           likes_count: number | null
           published_at: string | null
           reading_time: number | null
+          search_vector: unknown | null
+          requested_publish_at: string | null
           slug: string
           status: string | null
           tags: string[] | null
@@ -50,6 +252,7 @@ export type Database = {
         }
         Insert: {
           author_id: string
+          bookmarks_count?: number | null
           comments_count?: number | null
           content: string
           cover_image_url?: string | null
@@ -59,6 +262,8 @@ export type Database = {
           likes_count?: number | null
           published_at?: string | null
           reading_time?: number | null
+          search_vector?: unknown | null
+          requested_publish_at?: string | null
           slug: string
           status?: string | null
           tags?: string[] | null
@@ -68,6 +273,7 @@ export type Database = {
         }
         Update: {
           author_id?: string
+          bookmarks_count?: number | null
           comments_count?: number | null
           content?: string
           cover_image_url?: string | null
@@ -77,6 +283,8 @@ export type Database = {
           likes_count?: number | null
           published_at?: string | null
           reading_time?: number | null
+          search_vector?: unknown | null
+          requested_publish_at?: string | null
           slug?: string
           status?: string | null
           tags?: string[] | null
@@ -94,14 +302,132 @@ export type Database = {
           },
         ]
       }
+      bookmark_folders: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bookmark_folders_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bookmarks: {
+        Row: {
+          blog_id: string
+          created_at: string
+          folder_id: string | null
+          id: string
+          user_id: string
+        }
+        Insert: {
+          blog_id: string
+          created_at?: string
+          folder_id?: string | null
+          id?: string
+          user_id: string
+        }
+        Update: {
+          blog_id?: string
+          created_at?: string
+          folder_id?: string | null
+          id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bookmarks_blog_id_fkey"
+            columns: ["blog_id"]
+            isOneToOne: false
+            referencedRelation: "blogs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookmarks_folder_id_fkey"
+            columns: ["folder_id"]
+            isOneToOne: false
+            referencedRelation: "bookmark_folders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookmarks_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      comment_votes: {
+        Row: {
+          comment_id: string
+          created_at: string
+          id: string
+          user_id: string
+          value: number
+        }
+        Insert: {
+          comment_id: string
+          created_at?: string
+          id?: string
+          user_id: string
+          value: number
+        }
+        Update: {
+          comment_id?: string
+          created_at?: string
+          id?: string
+          user_id?: string
+          value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comment_votes_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comment_votes_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       comments: {
         Row: {
           author_id: string
           blog_id: string
           content: string
           created_at: string
+          deleted_at: string | null
+          hidden_at: string | null
           id: string
           parent_id: string | null
+          pinned_at: string | null
+          score: number
           updated_at: string
         }
         Insert: {
@@ -109,8 +435,12 @@ export type Database = {
           blog_id: string
           content: string
           created_at?: string
+          deleted_at?: string | null
+          hidden_at?: string | null
           id?: string
           parent_id?: string | null
+          pinned_at?: string | null
+          score?: number
           updated_at?: string
         }
         Update: {
@@ -118,8 +448,12 @@ export type Database = {
           blog_id?: string
           content?: string
           created_at?: string
+          deleted_at?: string | null
+          hidden_at?: string | null
           id?: string
           parent_id?: string | null
+          pinned_at?: string | null
+          score?: number
           updated_at?: string
         }
         Relationships: [
@@ -146,35 +480,42 @@ export type Database = {
           },
         ]
       }
-      likes: {
+      digest_posts: {
         Row: {
           blog_id: string
-          created_at: string
-          id: string
+          digest_id: string
+          section: string
           user_id: string
         }
         Insert: {
           blog_id: string
-          created_at?: string
-          id?: string
+          digest_id: string
+          section: string
           user_id: string
         }
         Update: {
           blog_id?: string
-          created_at?: string
-          id?: string
+          digest_id?: string
+          section?: string
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "likes_blog_id_fkey"
+            foreignKeyName: "digest_posts_blog_id_fkey"
             columns: ["blog_id"]
             isOneToOne: false
             referencedRelation: "blogs"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "likes_user_id_fkey"
+            foreignKeyName: "digest_posts_digest_id_fkey"
+            columns: ["digest_id"]
+            isOneToOne: false
+            referencedRelation: "digests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "digest_posts_user_id_fkey"
             columns: ["user_id"]
             isOneToOne: false
             referencedRelation: "profiles"
@@ -182,25 +523,282 @@ export type Database = {
           },
         ]
       }
-      profiles: {
+      digests: {
         Row: {
-          avatar_url: string | null
-          bio: string | null
           created_at: string
-          full_name: string | null
           id: string
-          role: string | null
-          updated_at: string
+          period_end: string
+          period_start: string
           user_id: string
-          username: string | null
         }
         Insert: {
-          avatar_url?: string | null
-          bio?: string | null
           created_at?: string
-          full_name?: string | null
           id?: string
-          role?: string | null
+          period_end: string
+          period_start: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          period_end?: string
+          period_start?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "digests_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_outbox: {
+        Row: {
+          attempts: number
+          created_at: string
+          id: string
+          idempotency_key: string
+          last_error: string | null
+          locked_at: string | null
+          next_attempt_at: string
+          payload: Json
+          provider_message_id: string | null
+          recipient_id: string
+          sent_at: string | null
+          status: string
+          template: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          id?: string
+          idempotency_key: string
+          last_error?: string | null
+          locked_at?: string | null
+          next_attempt_at?: string
+          payload?: Json
+          provider_message_id?: string | null
+          recipient_id: string
+          sent_at?: string | null
+          status?: string
+          template: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          id?: string
+          idempotency_key?: string
+          last_error?: string | null
+          locked_at?: string | null
+          next_attempt_at?: string
+          payload?: Json
+          provider_message_id?: string | null
+          recipient_id?: string
+          sent_at?: string | null
+          status?: string
+          template?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_outbox_recipient_id_fkey"
+            columns: ["recipient_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      follows: {
+        Row: {
+          created_at: string
+          follower_id: string
+          following_id: string
+          id: string
+        }
+        Insert: {
+          created_at?: string
+          follower_id: string
+          following_id: string
+          id?: string
+        }
+        Update: {
+          created_at?: string
+          follower_id?: string
+          following_id?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "follows_follower_id_fkey"
+            columns: ["follower_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "follows_following_id_fkey"
+            columns: ["following_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      likes: {
+        Row: {
+          blog_id: string
+          created_at: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          blog_id: string
+          created_at?: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          blog_id?: string
+          created_at?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "likes_blog_id_fkey"
+            columns: ["blog_id"]
+            isOneToOne: false
+            referencedRelation: "blogs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "likes_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          delivery: string
+          event_type: string
+          id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          delivery: string
+          event_type: string
+          id?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          delivery?: string
+          event_type?: string
+          id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_preferences_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          actor_id: string | null
+          blog_id: string | null
+          comment_id: string | null
+          created_at: string
+          id: string
+          read_at: string | null
+          type: string
+          user_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          blog_id?: string | null
+          comment_id?: string | null
+          created_at?: string
+          id?: string
+          read_at?: string | null
+          type: string
+          user_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          blog_id?: string | null
+          comment_id?: string | null
+          created_at?: string
+          id?: string
+          read_at?: string | null
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_blog_id_fkey"
+            columns: ["blog_id"]
+            isOneToOne: false
+            referencedRelation: "blogs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          bio: string | null
+          created_at: string
+          full_name: string | null
+          id: string
+          role: string | null
+          updated_at: string
+          user_id: string
+          username: string | null
+        }
+        Insert: {
+          avatar_url?: string | null
+          bio?: string | null
+          created_at?: string
+          full_name?: string | null
+          id?: string
+          role?: string | null
           updated_at?: string
           user_id: string
           username?: string | null
@@ -218,12 +816,395 @@ export type Database = {
         }
         Relationships: []
       }
+      reports: {
+        Row: {
+          blog_id: string | null
+          comment_id: string | null
+          content_snapshot: string | null
+          created_at: string
+          details: string | null
+          id: string
+          reason: string
+          reported_user_id: string | null
+          reporter_id: string
+          resolution: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          status: string
+        }
+        Insert: {
+          blog_id?: string | null
+          comment_id?: string | null
+          content_snapshot?: string | null
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason: string
+          reported_user_id?: string | null
+          reporter_id: string
+          resolution?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+        }
+        Update: {
+          blog_id?: string | null
+          comment_id?: string | null
+          content_snapshot?: string | null
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason?: string
+          reported_user_id?: string | null
+          reporter_id?: string
+          resolution?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reports_blog_id_fkey"
+            columns: ["blog_id"]
+            isOneToOne: false
+            referencedRelation: "blogs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_reported_user_id_fkey"
+            columns: ["reported_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_reporter_id_fkey"
+            columns: ["reporter_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tag_follows: {
+        Row: {
+          created_at: string
+          id: string
+          tag_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          tag_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          tag_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tag_follows_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tag_follows_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tag_synonyms: {
+        Row: {
+          created_at: string
+          synonym: string
+          tag_id: string
+        }
+        Insert: {
+          created_at?: string
+          synonym: string
+          tag_id: string
+        }
+        Update: {
+          created_at?: string
+          synonym?: string
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tag_synonyms_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tags: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          is_retired: boolean
+          name: string
+          slug: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_retired?: boolean
+          name: string
+          slug: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_retired?: boolean
+          name?: string
+          slug?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      user_sanctions: {
+        Row: {
+          acknowledged_at: string | null
+          created_at: string
+          created_by: string | null
+          expires_at: string | null
+          id: string
+          kind: string
+          reason: string
+          report_id: string | null
+          user_id: string
+        }
+        Insert: {
+          acknowledged_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          id?: string
+          kind: string
+          reason: string
+          report_id?: string | null
+          user_id: string
+        }
+        Update: {
+          acknowledged_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          id?: string
+          kind?: string
+          reason?: string
+          report_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_sanctions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_sanctions_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_sanctions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      acknowledge_sanction: {
+        Args: { _sanction_id: string }
+        Returns: undefined
+      }
+      add_tag_synonym: {
+        Args: { _tag_id: string; _synonym: string }
+        Returns: {
+          created_at: string
+          synonym: string
+          tag_id: string
+        }
+      }
+      apply_pending_changes: {
+        Args: { _blog_id: string }
+        Returns: undefined
+      }
+      claim_email_outbox: {
+        Args: { _limit?: number }
+        Returns: Database["public"]["Tables"]["email_outbox"]["Row"][]
+      }
+      delete_comment: {
+        Args: { _comment_id: string }
+        Returns: string
+      }
+      get_tag_counts: {
+        Args: { _since?: string; _limit?: number }
+        Returns: {
+          tag: string
+          blog_count: number
+        }[]
+      }
+      is_suspended: {
+        Args: { _profile_id: string }
+        Returns: boolean
+      }
+      lift_suspension: {
+        Args: { _sanction_id: string }
+        Returns: undefined
+      }
+      merge_tags: {
+        Args: { _source_id: string; _target_id: string }
+        Returns: Database["public"]["Tables"]["tags"]["Row"]
+      }
+      notification_delivery: {
+        Args: { _user_id: string; _event_type: string }
+        Returns: string
+      }
+      notification_event_types: {
+        Args: Record<PropertyKey, never>
+        Returns: string[]
+      }
+      parse_search_query: {
+        Args: { _query: string }
+        Returns: unknown
+      }
+      queue_weekly_digests: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      record_blog_view: {
+        Args: { _blog_id: string; _visitor_id?: string }
+        Returns: number
+      }
+      reject_blog: {
+        Args: {
+          _blog_id: string
+          _reason: string
+          _feedback: string
+          _notes?: Json
+        }
+        Returns: Database["public"]["Tables"]["blog_reviews"]["Row"]
+      }
+      reject_pending_changes: {
+        Args: {
+          _blog_id: string
+          _reason: string
+          _feedback: string
+          _notes?: Json
+        }
+        Returns: Database["public"]["Tables"]["blog_reviews"]["Row"]
+      }
+      rename_tag: {
+        Args: { _tag_id: string; _name: string }
+        Returns: Database["public"]["Tables"]["tags"]["Row"]
+      }
+      resolve_report: {
+        Args: { _report_id: string; _action: string }
+        Returns: undefined
+      }
+      retry_email: {
+        Args: { _email_id: string }
+        Returns: undefined
+      }
+      sanction_user: {
+        Args: {
+          _user_id: string
+          _kind: string
+          _reason: string
+          _suspend_days?: number
+          _report_id?: string
+        }
+        Returns: Database["public"]["Tables"]["user_sanctions"]["Row"]
+      }
+      search_blogs: {
+        Args: {
+          _query?: string
+          _tags?: string[]
+          _tag_mode?: string
+          _limit?: number
+          _offset?: number
+        }
+        Returns: {
+          id: string
+          title: string
+          slug: string
+          excerpt: string | null
+          cover_image_url: string | null
+          tags: string[] | null
+          reading_time: number | null
+          likes_count: number | null
+          comments_count: number | null
+          views_count: number | null
+          created_at: string
+          published_at: string | null
+          author_id: string
+          author_full_name: string | null
+          author_username: string | null
+          author_avatar_url: string | null
+          rank: number
+          title_highlight: string
+          snippet: string | null
+          total_count: number
+        }[]
+      }
+      set_comment_pinned: {
+        Args: { _comment_id: string; _pinned: boolean }
+        Returns: undefined
+      }
+      set_tag_retired: {
+        Args: { _tag_id: string; _retired: boolean }
+        Returns: Database["public"]["Tables"]["tags"]["Row"]
+      }
+      unsubscribe_email: {
+        Args: { _user_id: string; _event_type: string }
+        Returns: undefined
+      }
+      wants_digest: {
+        Args: { _user_id: string }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
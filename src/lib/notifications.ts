@@ -0,0 +1,138 @@
+import { Database } from '@/integrations/supabase/types';
+import { format } from 'date-fns';
+
+type NotificationRow = Database['public']['Tables']['notifications']['Row'];
+
+export interface AppNotification extends NotificationRow {
+  actor: { full_name: string | null; username: string | null; avatar_url: string | null } | null;
+  blogs: { title: string; slug: string; published_at: string | null } | null;
+  comments: { content: string } | null;
+}
+
+export const NOTIFICATION_SELECT = `
+  *,
+  actor:profiles!notifications_actor_id_fkey ( full_name, username, avatar_url ),
+  blogs ( title, slug, published_at ),
+  comments ( content )
+`;
+
+// Approved posts with a future publish time are not readable yet
+const isScheduled = (notification: AppNotification) =>
+  !!notification.blogs?.published_at && new Date(notification.blogs.published_at) > new Date();
+
+export const notificationLink = (notification: AppNotification) => {
+  switch (notification.type) {
+    case 'follow':
+      return notification.actor?.username ? `/u/${encodeURIComponent(notification.actor.username)}` : null;
+    case 'blog_rejected':
+      return '/dashboard';
+    case 'blog_approved':
+      return notification.blogs && !isScheduled(notification) ? `/blog/${notification.blogs.slug}` : '/dashboard';
+    default:
+      if (!notification.blogs) return null;
+      return `/blog/${notification.blogs.slug}${notification.comment_id ? `#comment-${notification.comment_id}` : ''}`;
+  }
+};
+
+export const notificationMessage = (notification: AppNotification) => {
+  const actor = notification.actor?.full_name || notification.actor?.username || 'Someone';
+  const title = notification.blogs ? `"${notification.blogs.title}"` : 'a post';
+
+  switch (notification.type) {
+    case 'mention':
+      return `${actor} mentioned you in a comment on ${title}`;
+    case 'comment':
+      return `${actor} commented on ${title}`;
+    case 'reply':
+      return `${actor} replied to your comment on ${title}`;
+    case 'follow':
+      return `${actor} started following you`;
+    case 'blog_approved':
+      return isScheduled(notification)
+        ? `Your post ${title} was approved and is scheduled for ${format(new Date(notification.blogs!.published_at!), 'MMM dd, yyyy HH:mm')}`
+        : `Your post ${title} was approved`;
+    case 'blog_rejected':
+      return `Your post ${title} was not approved`;
+    default:
+      return 'New activity on your account';
+  }
+};
+
+export type NotificationDelivery = 'in_app' | 'email' | 'digest' | 'off';
+
+export interface NotificationEvent {
+  type: string;
+  label: string;
+  description: string;
+  deliveries: NotificationDelivery[];
+  // Keep in sync with notification_delivery() in the database
+  defaultDelivery: NotificationDelivery;
+}
+
+export const NOTIFICATION_EVENTS: NotificationEvent[] = [
+  {
+    type: 'mention',
+    label: 'Mentions',
+    description: 'Someone @mentions you in a comment',
+    deliveries: ['in_app', 'email', 'digest', 'off'],
+    defaultDelivery: 'in_app',
+  },
+  {
+    type: 'comment',
+    label: 'Comments on your posts',
+    description: 'Someone comments on one of your articles',
+    deliveries: ['in_app', 'email', 'digest', 'off'],
+    defaultDelivery: 'in_app',
+  },
+  {
+    type: 'reply',
+    label: 'Replies',
+    description: 'Someone replies to one of your comments',
+    deliveries: ['in_app', 'email', 'digest', 'off'],
+    defaultDelivery: 'in_app',
+  },
+  {
+    type: 'follow',
+    label: 'New followers',
+    description: 'Someone starts following you',
+    deliveries: ['in_app', 'email', 'digest', 'off'],
+    defaultDelivery: 'in_app',
+  },
+  {
+    type: 'blog_approved',
+    label: 'Post approved',
+    description: 'A moderator approves one of your articles',
+    deliveries: ['in_app', 'email', 'digest', 'off'],
+    defaultDelivery: 'email',
+  },
+  {
+    type: 'blog_rejected',
+    label: 'Post not approved',
+    description: 'A moderator rejects one of your articles',
+    deliveries: ['in_app', 'email', 'digest', 'off'],
+    defaultDelivery: 'email',
+  },
+  {
+    type: 'new_blog',
+    label: 'New posts from authors and tags you follow',
+    description: 'An author or tag you follow gets a new article',
+    deliveries: ['email', 'digest', 'off'],
+    defaultDelivery: 'digest',
+  },
+];
+
+export const deliveryLabel = (delivery: NotificationDelivery, event: NotificationEvent) => {
+  // Events without an in-app notification only go out by email
+  const inApp = event.deliveries.includes('in_app');
+
+  switch (delivery) {
+    case 'in_app':
+      return 'In-app only';
+    case 'email':
+      return inApp ? 'In-app + email' : 'Email right away';
+    case 'digest':
+      return inApp ? 'In-app + weekly digest' : 'Weekly digest';
+    case 'off':
+      return 'Off';
+  }
+};
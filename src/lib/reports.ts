@@ -0,0 +1,14 @@
+// Mirrors the reason check constraint on the reports table
+export const REPORT_REASONS = [
+  { value: 'spam', label: 'Spam', description: 'Advertising, scams or repeated off-topic posts' },
+  { value: 'harassment', label: 'Harassment', description: 'Insults, threats or targeting a person' },
+  { value: 'hate_speech', label: 'Hate speech', description: 'Attacks on people for who they are' },
+  { value: 'misinformation', label: 'Misinformation', description: 'Claims that are false or misleading' },
+  { value: 'inappropriate', label: 'Inappropriate content', description: 'Sexual, violent or otherwise unsuitable material' },
+  { value: 'other', label: 'Something else', description: 'Tell us more in the details' },
+] as const;
+
+export type ReportReason = typeof REPORT_REASONS[number]['value'];
+
+export const reportReasonLabel = (reason: string) =>
+  REPORT_REASONS.find(option => option.value === reason)?.label ?? reason;
@@ -0,0 +1,59 @@
+import { Database } from '@/integrations/supabase/types';
+
+// Mirrors the reason check constraint on the blog_reviews table
+export const REJECTION_REASONS = [
+  { value: 'needs_work', label: 'Needs more work', description: 'The idea is there but the article is not ready yet' },
+  { value: 'formatting', label: 'Formatting issues', description: 'Headings, code blocks, images or links need fixing' },
+  { value: 'sources', label: 'Missing sources', description: 'Claims need citations or references' },
+  { value: 'off_topic', label: 'Off-topic', description: 'Not a fit for this site' },
+  { value: 'duplicate', label: 'Duplicate or copied', description: 'Already published here or elsewhere' },
+  { value: 'policy', label: 'Content policy', description: 'Breaks the community guidelines' },
+  { value: 'other', label: 'Something else', description: 'Explained in the feedback' },
+] as const;
+
+export type RejectionReason = typeof REJECTION_REASONS[number]['value'];
+
+export const rejectionReasonLabel = (reason: string) =>
+  REJECTION_REASONS.find(option => option.value === reason)?.label ?? reason;
+
+type ReviewRow = Database['public']['Tables']['blog_reviews']['Row'];
+type ReviewNoteRow = Database['public']['Tables']['blog_review_notes']['Row'];
+
+export interface BlogReview extends ReviewRow {
+  actor: { full_name: string | null; username: string | null; avatar_url: string | null; role: string | null } | null;
+  blog_review_notes: ReviewNoteRow[];
+}
+
+export const REVIEW_SELECT = `
+  *,
+  actor:profiles!blog_reviews_actor_id_fkey ( full_name, username, avatar_url, role ),
+  blog_review_notes ( * )
+`;
+
+// A type alias rather than an interface so it can be passed as Json to reject_blog
+export type ParagraphNote = {
+  paragraph_index: number;
+  excerpt: string;
+  note: string;
+};
+
+// Paragraphs are the blank-line separated blocks of the markdown source, which is
+// what inline review notes point at
+export const splitParagraphs = (content: string) =>
+  content
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean);
+
+// The most recent rejection of the article (or of its staged edits), ignoring
+// anything older than a later approval or resubmission
+export const latestRejection = <T extends Pick<ReviewRow, 'kind' | 'created_at'>>(
+  reviews: T[],
+  kind: 'rejected' | 'changes_rejected' = 'rejected'
+) => {
+  const latest = [...reviews]
+    .filter(review => review.kind !== 'comment')
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0];
+
+  return latest?.kind === kind ? latest : null;
+};
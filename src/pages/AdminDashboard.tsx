@@ -4,10 +4,14 @@ import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { ExternalLink, Shield, AlertCircle, CheckCircle, XCircle, Filter, Search, RefreshCw } from 'lucide-react';
+import { ExternalLink, Shield, AlertCircle, CheckCircle, XCircle, Filter, Search, RefreshCw, Flag, Mail } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import AdminStatsCards from '@/components/AdminStatsCards';
 import BlogCard from '@/components/BlogCard';
+import { RejectionInput } from '@/components/RejectBlogDialog';
+import { TagManager } from '@/components/TagManager';
+import { ReportQueue, ModerationAction } from '@/components/ReportQueue';
+import { EmailOutbox } from '@/components/EmailOutbox';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import {
@@ -17,6 +21,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select"
+import { format } from 'date-fns';
 
 export default function AdminDashboard() {
   const { user, profile, loading } = useAuth();
@@ -33,6 +38,8 @@ export default function AdminDashboard() {
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const [sortBy, setSortBy] = useState('newest');
+  const [openReports, setOpenReports] = useState(0);
+  const [failedEmails, setFailedEmails] = useState(0);
 
   if (loading) {
     return (
@@ -65,13 +72,19 @@ export default function AdminDashboard() {
         .from('blogs')
         .select(`
           *,
-          profiles!blogs_author_id_fkey(full_name, username, avatar_url)
+          profiles!blogs_author_id_fkey(full_name, username, avatar_url),
+          blog_pending_changes ( changes )
         `)
+        .neq('status', 'draft')
         .order('created_at', { ascending: false });
 
       if (error) throw error;
       
-      setBlogs(data || []);
+      // Staged edits live in their own table; the cards expect them on the blog
+      setBlogs((data || []).map(({ blog_pending_changes, ...blog }) => ({
+        ...blog,
+        pending_changes: blog_pending_changes?.changes ?? null,
+      })));
     } catch (error) {
       console.error('Error fetching blogs:', error);
       toast({
@@ -86,21 +99,27 @@ export default function AdminDashboard() {
 
   const fetchStats = async () => {
     try {
-      const [blogsCount, pendingCount, usersCount, viewsSum] = await Promise.all([
-        supabase.from('blogs').select('id', { count: 'exact' }),
+      const [blogsCount, pendingCount, pendingChangesCount, usersCount, viewsSum, reportsCount, failedEmailsCount] = await Promise.all([
+        supabase.from('blogs').select('id', { count: 'exact' }).neq('status', 'draft'),
         supabase.from('blogs').select('id', { count: 'exact' }).eq('status', 'pending'),
+        // Published articles with staged edits wait in the same review queue
+        supabase.from('blog_pending_changes').select('blog_id, blogs!inner ( status )', { count: 'exact', head: true }).eq('blogs.status', 'approved'),
         supabase.from('profiles').select('id', { count: 'exact' }),
-        supabase.from('blogs').select('views_count')
+        supabase.from('blogs').select('views_count').neq('status', 'draft'),
+        supabase.from('reports').select('id', { count: 'exact', head: true }).eq('status', 'open'),
+        supabase.from('email_outbox').select('id', { count: 'exact', head: true }).eq('status', 'dead')
       ]);
 
       const totalViews = viewsSum.data?.reduce((sum, blog) => sum + (blog.views_count || 0), 0) || 0;
 
       setStats({
         totalBlogs: blogsCount.count || 0,
-        pendingReview: pendingCount.count || 0,
+        pendingReview: (pendingCount.count || 0) + (pendingChangesCount.count || 0),
         totalUsers: usersCount.count || 0,
         totalViews
       });
+      setOpenReports(reportsCount.count || 0);
+      setFailedEmails(failedEmailsCount.count || 0);
     } catch (error) {
       console.error('Error fetching stats:', error);
     }
@@ -143,45 +162,30 @@ export default function AdminDashboard() {
     setFilteredBlogs(result);
   };
 
-  const updateBlogStatus = async (blogId: string, status: string) => {
+  const updateBlogStatus = async (blogId: string, status: string, publishAt?: string | null) => {
     try {
+      const publishedAt = status === 'approved' ? publishAt || new Date().toISOString() : null;
+      const isScheduled = !!publishAt && new Date(publishAt) > new Date();
+
       const { error } = await supabase
         .from('blogs')
         .update({ 
           status,
-          published_at: status === 'approved' ? new Date().toISOString() : null
+          published_at: publishedAt
         })
         .eq('id', blogId);
 
       if (error) throw error;
 
       setBlogs(blogs.map(blog => 
-        blog.id === blogId ? { ...blog, status } : blog
+        blog.id === blogId ? { ...blog, status, published_at: publishedAt } : blog
       ));
 
-      // Send notification when blog is approved
-      if (status === 'approved') {
-        const blog = blogs.find(b => b.id === blogId);
-        if (blog?.profiles) {
-          try {
-            await supabase.functions.invoke('send-notifications', {
-              body: {
-                type: 'blog_approved',
-                recipientEmail: blog.profiles.email,
-                recipientName: blog.profiles.full_name || blog.profiles.username || 'User',
-                blogTitle: blog.title,
-                blogSlug: blog.slug
-              }
-            });
-          } catch (notificationError) {
-            console.error('Failed to send notification:', notificationError);
-          }
-        }
-      }
-
       toast({
         title: "Status updated",
-        description: `Blog ${status} successfully.`,
+        description: isScheduled
+          ? `Blog scheduled for ${format(new Date(publishAt), 'MMM dd, yyyy HH:mm')}.`
+          : `Blog ${status} successfully.`,
       });
       
       // Refresh stats after status change
@@ -196,6 +200,121 @@ export default function AdminDashboard() {
     }
   };
 
+  const rejectBlog = async (blogId: string, review: RejectionInput) => {
+    try {
+      // Status change and the review entry go through one call so a rejection always carries its reason
+      const { error } = await supabase.rpc('reject_blog', {
+        _blog_id: blogId,
+        _reason: review.reason,
+        _feedback: review.feedback,
+        _notes: review.notes,
+      });
+
+      if (error) throw error;
+
+      setBlogs(blogs.map(blog =>
+        blog.id === blogId ? { ...blog, status: 'rejected', published_at: null } : blog
+      ));
+
+      toast({
+        title: "Status updated",
+        description: "The author has been sent your feedback.",
+      });
+
+      fetchStats();
+      return true;
+    } catch (error) {
+      console.error('Error rejecting blog:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to reject blog.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const approvePendingChanges = async (blogId: string) => {
+    const blog = blogs.find(b => b.id === blogId);
+    if (!blog?.pending_changes) return;
+
+    try {
+      const { error } = await supabase.rpc('apply_pending_changes', { _blog_id: blogId });
+
+      if (error) throw error;
+
+      setBlogs(blogs.map(b =>
+        b.id === blogId ? { ...b, ...b.pending_changes, pending_changes: null } : b
+      ));
+
+      toast({
+        title: "Changes approved",
+        description: "The published article now shows the updated version.",
+      });
+      fetchStats();
+    } catch (error) {
+      console.error('Error reviewing changes:', error);
+      toast({
+        title: "Error",
+        description: "Failed to review article changes.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const rejectPendingChanges = async (blogId: string, review: RejectionInput) => {
+    try {
+      // Discarding the edits, the review entry and the author's notification happen in one call
+      const { error } = await supabase.rpc('reject_pending_changes', {
+        _blog_id: blogId,
+        _reason: review.reason,
+        _feedback: review.feedback,
+        _notes: review.notes,
+      });
+
+      if (error) throw error;
+
+      setBlogs(blogs.map(b =>
+        b.id === blogId ? { ...b, pending_changes: null } : b
+      ));
+
+      toast({
+        title: "Changes discarded",
+        description: "The published article was left unchanged and the author has been sent your feedback.",
+      });
+      fetchStats();
+      return true;
+    } catch (error) {
+      console.error('Error rejecting changes:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to review article changes.",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  // Keep the article tabs in step with moderation decisions made from the reports queue
+  const handleReportResolved = (report: { blog_id: string | null; comment_id: string | null }, action: ModerationAction) => {
+    if (!report.comment_id && report.blog_id && action !== 'dismiss') {
+      setBlogs(prev => action === 'delete'
+        ? prev.filter(blog => blog.id !== report.blog_id)
+        : prev.map(blog => blog.id === report.blog_id ? { ...blog, status: 'hidden' } : blog)
+      );
+    }
+    fetchStats();
+  };
+
+  const isAwaitingReview = (blog: typeof blogs[number]) =>
+    blog.status === 'pending' || (blog.status === 'approved' && !!blog.pending_changes);
+
+  const matchesStatusTab = (blog: typeof blogs[number], tab: string) => {
+    if (tab === 'all') return true;
+    if (tab === 'pending') return isAwaitingReview(blog);
+    return blog.status === tab;
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'pending': return <AlertCircle className="w-4 h-4 text-amber-500" />;
@@ -286,12 +405,12 @@ export default function AdminDashboard() {
           </div>
 
           <Tabs defaultValue="pending" className="w-full">
-            <TabsList className="grid grid-cols-4 w-full md:w-auto">
+            <TabsList className="grid grid-cols-6 w-full md:w-auto">
               <TabsTrigger value="pending" className="flex items-center gap-2">
                 {getStatusIcon('pending')}
                 Pending
                 <Badge variant="secondary" className="ml-1">
-                  {blogs.filter(b => b.status === 'pending').length}
+                  {blogs.filter(isAwaitingReview).length}
                 </Badge>
               </TabsTrigger>
               <TabsTrigger value="approved" className="flex items-center gap-2">
@@ -314,22 +433,41 @@ export default function AdminDashboard() {
                   {blogs.length}
                 </Badge>
               </TabsTrigger>
+              <TabsTrigger value="reports" className="flex items-center gap-2">
+                <Flag className="w-4 h-4 text-destructive" />
+                Reports
+                <Badge variant={openReports > 0 ? "destructive" : "secondary"} className="ml-1">
+                  {openReports}
+                </Badge>
+              </TabsTrigger>
+              <TabsTrigger value="emails" className="flex items-center gap-2">
+                <Mail className="w-4 h-4" />
+                Emails
+                {failedEmails > 0 && (
+                  <Badge variant="destructive" className="ml-1">
+                    {failedEmails}
+                  </Badge>
+                )}
+              </TabsTrigger>
             </TabsList>
 
             {['pending', 'approved', 'rejected', 'all'].map(status => (
               <TabsContent key={status} value={status} className="mt-6 space-y-4">
                 {filteredBlogs
-                  .filter(blog => status === 'all' || blog.status === status)
+                  .filter(blog => matchesStatusTab(blog, status))
                   .map(blog => (
                     <BlogCard 
                       key={blog.id} 
                       blog={blog} 
                       onStatusUpdate={updateBlogStatus} 
+                      onChangesApprove={approvePendingChanges}
+                      onChangesReject={rejectPendingChanges}
+                      onReject={rejectBlog}
                     />
                   ))
                 }
                 
-                {filteredBlogs.filter(blog => status === 'all' || blog.status === status).length === 0 && (
+                {filteredBlogs.filter(blog => matchesStatusTab(blog, status)).length === 0 && (
                   <div className="text-center py-12 bg-muted/20 rounded-lg">
                     <div className="mx-auto w-16 h-16 flex items-center justify-center bg-muted rounded-full mb-4">
                       <Search className="w-8 h-8 text-muted-foreground" />
@@ -345,8 +483,21 @@ export default function AdminDashboard() {
                 )}
               </TabsContent>
             ))}
+
+            <TabsContent value="reports" className="mt-6">
+              <ReportQueue onResolved={handleReportResolved} />
+            </TabsContent>
+
+            <TabsContent value="emails" className="mt-6">
+              <EmailOutbox onChanged={fetchStats} />
+            </TabsContent>
           </Tabs>
         </div>
+
+        {/* Tag Management */}
+        <div className="bg-white p-6 rounded-xl shadow-sm border">
+          <TagManager />
+        </div>
       </div>
     </div>
   );
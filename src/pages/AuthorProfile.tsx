@@ -0,0 +1,273 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Skeleton } from '@/components/ui/skeleton';
+import BlogCard from '@/components/BlogCard';
+import { FollowButton } from '@/components/FollowButton';
+import { ArrowLeft, ArrowRight, Calendar, Eye, FileText, Heart, User } from 'lucide-react';
+import { format } from 'date-fns';
+
+const PAGE_SIZE = 6;
+
+interface AuthorProfileData {
+  id: string;
+  username: string | null;
+  full_name: string | null;
+  avatar_url: string | null;
+  bio: string | null;
+  created_at: string;
+}
+
+interface AuthorBlog {
+  id: string;
+  title: string;
+  excerpt: string | null;
+  slug: string;
+  status: string | null;
+  tags: string[] | null;
+  likes_count: number | null;
+  views_count: number | null;
+  created_at: string;
+  published_at: string | null;
+}
+
+export default function AuthorProfile() {
+  const { username } = useParams();
+  const navigate = useNavigate();
+  const [author, setAuthor] = useState<AuthorProfileData | null>(null);
+  const [blogs, setBlogs] = useState<AuthorBlog[]>([]);
+  const [stats, setStats] = useState({ articles: 0, views: 0, likes: 0, followers: 0, following: 0 });
+  const [page, setPage] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [loadingBlogs, setLoadingBlogs] = useState(true);
+
+  const fetchAuthor = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, username, full_name, avatar_url, bio, created_at')
+        .eq('username', username)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      setAuthor(data);
+
+      if (data) {
+        // Totals cover every published post, not just the current page
+        const [publishedResult, followersResult, followingResult] = await Promise.all([
+          supabase
+            .from('blogs')
+            .select('views_count, likes_count')
+            .eq('author_id', data.id)
+            .eq('status', 'approved')
+            .lte('published_at', new Date().toISOString()),
+          supabase.from('follows').select('id', { count: 'exact', head: true }).eq('following_id', data.id),
+          supabase.from('follows').select('id', { count: 'exact', head: true }).eq('follower_id', data.id),
+        ]);
+
+        if (publishedResult.error) throw publishedResult.error;
+
+        const published = publishedResult.data;
+        setStats({
+          articles: published.length,
+          views: published.reduce((sum, blog) => sum + (blog.views_count || 0), 0),
+          likes: published.reduce((sum, blog) => sum + (blog.likes_count || 0), 0),
+          followers: followersResult.count || 0,
+          following: followingResult.count || 0,
+        });
+      }
+    } catch (error) {
+      console.error('Error fetching author:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [username]);
+
+  const authorId = author?.id;
+
+  const fetchBlogs = useCallback(async () => {
+    if (!authorId) return;
+
+    setLoadingBlogs(true);
+    try {
+      const { data, error } = await supabase
+        .from('blogs')
+        .select('id, title, excerpt, slug, status, tags, likes_count, views_count, created_at, published_at')
+        .eq('author_id', authorId)
+        .eq('status', 'approved')
+        .lte('published_at', new Date().toISOString())
+        .order('published_at', { ascending: false })
+        .range(page * PAGE_SIZE, page * PAGE_SIZE + PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      setBlogs(data || []);
+    } catch (error) {
+      console.error('Error fetching author blogs:', error);
+    } finally {
+      setLoadingBlogs(false);
+    }
+  }, [authorId, page]);
+
+  useEffect(() => {
+    setPage(0);
+    fetchAuthor();
+  }, [fetchAuthor]);
+
+  useEffect(() => {
+    fetchBlogs();
+  }, [fetchBlogs]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50/30 py-8">
+        <div className="container max-w-4xl mx-auto px-4">
+          <div className="flex items-center space-x-6 mb-8">
+            <Skeleton className="h-24 w-24 rounded-full" />
+            <div className="space-y-3">
+              <Skeleton className="h-8 w-48" />
+              <Skeleton className="h-4 w-32" />
+            </div>
+          </div>
+          <Skeleton className="h-32 w-full" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!author) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-4">Author not found</h1>
+          <Button onClick={() => navigate('/')}>
+            <ArrowLeft className="mr-2 w-4 h-4" />
+            Back to Home
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const displayName = author.full_name || author.username || 'Anonymous';
+  const totalPages = Math.max(1, Math.ceil(stats.articles / PAGE_SIZE));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50/30 py-8">
+      <div className="container max-w-4xl mx-auto px-4">
+        <Button variant="ghost" onClick={() => navigate(-1)} className="mb-6 flex items-center gap-2">
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </Button>
+
+        {/* Author Header */}
+        <Card className="mb-8 border-0 bg-gradient-to-br from-white to-blue-50/50 shadow-sm">
+          <CardContent className="p-6">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-6">
+              <Avatar className="h-24 w-24 border-2 border-white shadow-md">
+                <AvatarImage src={author.avatar_url || undefined} />
+                <AvatarFallback className="bg-gradient-to-br from-blue-500 to-purple-500 text-white text-2xl">
+                  {author.full_name?.charAt(0) || <User className="w-8 h-8" />}
+                </AvatarFallback>
+              </Avatar>
+              <div className="flex-1">
+                <h1 className="text-3xl font-bold">{displayName}</h1>
+                {author.username && <p className="text-muted-foreground">@{author.username}</p>}
+                <div className="flex items-center gap-4 mt-2 text-sm">
+                  <span>
+                    <span className="font-semibold">{stats.followers}</span>{' '}
+                    <span className="text-muted-foreground">{stats.followers === 1 ? 'follower' : 'followers'}</span>
+                  </span>
+                  <span>
+                    <span className="font-semibold">{stats.following}</span>{' '}
+                    <span className="text-muted-foreground">following</span>
+                  </span>
+                </div>
+                {author.bio && <p className="mt-3 text-foreground/90 leading-relaxed">{author.bio}</p>}
+                <p className="mt-3 text-sm text-muted-foreground flex items-center gap-1">
+                  <Calendar className="w-4 h-4" />
+                  Joined {format(new Date(author.created_at), 'MMMM yyyy')}
+                </p>
+              </div>
+              <FollowButton
+                profileId={author.id}
+                size="default"
+                onFollowChange={(following) =>
+                  setStats(prev => ({ ...prev, followers: prev.followers + (following ? 1 : -1) }))
+                }
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4 mt-6 pt-6 border-t text-center">
+              <div>
+                <p className="text-2xl font-bold flex items-center justify-center gap-1">
+                  <FileText className="w-5 h-5 text-muted-foreground" />
+                  {stats.articles}
+                </p>
+                <p className="text-sm text-muted-foreground">Articles</p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold flex items-center justify-center gap-1">
+                  <Eye className="w-5 h-5 text-muted-foreground" />
+                  {stats.views}
+                </p>
+                <p className="text-sm text-muted-foreground">Views</p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold flex items-center justify-center gap-1">
+                  <Heart className="w-5 h-5 text-muted-foreground" />
+                  {stats.likes}
+                </p>
+                <p className="text-sm text-muted-foreground">Likes</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Articles */}
+        <h2 className="text-2xl font-bold mb-6">Articles by {displayName}</h2>
+        {loadingBlogs ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : blogs.length === 0 ? (
+          <div className="text-center py-12">
+            <FileText className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+            <p className="text-muted-foreground">{displayName} hasn't published any articles yet.</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {blogs.map(blog => (
+              <BlogCard key={blog.id} blog={{ ...blog, profiles: author }} />
+            ))}
+          </div>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-between mt-8">
+            <Button variant="outline" onClick={() => setPage(p => p - 1)} disabled={page === 0 || loadingBlogs}>
+              <ArrowLeft className="mr-2 w-4 h-4" />
+              Previous
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              Page {page + 1} of {totalPages}
+            </span>
+            <Button
+              variant="outline"
+              onClick={() => setPage(p => p + 1)}
+              disabled={page + 1 >= totalPages || loadingBlogs}
+            >
+              Next
+              <ArrowRight className="ml-2 w-4 h-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Separator } from '@/components/ui/separator';
 import { Card, CardContent } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import { 
   ArrowLeft, 
   Heart, 
@@ -19,9 +20,15 @@ import {
   Bookmark,
   BookmarkCheck,
   Calendar,
+  Flag,
   User
 } from 'lucide-react';
 import { CommentSection } from '@/components/CommentSection';
+import { MarkdownRenderer } from '@/components/MarkdownRenderer';
+import { AuthorLink } from '@/components/AuthorLink';
+import { FollowButton } from '@/components/FollowButton';
+import { TagLink } from '@/components/TagLink';
+import { ReportDialog, ReportTarget } from '@/components/ReportDialog';
 import { format, formatDistanceToNow } from 'date-fns';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -48,10 +55,26 @@ interface Blog {
   };
 }
 
+const VISITOR_ID_KEY = 'visitor_id';
+
+// Anonymous readers get a random id so repeat visits are not counted as new views
+const getVisitorId = () => {
+  try {
+    let visitorId = localStorage.getItem(VISITOR_ID_KEY);
+    if (!visitorId) {
+      visitorId = crypto.randomUUID();
+      localStorage.setItem(VISITOR_ID_KEY, visitorId);
+    }
+    return visitorId;
+  } catch {
+    return undefined;
+  }
+};
+
 export default function BlogView() {
   const { slug } = useParams();
   const navigate = useNavigate();
-  const { user } = useAuth();
+  const { user, profile, loading: authLoading } = useAuth();
   const { toast } = useToast();
   const [blog, setBlog] = useState<Blog | null>(null);
   const [loading, setLoading] = useState(true);
@@ -60,15 +83,77 @@ export default function BlogView() {
   const [likesCount, setLikesCount] = useState(0);
   const [summary, setSummary] = useState<string>('');
   const [summaryLoading, setSummaryLoading] = useState(false);
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
 
   useEffect(() => {
     fetchBlog();
     if (user) {
       checkIfLiked();
-      checkIfBookmarked();
     }
   }, [slug, user]);
 
+  useEffect(() => {
+    const checkIfBookmarked = async () => {
+      if (!blog?.id || !profile?.id) return;
+
+      const { data } = await supabase
+        .from('bookmarks')
+        .select('id')
+        .eq('blog_id', blog.id)
+        .eq('user_id', profile.id)
+        .maybeSingle();
+
+      setIsBookmarked(!!data);
+    };
+
+    checkIfBookmarked();
+  }, [blog?.id, profile?.id]);
+
+  // Wait for the session so a signed-in reader is not also counted as anonymous
+  useEffect(() => {
+    const recordView = async () => {
+      if (!blog?.id || authLoading) return;
+
+      const { data, error } = await supabase.rpc('record_blog_view', {
+        _blog_id: blog.id,
+        _visitor_id: getVisitorId(),
+      });
+
+      if (error) {
+        console.error('Error recording view:', error);
+        return;
+      }
+
+      if (typeof data === 'number') {
+        setBlog(prev => (prev ? { ...prev, views_count: data } : prev));
+      }
+    };
+
+    recordView();
+  }, [blog?.id, authLoading]);
+
+  // Keep likes, views and comment totals live for everyone reading the article
+  useEffect(() => {
+    if (!blog?.id) return;
+
+    const channel = supabase
+      .channel(`blog-stats:${blog.id}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'blogs', filter: `id=eq.${blog.id}` },
+        (payload) => {
+          const { likes_count, views_count, comments_count } = payload.new as Blog;
+          setLikesCount(likes_count || 0);
+          setBlog(prev => (prev ? { ...prev, likes_count, views_count, comments_count } : prev));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [blog?.id]);
+
   const fetchBlog = async () => {
     try {
       const { data, error } = await supabase
@@ -83,19 +168,13 @@ export default function BlogView() {
         `)
         .eq('slug', slug)
         .eq('status', 'approved')
+        .lte('published_at', new Date().toISOString())
         .single();
 
       if (error) throw error;
       
       setBlog(data);
       setLikesCount(data.likes_count || 0);
-      
-      // Increment view count
-      await supabase
-        .from('blogs')
-        .update({ views_count: (data.views_count || 0) + 1 })
-        .eq('id', data.id);
-
     } catch (error: any) {
       toast({
         title: "Error",
@@ -121,19 +200,6 @@ export default function BlogView() {
     setIsLiked(!!data);
   };
 
-  const checkIfBookmarked = async () => {
-    if (!blog || !user) return;
-    
-    const { data } = await supabase
-      .from('bookmarks')
-      .select('id')
-      .eq('blog_id', blog.id)
-      .eq('user_id', user.id)
-      .single();
-    
-    setIsBookmarked(!!data);
-  };
-
   const handleLike = async () => {
     if (!user) {
       toast({
@@ -180,7 +246,7 @@ export default function BlogView() {
   };
 
   const handleBookmark = async () => {
-    if (!user) {
+    if (!user || !profile) {
       toast({
         title: "Sign in required",
         description: "Please sign in to bookmark posts.",
@@ -193,11 +259,13 @@ export default function BlogView() {
     try {
       if (isBookmarked) {
         // Remove bookmark
-        await supabase
+        const { error } = await supabase
           .from('bookmarks')
           .delete()
           .eq('blog_id', blog.id)
-          .eq('user_id', user.id);
+          .eq('user_id', profile.id);
+
+        if (error) throw error;
         
         setIsBookmarked(false);
         toast({
@@ -206,14 +274,21 @@ export default function BlogView() {
         });
       } else {
         // Add bookmark
-        await supabase
+        const { error } = await supabase
           .from('bookmarks')
-          .insert({ blog_id: blog.id, user_id: user.id });
+          .insert({ blog_id: blog.id, user_id: profile.id });
+
+        if (error) throw error;
         
         setIsBookmarked(true);
         toast({
           title: "Bookmarked!",
-          description: "Article added to your bookmarks.",
+          description: "Article added to your reading list.",
+          action: (
+            <ToastAction altText="Open reading list" onClick={() => navigate('/bookmarks')}>
+              View
+            </ToastAction>
+          ),
         });
       }
     } catch (error: any) {
@@ -225,6 +300,20 @@ export default function BlogView() {
     }
   };
 
+  const handleReport = () => {
+    if (!user || !profile) {
+      toast({
+        title: "Sign in required",
+        description: "Please sign in to report articles.",
+      });
+      return;
+    }
+
+    if (!blog) return;
+
+    setReportTarget({ blogId: blog.id });
+  };
+
   const handleShare = async () => {
     if (navigator.share) {
       try {
@@ -340,13 +429,14 @@ export default function BlogView() {
           <header className="mb-8">
             <div className="flex flex-wrap gap-2 mb-4">
               {blog.tags?.map((tag) => (
-                <Badge 
-                  key={tag} 
-                  variant="secondary"
-                  className="bg-blue-100 text-blue-800 hover:bg-blue-200 border-0"
-                >
-                  #{tag}
-                </Badge>
+                <TagLink key={tag} tag={tag}>
+                  <Badge 
+                    variant="secondary"
+                    className="bg-blue-100 text-blue-800 hover:bg-blue-200 border-0"
+                  >
+                    #{tag}
+                  </Badge>
+                </TagLink>
               ))}
             </div>
 
@@ -360,14 +450,16 @@ export default function BlogView() {
 
             <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-6">
               <div className="flex items-center space-x-4">
-                <Avatar className="h-12 w-12 border-2 border-white shadow-md">
-                  <AvatarImage src={blog.profiles.avatar_url} />
-                  <AvatarFallback className="bg-gradient-to-br from-blue-500 to-purple-500 text-white">
-                    {blog.profiles.full_name?.charAt(0) || <User className="w-6 h-6" />}
-                  </AvatarFallback>
-                </Avatar>
+                <AuthorLink profile={blog.profiles}>
+                  <Avatar className="h-12 w-12 border-2 border-white shadow-md">
+                    <AvatarImage src={blog.profiles.avatar_url} />
+                    <AvatarFallback className="bg-gradient-to-br from-blue-500 to-purple-500 text-white">
+                      {blog.profiles.full_name?.charAt(0) || <User className="w-6 h-6" />}
+                    </AvatarFallback>
+                  </Avatar>
+                </AuthorLink>
                 <div>
-                  <p className="font-semibold text-foreground">{blog.profiles.full_name}</p>
+                  <AuthorLink profile={blog.profiles} className="font-semibold text-foreground" />
                   <div className="flex items-center text-sm text-muted-foreground space-x-4">
                     <span className="flex items-center gap-1">
                       <Calendar className="w-4 h-4" />
@@ -421,10 +513,8 @@ export default function BlogView() {
         </div>
 
         {/* Article Content */}
-        <article className="prose prose-lg max-w-none mb-12">
-          <div className="whitespace-pre-wrap leading-relaxed text-foreground/90">
-            {blog.content}
-          </div>
+        <article className="mb-12">
+          <MarkdownRenderer content={blog.content} className="prose-lg text-foreground/90" />
         </article>
 
         {/* Article Actions */}
@@ -488,22 +578,39 @@ export default function BlogView() {
             )}
             {isBookmarked ? 'Bookmarked' : 'Bookmark'}
           </Button>
+
+          {blog.author_id !== profile?.id && (
+            <Button
+              variant="ghost"
+              onClick={handleReport}
+              className="flex items-center gap-2 text-muted-foreground"
+            >
+              <Flag className="w-4 h-4" />
+              Report
+            </Button>
+          )}
         </div>
 
+        <ReportDialog target={reportTarget} onClose={() => setReportTarget(null)} />
+
         <Separator className="mb-8" />
 
         {/* Author Card */}
         <Card className="mb-8 border-0 bg-gradient-to-br from-white to-blue-50/50 shadow-sm">
           <CardContent className="p-6">
             <div className="flex items-center space-x-4">
-              <Avatar className="h-16 w-16 border-2 border-white shadow-md">
-                <AvatarImage src={blog.profiles.avatar_url} />
-                <AvatarFallback className="bg-gradient-to-br from-blue-500 to-purple-500 text-white">
-                  {blog.profiles.full_name?.charAt(0) || <User className="w-6 h-6" />}
-                </AvatarFallback>
-              </Avatar>
-              <div>
-                <h3 className="font-semibold text-lg">{blog.profiles.full_name}</h3>
+              <AuthorLink profile={blog.profiles}>
+                <Avatar className="h-16 w-16 border-2 border-white shadow-md">
+                  <AvatarImage src={blog.profiles.avatar_url} />
+                  <AvatarFallback className="bg-gradient-to-br from-blue-500 to-purple-500 text-white">
+                    {blog.profiles.full_name?.charAt(0) || <User className="w-6 h-6" />}
+                  </AvatarFallback>
+                </Avatar>
+              </AuthorLink>
+              <div className="flex-1">
+                <h3 className="font-semibold text-lg">
+                  <AuthorLink profile={blog.profiles} />
+                </h3>
                 <p className="text-muted-foreground mb-2">Article published {formatDistanceToNow(new Date(blog.published_at), { addSuffix: true })}</p>
                 <div className="flex items-center space-x-4 text-sm text-muted-foreground">
                   <span className="flex items-center gap-1">
@@ -520,12 +627,13 @@ export default function BlogView() {
                   </span>
                 </div>
               </div>
+              <FollowButton profileId={blog.author_id} />
             </div>
           </CardContent>
         </Card>
 
         {/* Comments Section */}
-        <CommentSection blogId={blog.id} />
+        <CommentSection blogId={blog.id} blogAuthorId={blog.author_id} />
       </div>
     </div>
   );
@@ -0,0 +1,523 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { AuthorLink } from '@/components/AuthorLink';
+import {
+  Bookmark,
+  BookmarkX,
+  Clock,
+  Folder,
+  FolderPlus,
+  Inbox,
+  Library,
+  MoreHorizontal,
+  Pencil,
+  Trash2,
+} from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+
+interface BookmarkFolder {
+  id: string;
+  name: string;
+}
+
+interface SavedBookmark {
+  id: string;
+  folder_id: string | null;
+  created_at: string;
+  blogs: {
+    id: string;
+    title: string;
+    excerpt: string | null;
+    slug: string;
+    cover_image_url: string | null;
+    reading_time: number | null;
+    published_at: string | null;
+    profiles: {
+      full_name?: string;
+      username?: string;
+    } | null;
+  } | null;
+}
+
+type SortOption = 'saved_desc' | 'saved_asc' | 'published_desc' | 'title';
+
+const ALL_FOLDERS = 'all';
+const UNFILED = 'unfiled';
+
+const sortLabels: Record<SortOption, string> = {
+  saved_desc: 'Recently saved',
+  saved_asc: 'Oldest saved',
+  published_desc: 'Newest articles',
+  title: 'Title (A–Z)',
+};
+
+const compareBookmarks = (sort: SortOption) => (a: SavedBookmark, b: SavedBookmark) => {
+  switch (sort) {
+    case 'saved_asc':
+      return a.created_at.localeCompare(b.created_at);
+    case 'published_desc':
+      return (b.blogs?.published_at || '').localeCompare(a.blogs?.published_at || '');
+    case 'title':
+      return (a.blogs?.title || '').localeCompare(b.blogs?.title || '');
+    default:
+      return b.created_at.localeCompare(a.created_at);
+  }
+};
+
+export default function Bookmarks() {
+  const { user, profile, loading } = useAuth();
+  const { toast } = useToast();
+  const [bookmarks, setBookmarks] = useState<SavedBookmark[]>([]);
+  const [folders, setFolders] = useState<BookmarkFolder[]>([]);
+  const [loadingBookmarks, setLoadingBookmarks] = useState(true);
+  const [activeFolder, setActiveFolder] = useState(ALL_FOLDERS);
+  const [sort, setSort] = useState<SortOption>('saved_desc');
+  const [folderDialogOpen, setFolderDialogOpen] = useState(false);
+  const [editingFolder, setEditingFolder] = useState<BookmarkFolder | null>(null);
+  const [folderName, setFolderName] = useState('');
+
+  // Keyed on the id so profile edits elsewhere don't reload the list
+  const profileId = profile?.id;
+
+  const fetchReadingList = useCallback(async () => {
+    if (!profileId) return;
+
+    try {
+      const [bookmarksResult, foldersResult] = await Promise.all([
+        supabase
+          .from('bookmarks')
+          .select(`
+            id,
+            folder_id,
+            created_at,
+            blogs (
+              id,
+              title,
+              excerpt,
+              slug,
+              cover_image_url,
+              reading_time,
+              published_at,
+              profiles:author_id (
+                full_name,
+                username
+              )
+            )
+          `)
+          .eq('user_id', profileId)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('bookmark_folders')
+          .select('id, name')
+          .eq('user_id', profileId)
+          .order('name'),
+      ]);
+
+      if (bookmarksResult.error) throw bookmarksResult.error;
+      if (foldersResult.error) throw foldersResult.error;
+
+      setBookmarks((bookmarksResult.data || []) as SavedBookmark[]);
+      setFolders(foldersResult.data || []);
+    } catch (error) {
+      console.error('Error fetching reading list:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load your reading list.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingBookmarks(false);
+    }
+  }, [profileId, toast]);
+
+  useEffect(() => {
+    fetchReadingList();
+  }, [fetchReadingList]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const removeBookmark = async (bookmarkId: string) => {
+    try {
+      const { error } = await supabase
+        .from('bookmarks')
+        .delete()
+        .eq('id', bookmarkId);
+
+      if (error) throw error;
+
+      setBookmarks(prev => prev.filter(b => b.id !== bookmarkId));
+      toast({
+        title: "Bookmark removed",
+        description: "Article removed from your reading list.",
+      });
+    } catch (error) {
+      console.error('Error removing bookmark:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove bookmark.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const moveBookmark = async (bookmarkId: string, folderId: string | null) => {
+    try {
+      const { error } = await supabase
+        .from('bookmarks')
+        .update({ folder_id: folderId })
+        .eq('id', bookmarkId);
+
+      if (error) throw error;
+
+      setBookmarks(prev => prev.map(b => (b.id === bookmarkId ? { ...b, folder_id: folderId } : b)));
+    } catch (error) {
+      console.error('Error moving bookmark:', error);
+      toast({
+        title: "Error",
+        description: "Failed to move bookmark.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openFolderDialog = (folder?: BookmarkFolder) => {
+    setEditingFolder(folder || null);
+    setFolderName(folder?.name || '');
+    setFolderDialogOpen(true);
+  };
+
+  const saveFolder = async () => {
+    const name = folderName.trim();
+    if (!name || !profile) return;
+
+    try {
+      if (editingFolder) {
+        const { error } = await supabase
+          .from('bookmark_folders')
+          .update({ name })
+          .eq('id', editingFolder.id);
+
+        if (error) throw error;
+
+        setFolders(prev => prev.map(f => (f.id === editingFolder.id ? { ...f, name } : f)));
+      } else {
+        const { data, error } = await supabase
+          .from('bookmark_folders')
+          .insert({ name, user_id: profile.id })
+          .select('id, name')
+          .single();
+
+        if (error) throw error;
+
+        setFolders(prev => [...prev, data].sort((a, b) => a.name.localeCompare(b.name)));
+        setActiveFolder(data.id);
+      }
+
+      setFolderDialogOpen(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as { code?: string }).code === '23505' ? "You already have a folder with that name." : "Failed to save folder.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deleteFolder = async (folder: BookmarkFolder) => {
+    try {
+      const { error } = await supabase
+        .from('bookmark_folders')
+        .delete()
+        .eq('id', folder.id);
+
+      if (error) throw error;
+
+      // Bookmarks in a deleted folder fall back to unfiled
+      setFolders(prev => prev.filter(f => f.id !== folder.id));
+      setBookmarks(prev => prev.map(b => (b.folder_id === folder.id ? { ...b, folder_id: null } : b)));
+      if (activeFolder === folder.id) setActiveFolder(ALL_FOLDERS);
+
+      toast({
+        title: "Folder deleted",
+        description: `Articles in "${folder.name}" were moved to Unfiled.`,
+      });
+    } catch (error) {
+      console.error('Error deleting folder:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete folder.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const countInFolder = (folderId: string | null) => bookmarks.filter(b => b.folder_id === folderId).length;
+
+  const visibleBookmarks = bookmarks
+    .filter(b =>
+      activeFolder === ALL_FOLDERS ? true : activeFolder === UNFILED ? !b.folder_id : b.folder_id === activeFolder
+    )
+    .sort(compareBookmarks(sort));
+
+  const activeFolderName =
+    activeFolder === ALL_FOLDERS
+      ? 'All saved'
+      : activeFolder === UNFILED
+      ? 'Unfiled'
+      : folders.find(f => f.id === activeFolder)?.name;
+
+  const folderButtonClass = (value: string) =>
+    `w-full justify-between ${activeFolder === value ? 'bg-blue-50 text-blue-600' : 'text-muted-foreground'}`;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50/30">
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold mb-2 flex items-center gap-2">
+            <Library className="w-7 h-7" />
+            Reading List
+          </h1>
+          <p className="text-muted-foreground">Articles you saved to read later</p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+          {/* Folders */}
+          <Card className="border-0 shadow-sm h-fit">
+            <CardHeader className="pb-3">
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-lg">Folders</CardTitle>
+                <Button variant="ghost" size="sm" onClick={() => openFolderDialog()} title="New folder">
+                  <FolderPlus className="w-4 h-4" />
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-1">
+              <Button variant="ghost" className={folderButtonClass(ALL_FOLDERS)} onClick={() => setActiveFolder(ALL_FOLDERS)}>
+                <span className="flex items-center gap-2">
+                  <Bookmark className="w-4 h-4" />
+                  All saved
+                </span>
+                <span className="text-xs">{bookmarks.length}</span>
+              </Button>
+              <Button variant="ghost" className={folderButtonClass(UNFILED)} onClick={() => setActiveFolder(UNFILED)}>
+                <span className="flex items-center gap-2">
+                  <Inbox className="w-4 h-4" />
+                  Unfiled
+                </span>
+                <span className="text-xs">{countInFolder(null)}</span>
+              </Button>
+              {folders.map(folder => (
+                <div key={folder.id} className="flex items-center">
+                  <Button variant="ghost" className={folderButtonClass(folder.id)} onClick={() => setActiveFolder(folder.id)}>
+                    <span className="flex items-center gap-2 truncate">
+                      <Folder className="w-4 h-4 shrink-0" />
+                      <span className="truncate">{folder.name}</span>
+                    </span>
+                    <span className="text-xs">{countInFolder(folder.id)}</span>
+                  </Button>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="sm" className="h-8 w-8 p-0 shrink-0">
+                        <MoreHorizontal className="w-4 h-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={() => openFolderDialog(folder)} className="cursor-pointer">
+                        <Pencil className="mr-2 w-4 h-4" />
+                        Rename
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => deleteFolder(folder)} className="text-destructive cursor-pointer">
+                        <Trash2 className="mr-2 w-4 h-4" />
+                        Delete
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          {/* Saved articles */}
+          <div className="lg:col-span-3 space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <h2 className="text-xl font-semibold">{activeFolderName}</h2>
+              <Select value={sort} onValueChange={(value) => setSort(value as SortOption)}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(sortLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {loadingBookmarks ? (
+              <div className="flex justify-center py-12">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </div>
+            ) : visibleBookmarks.length === 0 ? (
+              <Card className="border-0 shadow-sm">
+                <CardContent className="text-center py-12">
+                  <Bookmark className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+                  <h3 className="text-lg font-medium mb-2">Nothing saved here yet</h3>
+                  <p className="text-muted-foreground mb-6">
+                    Use the bookmark button on any article to add it to your reading list.
+                  </p>
+                  <Button asChild variant="outline">
+                    <Link to="/">Browse articles</Link>
+                  </Button>
+                </CardContent>
+              </Card>
+            ) : (
+              visibleBookmarks.map(bookmark => (
+                <Card key={bookmark.id} className="border shadow-sm">
+                  <CardContent className="p-6">
+                    <div className="flex gap-4">
+                      {bookmark.blogs?.cover_image_url && (
+                        <img
+                          src={bookmark.blogs.cover_image_url}
+                          alt={bookmark.blogs.title}
+                          className="hidden sm:block w-32 h-24 object-cover rounded-md shrink-0"
+                        />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        {bookmark.blogs ? (
+                          <>
+                            <Link to={`/blog/${bookmark.blogs.slug}`}>
+                              <h3 className="font-semibold text-lg mb-1 line-clamp-2 hover:text-primary transition-colors">
+                                {bookmark.blogs.title}
+                              </h3>
+                            </Link>
+                            <p className="text-sm text-muted-foreground mb-2">
+                              By <AuthorLink profile={bookmark.blogs.profiles} />
+                              {bookmark.blogs.published_at && ` • ${format(new Date(bookmark.blogs.published_at), 'MMM dd, yyyy')}`}
+                            </p>
+                            {bookmark.blogs.excerpt && (
+                              <p className="text-muted-foreground text-sm line-clamp-2 mb-3">{bookmark.blogs.excerpt}</p>
+                            )}
+                          </>
+                        ) : (
+                          <>
+                            <h3 className="font-semibold text-lg mb-1 text-muted-foreground">Article unavailable</h3>
+                            <p className="text-sm text-muted-foreground mb-3">
+                              This article has been unpublished or removed.
+                            </p>
+                          </>
+                        )}
+
+                        <div className="flex flex-wrap items-center justify-between gap-3">
+                          <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                            <span>Saved {formatDistanceToNow(new Date(bookmark.created_at), { addSuffix: true })}</span>
+                            {bookmark.blogs?.reading_time && (
+                              <Badge variant="outline" className="text-xs gap-1">
+                                <Clock className="w-3 h-3" />
+                                {bookmark.blogs.reading_time} min read
+                              </Badge>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <Select
+                              value={bookmark.folder_id || UNFILED}
+                              onValueChange={(value) => moveBookmark(bookmark.id, value === UNFILED ? null : value)}
+                            >
+                              <SelectTrigger className="h-8 w-[160px] text-xs">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={UNFILED}>Unfiled</SelectItem>
+                                {folders.map(folder => (
+                                  <SelectItem key={folder.id} value={folder.id}>
+                                    {folder.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => removeBookmark(bookmark.id)}
+                              className="text-destructive hover:text-destructive"
+                              title="Remove from reading list"
+                            >
+                              <BookmarkX className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </div>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+
+      <Dialog open={folderDialogOpen} onOpenChange={setFolderDialogOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{editingFolder ? 'Rename Folder' : 'New Folder'}</DialogTitle>
+          </DialogHeader>
+          <Input
+            placeholder="Folder name"
+            value={folderName}
+            maxLength={60}
+            onChange={(e) => setFolderName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') saveFolder();
+            }}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFolderDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={saveFolder} disabled={!folderName.trim()}>
+              {editingFolder ? 'Save' : 'Create'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { useNavigate, useParams, Navigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
@@ -7,10 +7,85 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ImageUpload } from '@/components/ImageUpload';
+import { MarkdownRenderer } from '@/components/MarkdownRenderer';
+import { RevisionHistory, Revision } from '@/components/RevisionHistory';
+import { TagSuggestions } from '@/components/TagSuggestions';
+import { ReviewFeedback, ReviewThreadDialog } from '@/components/ReviewThread';
+import { BlogReview, latestRejection } from '@/lib/reviews';
 import { useToast } from '@/hooks/use-toast';
-import { ArrowLeft, Save, FileText, Image, Tag, Type, Clock, Eye } from 'lucide-react';
+import { ArrowLeft, Save, Send, FileText, Image, Tag, Type, Clock, Eye, CalendarClock, History, MessageSquare } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Label } from '@/components/ui/label';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { format } from 'date-fns';
+
+const AUTOSAVE_INTERVAL_MS = 30000;
+
+const EMPTY_FORM = {
+  title: '',
+  content: '',
+  excerpt: '',
+  tags: '',
+  cover_image_url: '',
+  publish_at: ''
+};
+
+const createSlug = (title: string) => {
+  const slug = title.toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/(^-|-$)+/g, '');
+
+  return (slug || 'untitled') + '-' + Date.now();
+};
+
+type BlogChanges = {
+  title: string;
+  content: string;
+  excerpt: string;
+  tags: string[];
+  reading_time: number;
+  cover_image_url: string | null;
+};
+
+interface ExistingBlog extends BlogChanges {
+  id: string;
+  author_id: string;
+  slug: string;
+  status: 'draft' | 'pending' | 'approved' | 'rejected' | 'hidden';
+  pending_changes: BlogChanges | null;
+  requested_publish_at: string | null;
+  published_at: string | null;
+  blog_reviews?: Omit<BlogReview, 'actor'>[];
+}
+
+const getStatusLabel = (status?: string) => {
+  switch (status) {
+    case 'approved':
+      return 'Published';
+    case 'pending':
+      return 'Under Review';
+    case 'rejected':
+      return 'Rejected';
+    case 'hidden':
+      return 'Hidden';
+    case 'draft':
+    default:
+      return 'Draft';
+  }
+};
+
+const getStatusBadgeClass = (status?: string) => {
+  switch (status) {
+    case 'approved':
+      return 'bg-green-100 text-green-800 border-green-200';
+    case 'rejected':
+      return 'bg-red-100 text-red-800 border-red-200';
+    case 'hidden':
+      return 'bg-gray-100 text-gray-800 border-gray-200';
+    default:
+      return 'bg-amber-100 text-amber-800 border-amber-200';
+  }
+};
 
 export default function CreateBlog() {
   const { user, profile, loading } = useAuth();
@@ -18,15 +93,18 @@ export default function CreateBlog() {
   const { id } = useParams();
   const { toast } = useToast();
   const [saving, setSaving] = useState(false);
-  const [formData, setFormData] = useState({
-    title: '',
-    content: '',
-    excerpt: '',
-    tags: '',
-    cover_image_url: ''
-  });
+  const [savingDraft, setSavingDraft] = useState(false);
+  const [loadingBlog, setLoadingBlog] = useState(!!id);
+  const [existingBlog, setExistingBlog] = useState<ExistingBlog | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [savedSnapshot, setSavedSnapshot] = useState(JSON.stringify(EMPTY_FORM));
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
   const [wordCount, setWordCount] = useState(0);
   const [readingTime, setReadingTime] = useState(0);
+  const [editorView, setEditorView] = useState('write');
+  const [reviewerMessage, setReviewerMessage] = useState('');
+  // Guards against an autosave and a manual save inserting the same draft twice
+  const draftRequestRef = useRef(false);
 
   useEffect(() => {
     const words = formData.content.trim().split(/\s+/).filter(word => word.length > 0);
@@ -34,7 +112,170 @@ export default function CreateBlog() {
     setReadingTime(Math.ceil(words.length / 200));
   }, [formData.content]);
 
-  if (loading) {
+  const isEditing = !!id;
+  const isAdmin = profile?.role === 'admin';
+  const isOwner = !existingBlog || existingBlog.author_id === profile?.id;
+  // Approved articles stay live while their edits wait for review
+  const stagesChanges = !isAdmin && existingBlog?.status === 'approved';
+  // Hidden articles stay hidden until an admin restores them, so their authors can only edit in place
+  const appliesDirectly = !!existingBlog && (
+    (isAdmin && existingBlog.status !== 'draft') || existingBlog.status === 'hidden'
+  );
+  const canSaveDraft = isOwner && existingBlog?.status !== 'approved' && existingBlog?.status !== 'hidden';
+  // Only the author decides when a draft is ready for review
+  const canSubmit = isOwner || existingBlog?.status !== 'draft';
+  const isDirty = JSON.stringify(formData) !== savedSnapshot;
+  const rejection = existingBlog?.status === 'rejected'
+    ? latestRejection(existingBlog.blog_reviews || [])
+    : stagesChanges && !existingBlog.pending_changes
+    ? latestRejection(existingBlog.blog_reviews || [], 'changes_rejected')
+    : null;
+  const resubmits = !!rejection && !appliesDirectly;
+
+  const fetchBlogForEdit = useCallback(async (blogId: string) => {
+    try {
+      setLoadingBlog(true);
+      const { data, error } = await supabase
+        .from('blogs')
+        .select('*, blog_pending_changes ( changes ), blog_reviews ( *, blog_review_notes ( * ) )')
+        .eq('id', blogId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (!data || (data.author_id !== profile?.id && profile?.role !== 'admin')) {
+        toast({
+          title: "Article not found",
+          description: "You can only edit your own articles.",
+          variant: "destructive",
+        });
+        navigate('/dashboard');
+        return;
+      }
+
+      const { blog_pending_changes, ...row } = data;
+      const blog = { ...row, pending_changes: blog_pending_changes?.changes ?? null } as unknown as ExistingBlog;
+      const source = blog.pending_changes || blog;
+      const loadedForm = {
+        title: source.title || '',
+        content: source.content || '',
+        excerpt: source.excerpt || '',
+        tags: (source.tags || []).join(', '),
+        cover_image_url: source.cover_image_url || '',
+        publish_at: blog.requested_publish_at
+          ? format(new Date(blog.requested_publish_at), "yyyy-MM-dd'T'HH:mm")
+          : ''
+      };
+
+      setExistingBlog(blog);
+      setFormData(loadedForm);
+      setSavedSnapshot(JSON.stringify(loadedForm));
+    } catch (error) {
+      console.error('Error loading article:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load article.",
+        variant: "destructive",
+      });
+      navigate('/dashboard');
+    } finally {
+      setLoadingBlog(false);
+    }
+  }, [profile, toast, navigate]);
+
+  const buildChanges = (): BlogChanges => ({
+    title: formData.title.trim(),
+    content: formData.content.trim(),
+    excerpt: formData.excerpt.trim(),
+    tags: formData.tags.split(',').map(tag => tag.trim()).filter(Boolean),
+    reading_time: readingTime,
+    cover_image_url: formData.cover_image_url || null,
+  });
+
+  const requestedPublishAt = formData.publish_at ? new Date(formData.publish_at).toISOString() : null;
+
+  const saveDraft = async (silent = false) => {
+    if (!profile || !canSaveDraft || draftRequestRef.current) return;
+    if (!formData.title.trim() && !formData.content.trim()) return;
+    // Autosave only touches drafts; moving an article back to draft is an explicit action
+    if (silent && (!isDirty || (existingBlog && existingBlog.status !== 'draft'))) return;
+
+    draftRequestRef.current = true;
+    setSavingDraft(true);
+    const snapshot = JSON.stringify(formData);
+
+    try {
+      const changes = buildChanges();
+
+      if (existingBlog) {
+        const { error } = await supabase
+          .from('blogs')
+          .update({ ...changes, requested_publish_at: requestedPublishAt, status: 'draft' })
+          .eq('id', existingBlog.id);
+
+        if (error) throw error;
+
+        setExistingBlog({ ...existingBlog, ...changes, status: 'draft' });
+      } else {
+        const { data, error } = await supabase
+          .from('blogs')
+          .insert({
+            ...changes,
+            slug: createSlug(changes.title),
+            author_id: profile.id,
+            requested_publish_at: requestedPublishAt,
+            status: 'draft'
+          })
+          .select('*')
+          .single();
+
+        if (error) throw error;
+
+        setExistingBlog(data as unknown as ExistingBlog);
+        navigate(`/edit/${data.id}`, { replace: true });
+      }
+
+      setSavedSnapshot(snapshot);
+      setLastSavedAt(new Date());
+
+      if (!silent) {
+        toast({
+          title: "Draft saved",
+          description: "You can pick up where you left off from your dashboard.",
+        });
+      }
+    } catch (error) {
+      console.error('Error saving draft:', error);
+      if (!silent) {
+        toast({
+          title: "Error",
+          description: "Failed to save draft. Please try again.",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      draftRequestRef.current = false;
+      setSavingDraft(false);
+    }
+  };
+
+  // The interval outlives renders, so it always calls the latest saveDraft
+  const autosaveRef = useRef(saveDraft);
+  autosaveRef.current = saveDraft;
+
+  useEffect(() => {
+    const interval = setInterval(() => autosaveRef.current(true), AUTOSAVE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    // Skip the reload when a freshly saved draft moves the editor onto its /edit URL
+    if (id && profile && existingBlog?.id !== id) {
+      fetchBlogForEdit(id);
+    }
+  }, [id, profile, existingBlog?.id, fetchBlogForEdit]);
+
+  if (loading || (user && loadingBlog)) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 to-blue-50/30">
         <div className="flex flex-col items-center">
@@ -61,35 +302,98 @@ export default function CreateBlog() {
       return;
     }
 
+    if (!canSubmit) return;
+
+    if (requestedPublishAt && !stagesChanges && new Date(requestedPublishAt) <= new Date()) {
+      toast({
+        title: "Invalid publish time",
+        description: "Pick a time in the future, or leave it empty to publish as soon as it is approved.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setSaving(true);
 
     try {
-      const slug = formData.title.toLowerCase()
-        .replace(/[^a-z0-9]+/g, '-')
-        .replace(/(^-|-$)+/g, '');
-
-      const blogData = {
-        title: formData.title.trim(),
-        content: formData.content.trim(),
-        excerpt: formData.excerpt.trim(),
-        slug: slug + '-' + Date.now(),
-        author_id: profile?.id,
-        tags: formData.tags.split(',').map(tag => tag.trim()).filter(Boolean),
-        reading_time: readingTime,
-        cover_image_url: formData.cover_image_url || null,
-        status: 'pending'
-      };
+      const changes = buildChanges();
+      const wasDraft = !existingBlog || existingBlog.status === 'draft';
 
-      const { error } = await supabase.from('blogs').insert(blogData);
+      if (existingBlog) {
+        if (stagesChanges) {
+          const { error } = await supabase
+            .from('blog_pending_changes')
+            .upsert({ blog_id: existingBlog.id, changes });
 
-      if (error) throw error;
+          if (error) throw error;
+        } else {
+          // The slug is kept as-is so existing links keep working
+          const updates = appliesDirectly
+            ? changes
+            : {
+                ...changes,
+                requested_publish_at: requestedPublishAt,
+                status: 'pending',
+                ...(wasDraft ? { slug: createSlug(changes.title) } : {})
+              };
+
+          const { error } = await supabase
+            .from('blogs')
+            .update(updates)
+            .eq('id', existingBlog.id);
+
+          if (error) throw error;
+
+          // The form started from the staged edits, so saving in place supersedes them
+          if (existingBlog.pending_changes) {
+            const { error: stagedError } = await supabase
+              .from('blog_pending_changes')
+              .delete()
+              .eq('blog_id', existingBlog.id);
+
+            if (stagedError) throw stagedError;
+          }
+        }
+
+        // Sent after the save so it follows the resubmission in the review thread
+        if (resubmits && reviewerMessage.trim()) {
+          const { error: messageError } = await supabase
+            .from('blog_reviews')
+            .insert({
+              blog_id: existingBlog.id,
+              actor_id: profile?.id,
+              kind: 'comment',
+              feedback: reviewerMessage.trim(),
+            });
+
+          if (messageError) console.error('Error sending message to reviewer:', messageError);
+        }
+      } else {
+        const { error } = await supabase.from('blogs').insert({
+          ...changes,
+          slug: createSlug(changes.title),
+          author_id: profile?.id,
+          requested_publish_at: requestedPublishAt,
+          status: 'pending'
+        });
+
+        if (error) throw error;
+      }
+
+      setSavedSnapshot(JSON.stringify(formData));
 
       toast({
-        title: "Article submitted!",
-        description: "Your article has been submitted for review and will be published soon.",
+        title: appliesDirectly ? "Article updated!" : wasDraft ? "Article submitted!" : "Changes submitted!",
+        description: stagesChanges
+          ? "Your changes will replace the published version once they are approved."
+          : appliesDirectly
+          ? "The article has been updated."
+          : wasDraft
+          ? "Your article has been submitted for review and will be published soon."
+          : "Your article has been resubmitted for review.",
       });
 
-      navigate('/dashboard');
+      navigate(appliesDirectly && !isOwner ? '/admin' : '/dashboard');
     } catch (error: any) {
       console.error('Error saving article:', error);
       toast({
@@ -106,6 +410,21 @@ export default function CreateBlog() {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
+  const handleRestoreRevision = (revision: Revision) => {
+    setFormData(prev => ({
+      ...prev,
+      title: revision.title,
+      content: revision.content,
+      excerpt: revision.excerpt || '',
+      tags: (revision.tags || []).join(', '),
+      cover_image_url: revision.cover_image_url || ''
+    }));
+    toast({
+      title: "Version restored",
+      description: "The editor now holds this version. Save or submit to keep it.",
+    });
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50/30 py-8">
       <div className="container max-w-4xl mx-auto px-4">
@@ -123,9 +442,11 @@ export default function CreateBlog() {
             <div className="w-px h-6 bg-border"></div>
             <div>
               <h1 className="text-3xl font-bold bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
-                Create Article
+                {isEditing ? 'Edit Article' : 'Create Article'}
               </h1>
-              <p className="text-muted-foreground">Share your knowledge with the community</p>
+              <p className="text-muted-foreground">
+                {isEditing ? 'Refine and update your article' : 'Share your knowledge with the community'}
+              </p>
             </div>
           </div>
           
@@ -191,16 +512,41 @@ export default function CreateBlog() {
 
                   {/* Content Editor */}
                   <div className="space-y-2">
-                    <Label htmlFor="content">Article Content</Label>
-                    <Textarea
-                      id="content"
-                      placeholder="Write your amazing content here... You can use Markdown for formatting!"
-                      value={formData.content}
-                      onChange={(e) => handleInputChange('content', e.target.value)}
-                      rows={20}
-                      className="min-h-[400px] resize-none border-2 focus:border-primary transition-colors font-mono text-sm"
-                      required
-                    />
+                    <Tabs value={editorView} onValueChange={setEditorView}>
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="content">Article Content</Label>
+                        <TabsList className="h-8">
+                          <TabsTrigger value="write" className="text-xs">Write</TabsTrigger>
+                          <TabsTrigger value="split" className="text-xs hidden md:inline-flex">Split</TabsTrigger>
+                          <TabsTrigger value="preview" className="text-xs">Preview</TabsTrigger>
+                        </TabsList>
+                      </div>
+                      <div className={`mt-2 grid gap-4 ${editorView === 'split' ? 'md:grid-cols-2' : 'grid-cols-1'}`}>
+                        {editorView !== 'preview' && (
+                          <Textarea
+                            id="content"
+                            placeholder="Write your amazing content here... You can use Markdown for formatting!"
+                            value={formData.content}
+                            onChange={(e) => handleInputChange('content', e.target.value)}
+                            rows={20}
+                            className="min-h-[400px] resize-none border-2 focus:border-primary transition-colors font-mono text-sm"
+                            required
+                          />
+                        )}
+                        {editorView !== 'write' && (
+                          <div className="min-h-[400px] max-h-[600px] overflow-y-auto rounded-md border-2 p-4 bg-white">
+                            {formData.content.trim() ? (
+                              <MarkdownRenderer content={formData.content} className="prose-sm" />
+                            ) : (
+                              <p className="text-sm text-muted-foreground">Nothing to preview yet.</p>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    </Tabs>
+                    <p className="text-sm text-muted-foreground">
+                      Markdown supported: headings, lists, tables, task lists, links and fenced code blocks with a language (e.g. ```ts)
+                    </p>
                   </div>
                 </div>
               </CardContent>
@@ -225,6 +571,7 @@ export default function CreateBlog() {
                     onChange={(e) => handleInputChange('tags', e.target.value)}
                     className="border-2 focus:border-primary transition-colors"
                   />
+                  <TagSuggestions value={formData.tags} onSelect={(tags) => handleInputChange('tags', tags)} />
                   <div className="flex flex-wrap gap-2">
                     {formData.tags.split(',')
                       .map(tag => tag.trim())
@@ -237,12 +584,33 @@ export default function CreateBlog() {
                     }
                   </div>
                   <p className="text-sm text-muted-foreground">
-                    Add comma-separated tags to help readers find your article
+                    Add comma-separated tags to help readers find your article. Tags are matched to
+                    existing ones and saved in lowercase, e.g. "React.js" becomes #react-js.
                   </p>
                 </div>
               </CardContent>
             </Card>
 
+            {rejection && (
+              <Card className="border border-red-200 shadow-sm bg-red-50/50">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <MessageSquare className="w-4 h-4" />
+                    Reviewer Feedback
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <ReviewFeedback review={rejection} />
+                  <ReviewThreadDialog blogId={existingBlog.id} blogTitle={existingBlog.title}>
+                    <Button type="button" variant="outline" size="sm" className="w-full">
+                      <History className="mr-2 w-4 h-4" />
+                      Review history
+                    </Button>
+                  </ReviewThreadDialog>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Publishing Card */}
             <Card className="border-0 shadow-sm bg-gradient-to-br from-primary/5 to-accent/5">
               <CardHeader className="pb-3">
@@ -252,44 +620,146 @@ export default function CreateBlog() {
                 <div className="space-y-4">
                   <div className="flex items-center justify-between text-sm">
                     <span className="text-muted-foreground">Status</span>
-                    <Badge variant="outline" className="bg-amber-100 text-amber-800 border-amber-200">
-                      Draft
+                    <Badge variant="outline" className={getStatusBadgeClass(existingBlog?.status)}>
+                      {getStatusLabel(existingBlog?.status)}
                     </Badge>
                   </div>
+
+                  {existingBlog?.pending_changes && (
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-muted-foreground">Edits</span>
+                      <Badge variant="outline" className="bg-amber-100 text-amber-800 border-amber-200">
+                        Awaiting review
+                      </Badge>
+                    </div>
+                  )}
                   
                   <div className="flex items-center justify-between text-sm">
                     <span className="text-muted-foreground">Visibility</span>
-                    <span className="font-medium">Public</span>
+                    <span className="font-medium">
+                      {!existingBlog || existingBlog.status === 'draft' ? 'Only you' : 'Public'}
+                    </span>
                   </div>
 
-                  <div className="pt-4 border-t">
+                  {existingBlog?.status === 'approved' && existingBlog.published_at && new Date(existingBlog.published_at) > new Date() && (
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-muted-foreground">Scheduled</span>
+                      <span className="font-medium">
+                        {format(new Date(existingBlog.published_at), 'MMM dd, yyyy HH:mm')}
+                      </span>
+                    </div>
+                  )}
+
+                  {!stagesChanges && !appliesDirectly && (
+                    <div className="space-y-2">
+                      <Label htmlFor="publish_at" className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <CalendarClock className="w-4 h-4" />
+                        Publish time (optional)
+                      </Label>
+                      <Input
+                        id="publish_at"
+                        type="datetime-local"
+                        value={formData.publish_at}
+                        min={format(new Date(), "yyyy-MM-dd'T'HH:mm")}
+                        onChange={(e) => handleInputChange('publish_at', e.target.value)}
+                        className="border-2 focus:border-primary transition-colors"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        {formData.publish_at
+                          ? 'Requested time; the final schedule is set when an admin approves it'
+                          : 'Leave empty to publish as soon as it is approved'}
+                      </p>
+                    </div>
+                  )}
+
+                  {resubmits && (
+                    <div className="space-y-2">
+                      <Label htmlFor="reviewer_message" className="text-sm text-muted-foreground">
+                        Message to the reviewer (optional)
+                      </Label>
+                      <Textarea
+                        id="reviewer_message"
+                        value={reviewerMessage}
+                        onChange={(e) => setReviewerMessage(e.target.value.slice(0, 2000))}
+                        placeholder="What did you change?"
+                        rows={3}
+                        className="border-2 focus:border-primary transition-colors"
+                      />
+                    </div>
+                  )}
+
+                  {canSaveDraft && (
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-muted-foreground">Last saved</span>
+                      <span className="font-medium">
+                        {savingDraft
+                          ? 'Saving...'
+                          : isDirty
+                          ? 'Unsaved changes'
+                          : lastSavedAt
+                          ? format(lastSavedAt, 'HH:mm')
+                          : existingBlog
+                          ? 'Up to date'
+                          : 'Not saved yet'}
+                      </span>
+                    </div>
+                  )}
+
+                  <div className="pt-4 border-t space-y-2">
                     <Button 
                       type="submit" 
                       onClick={handleSubmit}
-                      disabled={saving || !formData.title.trim() || !formData.content.trim()}
+                      disabled={saving || savingDraft || !canSubmit || !formData.title.trim() || !formData.content.trim()}
                       className="w-full bg-gradient-to-r from-primary to-accent hover:from-primary/90 hover:to-accent/90"
                     >
                       {saving ? (
                         <>
                           <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                          Publishing...
+                          {appliesDirectly ? 'Saving...' : 'Submitting...'}
                         </>
                       ) : (
                         <>
-                          <Save className="mr-2 w-4 h-4" />
-                          Publish Article
+                          <Send className="mr-2 w-4 h-4" />
+                          {appliesDirectly ? 'Save Changes' : stagesChanges ? 'Submit Changes' : resubmits ? 'Resubmit for Review' : 'Submit for Review'}
                         </>
                       )}
                     </Button>
+
+                    {canSaveDraft && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => saveDraft()}
+                        disabled={saving || savingDraft || (!formData.title.trim() && !formData.content.trim())}
+                        className="w-full"
+                      >
+                        <Save className="mr-2 w-4 h-4" />
+                        {savingDraft ? 'Saving...' : 'Save Draft'}
+                      </Button>
+                    )}
                     
                     <p className="text-xs text-muted-foreground mt-2 text-center">
-                      Your article will be reviewed before publication
+                      {!canSubmit
+                        ? 'Only the author can submit this draft for review'
+                        : appliesDirectly
+                        ? 'Changes are applied immediately'
+                        : stagesChanges
+                        ? 'The published version stays live until your changes are approved'
+                        : 'Drafts are saved automatically. Your article will be reviewed before publication'}
                     </p>
                   </div>
                 </div>
               </CardContent>
             </Card>
 
+            {existingBlog && (
+              <RevisionHistory
+                blogId={existingBlog.id}
+                onRestore={handleRestoreRevision}
+                refreshKey={lastSavedAt?.getTime()}
+              />
+            )}
+
             {/* Tips Card */}
             <Card className="border-0 shadow-sm">
               <CardHeader className="pb-3">
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { Link, Navigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -12,6 +13,16 @@ import {
   DropdownMenuItem, 
   DropdownMenuTrigger 
 } from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { 
   PenTool, 
   FileText, 
@@ -26,24 +37,52 @@ import {
   BarChart3,
   Plus,
   Search,
-  Filter
+  Filter,
+  CalendarClock,
+  History,
+  RotateCcw
 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
 import { Input } from '@/components/ui/input';
+import { AccountStandingNotice } from '@/components/AccountStandingNotice';
+import { ReviewFeedback, ReviewThreadDialog } from '@/components/ReviewThread';
+import { BlogReview, latestRejection } from '@/lib/reviews';
+
+const emptyStateMessages = {
+  approved: {
+    title: 'No published articles',
+    description: "You don't have any published articles yet.",
+  },
+  pending: {
+    title: 'No under review articles',
+    description: "You don't have any articles under review.",
+  },
+  rejected: {
+    title: 'No rejected articles',
+    description: "You don't have any rejected articles.",
+  },
+  draft: {
+    title: 'No drafts',
+    description: "You don't have any saved drafts.",
+  },
+};
 
 interface DashboardBlog {
   id: string;
   title: string;
   excerpt?: string;
   slug: string;
-  status: 'pending' | 'approved' | 'rejected' | 'hidden';
+  status: 'draft' | 'pending' | 'approved' | 'rejected' | 'hidden';
+  pending_changes?: Json | null;
+  published_at?: string | null;
   reading_time: number;
   likes_count: number;
   comments_count: number;
   views_count: number;
   created_at: string;
   updated_at: string;
+  blog_reviews?: Omit<BlogReview, 'actor'>[];
 }
 
 export default function Dashboard() {
@@ -59,6 +98,8 @@ export default function Dashboard() {
   });
   const [loadingBlogs, setLoadingBlogs] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
+  const [now, setNow] = useState(() => new Date());
+  const [deletingDraft, setDeletingDraft] = useState<DashboardBlog | null>(null);
 
   useEffect(() => {
     if (user) {
@@ -70,6 +111,12 @@ export default function Dashboard() {
     filterBlogs();
   }, [blogs, searchQuery]);
 
+  // Keep scheduled countdowns current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 to-blue-50/30">
@@ -97,19 +144,22 @@ export default function Dashboard() {
 
       const { data: userBlogs, error } = await supabase
         .from('blogs')
-        .select('*')
+        .select('*, blog_pending_changes ( changes ), blog_reviews ( *, blog_review_notes ( * ) )')
         .eq('author_id', profile.id)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
 
       if (userBlogs) {
-        setBlogs(userBlogs as DashboardBlog[]);
+        setBlogs(userBlogs.map(({ blog_pending_changes, ...blog }) => ({
+          ...blog,
+          pending_changes: blog_pending_changes?.changes ?? null,
+        })) as DashboardBlog[]);
         
         // Calculate stats
         const totalViews = userBlogs.reduce((sum, blog) => sum + (blog.views_count || 0), 0);
         const totalLikes = userBlogs.reduce((sum, blog) => sum + (blog.likes_count || 0), 0);
-        const publishedBlogs = userBlogs.filter(blog => blog.status === 'approved').length;
+        const publishedBlogs = userBlogs.filter(blog => blog.status === 'approved' && !isScheduled(blog)).length;
         
         setStats({
           totalBlogs: userBlogs.length,
@@ -130,6 +180,36 @@ export default function Dashboard() {
     }
   };
 
+  // Only drafts can be deleted; submitted articles stay with the moderators
+  const deleteDraft = async (draft: DashboardBlog) => {
+    try {
+      const { data, error } = await supabase
+        .from('blogs')
+        .delete()
+        .eq('id', draft.id)
+        .eq('status', 'draft')
+        .select('id');
+
+      if (error) throw error;
+      if (!data?.length) throw new Error('Only drafts can be deleted');
+
+      setBlogs(prev => prev.filter(blog => blog.id !== draft.id));
+      setStats(prev => ({ ...prev, totalBlogs: prev.totalBlogs - 1 }));
+
+      toast({
+        title: "Draft deleted",
+        description: `"${draft.title || 'Untitled draft'}" was deleted.`,
+      });
+    } catch (error) {
+      console.error('Error deleting draft:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete draft.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const filterBlogs = () => {
     if (!searchQuery) {
       setFilteredBlogs(blogs);
@@ -153,6 +233,8 @@ export default function Dashboard() {
         return 'bg-red-100 text-red-800 border-red-200';
       case 'hidden':
         return 'bg-gray-100 text-gray-800 border-gray-200';
+      case 'draft':
+        return 'bg-slate-100 text-slate-700 border-slate-200';
       default:
         return 'bg-gray-100 text-gray-800 border-gray-200';
     }
@@ -168,6 +250,8 @@ export default function Dashboard() {
         return <Trash2 className="w-3 h-3 mr-1" />;
       case 'hidden':
         return <Eye className="w-3 h-3 mr-1" />;
+      case 'draft':
+        return <PenTool className="w-3 h-3 mr-1" />;
       default:
         return null;
     }
@@ -183,6 +267,8 @@ export default function Dashboard() {
         return 'Rejected';
       case 'hidden':
         return 'Hidden';
+      case 'draft':
+        return 'Draft';
       default:
         return status;
     }
@@ -193,83 +279,139 @@ export default function Dashboard() {
     return filteredBlogs.filter(blog => blog.status === status);
   };
 
-  const DashboardBlogCard = ({ blog }: { blog: DashboardBlog }) => (
-    <Card className="hover:shadow-md transition-all duration-300 hover:-translate-y-1 border">
-      <CardContent className="p-6">
-        <div className="flex items-start justify-between mb-4">
-          <div className="flex-1">
-            <div className="flex items-center justify-between mb-2">
-              <Badge className={getStatusColor(blog.status)} variant="outline">
-                {getStatusIcon(blog.status)}
-                {getStatusText(blog.status)}
-              </Badge>
-              <span className="text-sm text-muted-foreground">
-                {formatDistanceToNow(new Date(blog.updated_at), { addSuffix: true })}
-              </span>
+  const isScheduled = (blog: { status: string; published_at?: string | null }) =>
+    blog.status === 'approved' && !!blog.published_at && new Date(blog.published_at) > now;
+
+  const DashboardBlogCard = ({ blog }: { blog: DashboardBlog }) => {
+    const rejection = blog.status === 'rejected'
+      ? latestRejection(blog.blog_reviews || [])
+      : blog.status === 'approved' && !blog.pending_changes
+      ? latestRejection(blog.blog_reviews || [], 'changes_rejected')
+      : null;
+
+    return (
+      <Card className="hover:shadow-md transition-all duration-300 hover:-translate-y-1 border">
+        <CardContent className="p-6">
+          <div className="flex items-start justify-between mb-4">
+            <div className="flex-1">
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center gap-2">
+                  <Badge className={getStatusColor(blog.status)} variant="outline">
+                    {getStatusIcon(blog.status)}
+                    {getStatusText(blog.status)}
+                  </Badge>
+                  {!!blog.pending_changes && (
+                    <Badge className={getStatusColor('pending')} variant="outline">
+                      <Clock className="w-3 h-3 mr-1" />
+                      Edits under review
+                    </Badge>
+                  )}
+                  {isScheduled(blog) && (
+                    <Badge className="bg-blue-100 text-blue-800 border-blue-200" variant="outline">
+                      <CalendarClock className="w-3 h-3 mr-1" />
+                      Goes live {formatDistanceToNow(new Date(blog.published_at), { addSuffix: true })}
+                    </Badge>
+                  )}
+                </div>
+                <span className="text-sm text-muted-foreground">
+                  {formatDistanceToNow(new Date(blog.updated_at), { addSuffix: true })}
+                </span>
+              </div>
+              
+              <h3 className="font-semibold text-lg mb-2 line-clamp-2 hover:text-primary transition-colors">
+                {blog.title}
+              </h3>
+              {blog.excerpt && (
+                <p className="text-muted-foreground text-sm line-clamp-2 mb-3">
+                  {blog.excerpt}
+                </p>
+              )}
+              {rejection && (
+                <div className="rounded-md border border-red-200 bg-red-50/50 p-4 mb-3 space-y-3">
+                  <p className="text-sm font-medium">
+                    {rejection.kind === 'changes_rejected'
+                      ? 'Your latest edits were not approved; the published version is unchanged'
+                      : 'Reviewer feedback'}
+                  </p>
+                  <ReviewFeedback review={rejection} />
+                  <div className="flex flex-wrap gap-2">
+                    <Button size="sm" asChild>
+                      <Link to={`/edit/${blog.id}`}>
+                        <RotateCcw className="mr-2 w-4 h-4" />
+                        {rejection.kind === 'changes_rejected' ? 'Revise edits' : 'Revise & resubmit'}
+                      </Link>
+                    </Button>
+                  </div>
+                </div>
+              )}
             </div>
             
-            <h3 className="font-semibold text-lg mb-2 line-clamp-2 hover:text-primary transition-colors">
-              {blog.title}
-            </h3>
-            {blog.excerpt && (
-              <p className="text-muted-foreground text-sm line-clamp-2 mb-3">
-                {blog.excerpt}
-              </p>
-            )}
-          </div>
-          
-          <DropdownMenu>
-            <DropdownMenuTrigger asChild>
-              <Button variant="ghost" size="sm" className="ml-2">
-                <MoreHorizontal className="w-4 h-4" />
-              </Button>
-            </DropdownMenuTrigger>
-            <DropdownMenuContent align="end">
-              <DropdownMenuItem asChild>
-                <Link to={`/edit/${blog.id}`} className="flex items-center cursor-pointer">
-                  <Edit className="mr-2 w-4 h-4" />
-                  Edit
-                </Link>
-              </DropdownMenuItem>
-              {blog.status === 'approved' && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" className="ml-2">
+                  <MoreHorizontal className="w-4 h-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
                 <DropdownMenuItem asChild>
-                  <Link to={`/blog/${blog.slug}`} className="flex items-center cursor-pointer">
-                    <Eye className="mr-2 w-4 h-4" />
-                    View
+                  <Link to={`/edit/${blog.id}`} className="flex items-center cursor-pointer">
+                    <Edit className="mr-2 w-4 h-4" />
+                    Edit
                   </Link>
                 </DropdownMenuItem>
-              )}
-              <DropdownMenuItem className="text-destructive cursor-pointer">
-                <Trash2 className="mr-2 w-4 h-4" />
-                Delete
-              </DropdownMenuItem>
-            </DropdownMenuContent>
-          </DropdownMenu>
-        </div>
-        
-        <div className="flex items-center justify-between pt-4 border-t">
-          <div className="flex items-center space-x-4 text-sm text-muted-foreground">
-            <div className="flex items-center space-x-1" title="Views">
-              <Eye className="w-4 h-4" />
-              <span className="font-medium">{blog.views_count}</span>
-            </div>
-            <div className="flex items-center space-x-1" title="Likes">
-              <Heart className="w-4 h-4" />
-              <span className="font-medium">{blog.likes_count}</span>
-            </div>
-            <div className="flex items-center space-x-1" title="Comments">
-              <MessageCircle className="w-4 h-4" />
-              <span className="font-medium">{blog.comments_count}</span>
-            </div>
-            <div className="flex items-center space-x-1" title="Reading time">
-              <Clock className="w-4 h-4" />
-              <span className="font-medium">{blog.reading_time} min</span>
+                {blog.status === 'approved' && !isScheduled(blog) && (
+                  <DropdownMenuItem asChild>
+                    <Link to={`/blog/${blog.slug}`} className="flex items-center cursor-pointer">
+                      <Eye className="mr-2 w-4 h-4" />
+                      View
+                    </Link>
+                  </DropdownMenuItem>
+                )}
+                {blog.status === 'draft' && (
+                  <DropdownMenuItem
+                    className="text-destructive cursor-pointer"
+                    onSelect={() => setDeletingDraft(blog)}
+                  >
+                    <Trash2 className="mr-2 w-4 h-4" />
+                    Delete
+                  </DropdownMenuItem>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+          
+          <div className="flex items-center justify-between pt-4 border-t">
+            <div className="flex items-center space-x-4 text-sm text-muted-foreground">
+              <div className="flex items-center space-x-1" title="Views">
+                <Eye className="w-4 h-4" />
+                <span className="font-medium">{blog.views_count}</span>
+              </div>
+              <div className="flex items-center space-x-1" title="Likes">
+                <Heart className="w-4 h-4" />
+                <span className="font-medium">{blog.likes_count}</span>
+              </div>
+              <div className="flex items-center space-x-1" title="Comments">
+                <MessageCircle className="w-4 h-4" />
+                <span className="font-medium">{blog.comments_count}</span>
+              </div>
+              <div className="flex items-center space-x-1" title="Reading time">
+                <Clock className="w-4 h-4" />
+                <span className="font-medium">{blog.reading_time} min</span>
+              </div>
             </div>
+            {!!blog.blog_reviews?.length && (
+              <ReviewThreadDialog blogId={blog.id} blogTitle={blog.title}>
+                <Button variant="ghost" size="sm">
+                  <History className="mr-2 w-4 h-4" />
+                  Review history
+                </Button>
+              </ReviewThreadDialog>
+            )}
           </div>
-        </div>
-      </CardContent>
-    </Card>
-  );
+        </CardContent>
+      </Card>
+    );
+  };
 
   const StatCard = ({ title, value, icon: Icon, trend, className }: { 
     title: string; 
@@ -318,6 +460,8 @@ export default function Dashboard() {
           </Button>
         </div>
 
+        <AccountStandingNotice />
+
         {/* Stats Cards */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           <StatCard 
@@ -370,7 +514,7 @@ export default function Dashboard() {
           <CardContent>
             {/* Articles Tabs */}
             <Tabs defaultValue="all" className="w-full">
-              <TabsList className="grid grid-cols-4 mb-6">
+              <TabsList className="grid grid-cols-5 mb-6">
                 <TabsTrigger value="all" className="flex items-center gap-2">
                   <Filter className="w-3 h-3" />
                   All ({blogs.length})
@@ -387,6 +531,10 @@ export default function Dashboard() {
                   <Trash2 className="w-3 h-3" />
                   Rejected ({filterBlogsByStatus('rejected').length})
                 </TabsTrigger>
+                <TabsTrigger value="draft" className="flex items-center gap-2">
+                  <PenTool className="w-3 h-3" />
+                  Drafts ({filterBlogsByStatus('draft').length})
+                </TabsTrigger>
               </TabsList>
 
               <TabsContent value="all" className="space-y-4">
@@ -416,22 +564,13 @@ export default function Dashboard() {
                 )}
               </TabsContent>
 
-              {['approved', 'pending', 'rejected'].map(status => (
+              {Object.entries(emptyStateMessages).map(([status, message]) => (
                 <TabsContent key={status} value={status} className="space-y-4">
                   {filterBlogsByStatus(status).length === 0 ? (
                     <div className="text-center py-12">
                       <FileText className="mx-auto h-12 w-12 text-muted-foreground mb-4 opacity-50" />
-                      <h3 className="text-lg font-semibold mb-2">
-                        No {status === 'approved' ? 'published' : status === 'pending' ? 'under review' : 'rejected'} articles
-                      </h3>
-                      <p className="text-muted-foreground">
-                        {status === 'approved' 
-                          ? "You don't have any published articles yet."
-                          : status === 'pending'
-                          ? "You don't have any articles under review."
-                          : "You don't have any rejected articles."
-                        }
-                      </p>
+                      <h3 className="text-lg font-semibold mb-2">{message.title}</h3>
+                      <p className="text-muted-foreground">{message.description}</p>
                     </div>
                   ) : (
                     filterBlogsByStatus(status).map(blog => <DashboardBlogCard key={blog.id} blog={blog} />)
@@ -442,6 +581,27 @@ export default function Dashboard() {
           </CardContent>
         </Card>
       </div>
+
+      {/* Delete Draft Confirmation */}
+      <AlertDialog open={!!deletingDraft} onOpenChange={(open) => !open && setDeletingDraft(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this draft?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deletingDraft?.title || 'Untitled draft'}" and its revision history will be removed. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => deletingDraft && deleteDraft(deletingDraft)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,198 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import BlogCard from '@/components/BlogCard';
+import { useToast } from '@/hooks/use-toast';
+import { Rss, Users } from 'lucide-react';
+
+const PAGE_SIZE = 10;
+
+interface FeedBlog {
+  id: string;
+  title: string;
+  excerpt: string | null;
+  slug: string;
+  status: string | null;
+  tags: string[] | null;
+  likes_count: number | null;
+  views_count: number | null;
+  created_at: string;
+  published_at: string | null;
+  profiles: {
+    full_name?: string;
+    username?: string;
+    avatar_url?: string;
+  } | null;
+}
+
+export default function Feed() {
+  const { user, profile, loading } = useAuth();
+  const { toast } = useToast();
+  const [followingIds, setFollowingIds] = useState<string[] | null>(null);
+  const [blogs, setBlogs] = useState<FeedBlog[]>([]);
+  const [hasMore, setHasMore] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const loadingRef = useRef(false);
+  // Fixed when the feed loads so new posts don't shift the pages being fetched
+  const feedStartRef = useRef(new Date().toISOString());
+
+  // Re-observe after every render so the callback always sees the latest page state
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) {
+          loadMore();
+        }
+      },
+      { rootMargin: '400px' }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  });
+
+  // Only switching accounts starts the feed over
+  const profileId = profile?.id;
+
+  const fetchFollowing = useCallback(async () => {
+    if (!profileId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('follows')
+        .select('following_id')
+        .eq('follower_id', profileId);
+
+      if (error) throw error;
+
+      feedStartRef.current = new Date().toISOString();
+      setBlogs([]);
+      setHasMore((data || []).length > 0);
+      setFollowingIds((data || []).map(follow => follow.following_id));
+    } catch (error) {
+      console.error('Error fetching follows:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load your feed.",
+        variant: "destructive",
+      });
+    }
+  }, [profileId, toast]);
+
+  useEffect(() => {
+    fetchFollowing();
+  }, [fetchFollowing]);
+
+  const loadMore = async () => {
+    if (!followingIds || followingIds.length === 0 || loadingRef.current || !hasMore) return;
+
+    loadingRef.current = true;
+    setLoadingMore(true);
+    try {
+      const from = blogs.length;
+      const { data, error } = await supabase
+        .from('blogs')
+        .select(`
+          id, title, excerpt, slug, status, tags, likes_count, views_count, created_at, published_at,
+          profiles:author_id (
+            full_name,
+            username,
+            avatar_url
+          )
+        `)
+        .in('author_id', followingIds)
+        .eq('status', 'approved')
+        .lte('published_at', feedStartRef.current)
+        .order('published_at', { ascending: false })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      setBlogs(prev => [...prev, ...((data || []) as FeedBlog[])]);
+      setHasMore((data || []).length === PAGE_SIZE);
+    } catch (error) {
+      console.error('Error fetching feed:', error);
+      setHasMore(false);
+      toast({
+        title: "Error",
+        description: "Failed to load more articles.",
+        variant: "destructive",
+      });
+    } finally {
+      loadingRef.current = false;
+      setLoadingMore(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50/30">
+      <div className="container max-w-4xl mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold mb-2 flex items-center gap-2">
+            <Rss className="w-7 h-7" />
+            Following
+          </h1>
+          <p className="text-muted-foreground">The latest articles from authors you follow</p>
+        </div>
+
+        {followingIds && followingIds.length === 0 ? (
+          <Card className="border-0 shadow-sm">
+            <CardContent className="text-center py-12">
+              <Users className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+              <h3 className="text-lg font-medium mb-2">You're not following anyone yet</h3>
+              <p className="text-muted-foreground mb-6">
+                Follow authors from their articles or profile pages to see their new posts here.
+              </p>
+              <Button asChild variant="outline">
+                <Link to="/">Discover articles</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            {blogs.map(blog => (
+              <BlogCard key={blog.id} blog={blog} />
+            ))}
+
+            {!hasMore && blogs.length === 0 && followingIds && (
+              <p className="text-center text-muted-foreground py-12">
+                The authors you follow haven't published anything yet.
+              </p>
+            )}
+
+            {!hasMore && blogs.length > 0 && (
+              <p className="text-center text-sm text-muted-foreground py-4">You're all caught up.</p>
+            )}
+
+            {(loadingMore || !followingIds) && (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </div>
+            )}
+
+            <div ref={sentinelRef} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
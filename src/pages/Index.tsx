@@ -6,6 +6,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import BlogCard from "@/components/BlogCard";
+import { TagLink } from "@/components/TagLink";
 import { useAuth } from "@/hooks/useAuth";
 import {
   TrendingUp,
@@ -44,18 +45,44 @@ export default function Index() {
   const [latestBlogs, setLatestBlogs] = useState<Blog[]>([]);
   const [trendingBlogs, setTrendingBlogs] = useState<Blog[]>([]);
   const [featuredBlog, setFeaturedBlog] = useState<Blog | null>(null);
+  const [popularTags, setPopularTags] = useState<{ tag: string; blog_count: number }[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     fetchBlogs();
+    fetchPopularTags();
   }, []);
 
+  const fetchPopularTags = async () => {
+    try {
+      const thirtyDaysAgo = new Date();
+      thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+      const { data, error } = await supabase.rpc("get_tag_counts", {
+        _since: thirtyDaysAgo.toISOString(),
+        _limit: 10,
+      });
+
+      if (error) throw error;
+
+      // Quiet months shouldn't leave the widget empty, so fall back to all-time counts
+      if (data && data.length > 0) {
+        setPopularTags(data);
+      } else {
+        const { data: allTime } = await supabase.rpc("get_tag_counts", { _limit: 10 });
+        setPopularTags(allTime || []);
+      }
+    } catch (error) {
+      console.error("Error fetching popular tags:", error);
+    }
+  };
+
   const fetchBlogs = async () => {
     try {
       const { data: latest } = await supabase
         .from("blogs")
         .select(`*, profiles!inner ( full_name, username, avatar_url )`)
         .eq("status", "approved")
+        .lte("published_at", new Date().toISOString())
         .order("published_at", { ascending: false })
         .limit(6);
 
@@ -65,6 +92,7 @@ export default function Index() {
         .from("blogs")
         .select(`*, profiles!inner ( full_name, username, avatar_url )`)
         .eq("status", "approved")
+        .lte("published_at", new Date().toISOString())
         .gte("created_at", sevenDaysAgo.toISOString())
         .order("likes_count", { ascending: false })
         .limit(5);
@@ -248,28 +276,31 @@ export default function Index() {
 
                 <Card className="border-0 bg-white/70 backdrop-blur-lg shadow-xl hover:shadow-2xl transition-all">
                   <CardHeader>
-                    <CardTitle className="text-lg text-purple-600">
-                      Popular Tags
-                    </CardTitle>
+                    <div className="flex items-center justify-between">
+                      <CardTitle className="text-lg text-purple-600">
+                        Popular Tags
+                      </CardTitle>
+                      <Link
+                        to="/tags"
+                        className="text-sm text-indigo-600 hover:text-purple-600 flex items-center"
+                      >
+                        All tags <ArrowRight className="ml-1 w-3 h-3" />
+                      </Link>
+                    </div>
                   </CardHeader>
                   <CardContent className="flex flex-wrap gap-2">
-                    {[
-                      "React",
-                      "TypeScript",
-                      "Node.js",
-                      "Python",
-                      "JavaScript",
-                      "AWS",
-                      "Docker",
-                      "GraphQL",
-                    ].map((tag) => (
-                      <Badge
-                        key={tag}
-                        className="cursor-pointer bg-gradient-to-r from-pink-400 to-purple-400 text-white shadow hover:scale-105 transition-all"
-                      >
-                        #{tag}
-                      </Badge>
-                    ))}
+                    {popularTags.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No tags yet.</p>
+                    ) : (
+                      popularTags.map(({ tag, blog_count }) => (
+                        <TagLink key={tag} tag={tag}>
+                          <Badge className="cursor-pointer bg-gradient-to-r from-pink-400 to-purple-400 text-white shadow hover:scale-105 transition-all">
+                            #{tag}
+                            <span className="ml-1 text-white/80">{blog_count}</span>
+                          </Badge>
+                        </TagLink>
+                      ))
+                    )}
                   </CardContent>
                 </Card>
 
@@ -0,0 +1,120 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import BlogCard from '@/components/BlogCard';
+import { ArrowLeft, ArrowRight, Clock } from 'lucide-react';
+
+const PAGE_SIZE = 10;
+
+interface LatestBlog {
+  id: string;
+  title: string;
+  excerpt: string | null;
+  slug: string;
+  status: string | null;
+  tags: string[] | null;
+  likes_count: number | null;
+  views_count: number | null;
+  created_at: string;
+  published_at: string | null;
+  profiles: {
+    full_name?: string;
+    username?: string;
+    avatar_url?: string;
+  } | null;
+}
+
+export default function Latest() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [blogs, setBlogs] = useState<LatestBlog[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+
+  const fetchBlogs = useCallback(async () => {
+    setLoading(true);
+    try {
+      const from = (page - 1) * PAGE_SIZE;
+      const { data, count, error } = await supabase
+        .from('blogs')
+        .select(`
+          id, title, excerpt, slug, status, tags, likes_count, views_count, created_at, published_at,
+          profiles:author_id (
+            full_name,
+            username,
+            avatar_url
+          )
+        `, { count: 'exact' })
+        .eq('status', 'approved')
+        .lte('published_at', new Date().toISOString())
+        .order('published_at', { ascending: false })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      setBlogs((data || []) as LatestBlog[]);
+      setTotalCount(count || 0);
+    } catch (error) {
+      console.error('Error fetching latest blogs:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [page]);
+
+  useEffect(() => {
+    fetchBlogs();
+  }, [fetchBlogs]);
+
+  const goToPage = (nextPage: number) => {
+    setSearchParams(nextPage > 1 ? { page: String(nextPage) } : {});
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const totalPages = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50/30">
+      <div className="container max-w-4xl mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold mb-2 flex items-center gap-2">
+            <Clock className="w-7 h-7" />
+            Latest Articles
+          </h1>
+          <p className="text-muted-foreground">Everything published on BloggerHub, newest first</p>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : blogs.length === 0 ? (
+          <p className="text-center text-muted-foreground py-12">No articles here yet.</p>
+        ) : (
+          <div className="space-y-6">
+            {blogs.map(blog => (
+              <BlogCard key={blog.id} blog={blog} />
+            ))}
+          </div>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-between mt-8">
+            <Button variant="outline" onClick={() => goToPage(page - 1)} disabled={page <= 1 || loading}>
+              <ArrowLeft className="mr-2 w-4 h-4" />
+              Previous
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              Page {page} of {totalPages}
+            </span>
+            <Button variant="outline" onClick={() => goToPage(page + 1)} disabled={page >= totalPages || loading}>
+              Next
+              <ArrowRight className="ml-2 w-4 h-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
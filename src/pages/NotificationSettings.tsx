@@ -0,0 +1,188 @@
+import { useState, useEffect } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  NOTIFICATION_EVENTS,
+  NotificationDelivery,
+  NotificationEvent,
+  deliveryLabel,
+} from '@/lib/notifications';
+import { Bell, MailX } from 'lucide-react';
+
+export default function NotificationSettings() {
+  const { user, profile, loading } = useAuth();
+  const { toast } = useToast();
+  const [preferences, setPreferences] = useState<Record<string, NotificationDelivery>>({});
+  const [loadingPreferences, setLoadingPreferences] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchPreferences = async () => {
+      if (!profile?.id) return;
+
+      try {
+        const { data, error } = await supabase
+          .from('notification_preferences')
+          .select('event_type, delivery')
+          .eq('user_id', profile.id);
+
+        if (error) throw error;
+
+        setPreferences(Object.fromEntries(
+          (data || []).map(row => [row.event_type, row.delivery as NotificationDelivery])
+        ));
+      } catch (error) {
+        console.error('Error fetching notification preferences:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load your notification settings.",
+          variant: "destructive",
+        });
+      } finally {
+        setLoadingPreferences(false);
+      }
+    };
+
+    fetchPreferences();
+  }, [profile?.id, toast]);
+
+  const deliveryFor = (event: NotificationEvent) => preferences[event.type] || event.defaultDelivery;
+
+  const savePreferences = async (changes: Record<string, NotificationDelivery>) => {
+    if (!profile) return;
+
+    const previous = preferences;
+    setPreferences({ ...preferences, ...changes });
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('notification_preferences')
+        .upsert(
+          Object.entries(changes).map(([event_type, delivery]) => ({ user_id: profile.id, event_type, delivery })),
+          { onConflict: 'user_id,event_type' }
+        );
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error saving notification preferences:', error);
+      setPreferences(previous);
+      toast({
+        title: "Error",
+        description: "Failed to save your notification settings.",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Mirrors what an "unsubscribe from all" email link does
+  const turnOffEmails = async () => {
+    const changes: Record<string, NotificationDelivery> = {};
+    NOTIFICATION_EVENTS.forEach(event => {
+      const delivery = deliveryFor(event);
+      if (delivery === 'email' || delivery === 'digest') {
+        changes[event.type] = event.deliveries.includes('in_app') ? 'in_app' : 'off';
+      }
+    });
+
+    if (Object.keys(changes).length === 0) return;
+
+    await savePreferences(changes);
+    toast({
+      title: "Emails turned off",
+      description: "You'll still see notifications in the app.",
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const sendsEmail = NOTIFICATION_EVENTS.some(event => ['email', 'digest'].includes(deliveryFor(event)));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50/30">
+      <div className="container max-w-3xl mx-auto px-4 py-8 space-y-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Notification Settings</h1>
+            <p className="text-muted-foreground">Choose what you hear about and how</p>
+          </div>
+          <Button variant="outline" asChild>
+            <Link to="/notifications">
+              <Bell className="w-4 h-4 mr-2" />
+              Notifications
+            </Link>
+          </Button>
+        </div>
+
+        <Card className="border-0 shadow-sm">
+          <CardHeader>
+            <CardTitle>Delivery</CardTitle>
+            <CardDescription>
+              Emails are sent to {user.email}. The weekly digest bundles everything set to "digest" into one
+              email on Mondays, together with the week's top posts.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="divide-y">
+            {NOTIFICATION_EVENTS.map(event => (
+              <div key={event.type} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 py-4 first:pt-0 last:pb-0">
+                <div>
+                  <p className="font-medium">{event.label}</p>
+                  <p className="text-sm text-muted-foreground">{event.description}</p>
+                </div>
+                <Select
+                  value={deliveryFor(event)}
+                  onValueChange={(value) => savePreferences({ [event.type]: value as NotificationDelivery })}
+                  disabled={loadingPreferences || saving}
+                >
+                  <SelectTrigger className="w-full sm:w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {event.deliveries.map(delivery => (
+                      <SelectItem key={delivery} value={delivery}>
+                        {deliveryLabel(delivery, event)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card className="border-0 shadow-sm">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MailX className="w-5 h-5" />
+              Unsubscribe from email
+            </CardTitle>
+            <CardDescription>
+              Stop all notification emails and digests. In-app notifications keep working.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" onClick={turnOffEmails} disabled={!sendsEmail || loadingPreferences || saving}>
+              Turn off all emails
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
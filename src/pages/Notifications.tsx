@@ -0,0 +1,205 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, Navigate, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { NotificationItem } from '@/components/NotificationItem';
+import { AppNotification, NOTIFICATION_SELECT, notificationLink } from '@/lib/notifications';
+import { useToast } from '@/hooks/use-toast';
+import { Bell, CheckCheck, Settings } from 'lucide-react';
+
+const PAGE_SIZE = 20;
+
+type NotificationFilter = 'all' | 'unread';
+
+export default function Notifications() {
+  const { user, profile, loading } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [filter, setFilter] = useState<NotificationFilter>('all');
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingPage, setLoadingPage] = useState(true);
+
+  const profileId = profile?.id;
+
+  // Loads the page starting at `from`; 0 starts the list over
+  const fetchNotifications = useCallback(async (from: number) => {
+    if (!profileId) return;
+
+    setLoadingPage(true);
+    try {
+      let query = supabase
+        .from('notifications')
+        .select(NOTIFICATION_SELECT)
+        .eq('user_id', profileId)
+        .order('created_at', { ascending: false })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (filter === 'unread') {
+        query = query.is('read_at', null);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      const page = (data || []) as AppNotification[];
+      setNotifications(prev => from === 0 ? page : [...prev, ...page]);
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load notifications.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingPage(false);
+    }
+  }, [profileId, filter, toast]);
+
+  useEffect(() => {
+    fetchNotifications(0);
+  }, [fetchNotifications]);
+
+  const markRead = async (notification: AppNotification) => {
+    const readAt = new Date().toISOString();
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: readAt })
+      .eq('id', notification.id);
+
+    if (error) {
+      console.error('Error marking notification read:', error);
+      return;
+    }
+
+    setNotifications(prev => prev.map(n => n.id === notification.id ? { ...n, read_at: readAt } : n));
+  };
+
+  const markAllRead = async () => {
+    if (!profile) return;
+
+    const readAt = new Date().toISOString();
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: readAt })
+      .eq('user_id', profile.id)
+      .is('read_at', null);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to mark notifications as read.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setNotifications(prev => filter === 'unread' ? [] : prev.map(n => n.read_at ? n : { ...n, read_at: readAt }));
+    setHasMore(filter === 'unread' ? false : hasMore);
+  };
+
+  const handleSelect = async (notification: AppNotification) => {
+    if (!notification.read_at) {
+      await markRead(notification);
+    }
+
+    const link = notificationLink(notification);
+    if (link) navigate(link);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const hasUnread = notifications.some(n => !n.read_at);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50/30">
+      <div className="container max-w-3xl mx-auto px-4 py-8">
+        <div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold mb-2 flex items-center gap-2">
+              <Bell className="w-7 h-7" />
+              Notifications
+            </h1>
+            <p className="text-muted-foreground">Activity on your articles, comments and profile</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={markAllRead} disabled={!hasUnread}>
+              <CheckCheck className="mr-2 w-4 h-4" />
+              Mark all as read
+            </Button>
+            <Button variant="ghost" size="sm" asChild>
+              <Link to="/settings/notifications">
+                <Settings className="mr-2 w-4 h-4" />
+                Settings
+              </Link>
+            </Button>
+          </div>
+        </div>
+
+        <Tabs value={filter} onValueChange={(value) => setFilter(value as NotificationFilter)} className="mb-4">
+          <TabsList>
+            <TabsTrigger value="all">All</TabsTrigger>
+            <TabsTrigger value="unread">Unread</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <Card className="border-0 shadow-sm">
+          <CardContent className="p-2">
+            {notifications.length > 0 ? (
+              <div className="divide-y">
+                {notifications.map(notification => (
+                  <div key={notification.id} className="flex items-center gap-2">
+                    <NotificationItem notification={notification} onSelect={handleSelect} className="flex-1" />
+                    {!notification.read_at && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="shrink-0 text-xs"
+                        onClick={() => markRead(notification)}
+                      >
+                        Mark read
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ) : !loadingPage && (
+              <p className="text-center text-muted-foreground py-12">
+                {filter === 'unread' ? "You're all caught up." : 'No notifications yet.'}
+              </p>
+            )}
+
+            {loadingPage && (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {hasMore && !loadingPage && (
+          <div className="flex justify-center mt-6">
+            <Button variant="outline" onClick={() => fetchNotifications(notifications.length)}>
+              Load more
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,382 @@
+import { useState, useEffect, useRef } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AvatarUpload } from '@/components/AvatarUpload';
+import { useToast } from '@/hooks/use-toast';
+import { Bell, Check, ExternalLink, KeyRound, Loader2, Mail, Save, X } from 'lucide-react';
+
+const USERNAME_PATTERN = /^[a-z0-9_]{3,30}$/;
+const RESERVED_USERNAMES = ['admin', 'administrator', 'settings', 'support', 'moderator', 'bloggerhub', 'api', 'me'];
+const BIO_MAX_LENGTH = 280;
+const MIN_PASSWORD_LENGTH = 6;
+
+type UsernameStatus = 'idle' | 'invalid' | 'reserved' | 'checking' | 'available' | 'taken';
+
+const validateUsername = (username: string): UsernameStatus | null => {
+  if (!USERNAME_PATTERN.test(username)) return 'invalid';
+  if (RESERVED_USERNAMES.includes(username)) return 'reserved';
+  return null;
+};
+
+const usernameMessages: Partial<Record<UsernameStatus, string>> = {
+  invalid: 'Use 3–30 lowercase letters, numbers or underscores.',
+  reserved: 'This username is reserved.',
+  checking: 'Checking availability...',
+  available: 'Username is available.',
+  taken: 'That username is already taken.',
+};
+
+export default function ProfileSettings() {
+  const { user, profile, loading, updateProfile } = useAuth();
+  const { toast } = useToast();
+  const [formData, setFormData] = useState({ full_name: '', username: '', bio: '' });
+  const [usernameStatus, setUsernameStatus] = useState<UsernameStatus>('idle');
+  const [savingProfile, setSavingProfile] = useState(false);
+  const [newEmail, setNewEmail] = useState('');
+  const [savingEmail, setSavingEmail] = useState(false);
+  const [passwords, setPasswords] = useState({ password: '', confirm: '' });
+  const [savingPassword, setSavingPassword] = useState(false);
+  // The form is filled once per profile, not again every time the saved profile refreshes
+  const loadedProfileId = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (profile && profile.id !== loadedProfileId.current) {
+      loadedProfileId.current = profile.id;
+      setFormData({
+        full_name: profile.full_name || '',
+        username: profile.username || '',
+        bio: profile.bio || '',
+      });
+    }
+  }, [profile]);
+
+  const profileId = profile?.id;
+  const savedUsername = profile?.username;
+
+  // Debounced availability check whenever the username differs from the saved one.
+  // Older usernames may predate the format rules, so the saved one is validated too.
+  useEffect(() => {
+    const username = formData.username;
+    if (!profileId) return;
+
+    const invalid = validateUsername(username);
+    if (invalid) {
+      setUsernameStatus(invalid);
+      return;
+    }
+
+    if (username === savedUsername) {
+      setUsernameStatus('idle');
+      return;
+    }
+
+    setUsernameStatus('checking');
+    const timeout = setTimeout(async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id')
+        .eq('username', username)
+        .neq('id', profileId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error checking username:', error);
+        setUsernameStatus('idle');
+        return;
+      }
+
+      setUsernameStatus(data ? 'taken' : 'available');
+    }, 400);
+
+    return () => clearTimeout(timeout);
+  }, [formData.username, profileId, savedUsername]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  const canSaveProfile =
+    !!profile &&
+    !savingProfile &&
+    formData.bio.length <= BIO_MAX_LENGTH &&
+    (usernameStatus === 'idle' || usernameStatus === 'available');
+
+  const handleSaveProfile = async () => {
+    if (!canSaveProfile) return;
+
+    setSavingProfile(true);
+    const { error } = await updateProfile({
+      full_name: formData.full_name.trim(),
+      username: formData.username,
+      bio: formData.bio.trim(),
+    });
+    if (!error) setUsernameStatus('idle');
+    setSavingProfile(false);
+  };
+
+  const handleAvatarChange = async (avatarUrl: string | null) => {
+    await updateProfile({ avatar_url: avatarUrl });
+  };
+
+  const handleChangeEmail = async () => {
+    const email = newEmail.trim();
+    if (!email || email === user.email) return;
+
+    setSavingEmail(true);
+    try {
+      const { error } = await supabase.auth.updateUser(
+        { email },
+        { emailRedirectTo: `${window.location.origin}/settings/profile` }
+      );
+
+      if (error) throw error;
+
+      setNewEmail('');
+      toast({
+        title: "Confirm your new email",
+        description: "We sent confirmation links to your current and new addresses.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update email.",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingEmail(false);
+    }
+  };
+
+  const handleChangePassword = async () => {
+    if (passwords.password.length < MIN_PASSWORD_LENGTH) {
+      toast({
+        title: "Password too short",
+        description: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (passwords.password !== passwords.confirm) {
+      toast({
+        title: "Passwords don't match",
+        description: "Please enter the same password twice.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSavingPassword(true);
+    try {
+      const { error } = await supabase.auth.updateUser({ password: passwords.password });
+
+      if (error) throw error;
+
+      setPasswords({ password: '', confirm: '' });
+      toast({
+        title: "Password updated",
+        description: "Your password has been changed.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update password.",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingPassword(false);
+    }
+  };
+
+  const usernameMessage = usernameMessages[usernameStatus];
+  const usernameMessageClass =
+    usernameStatus === 'available'
+      ? 'text-green-600'
+      : usernameStatus === 'checking'
+      ? 'text-muted-foreground'
+      : 'text-destructive';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50/30">
+      <div className="container max-w-3xl mx-auto px-4 py-8 space-y-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Settings</h1>
+            <p className="text-muted-foreground">Manage your public profile and account</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="ghost" asChild>
+              <Link to="/settings/notifications">
+                <Bell className="w-4 h-4 mr-2" />
+                Notifications
+              </Link>
+            </Button>
+            {profile?.username && (
+              <Button variant="outline" asChild>
+                <Link to={`/u/${encodeURIComponent(profile.username)}`}>
+                  <ExternalLink className="w-4 h-4 mr-2" />
+                  View Profile
+                </Link>
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {/* Public Profile */}
+        <Card className="border-0 shadow-sm">
+          <CardHeader>
+            <CardTitle>Profile</CardTitle>
+            <CardDescription>This information is shown on your public profile and articles.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <AvatarUpload
+              currentAvatarUrl={profile?.avatar_url}
+              fallback={profile?.full_name?.charAt(0) || user.email?.charAt(0) || 'U'}
+              onAvatarUploaded={(url) => handleAvatarChange(url)}
+              onAvatarRemoved={() => handleAvatarChange(null)}
+            />
+
+            <div className="space-y-2">
+              <Label htmlFor="full_name">Full name</Label>
+              <Input
+                id="full_name"
+                value={formData.full_name}
+                maxLength={80}
+                onChange={(e) => setFormData(prev => ({ ...prev, full_name: e.target.value }))}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="username">Username</Label>
+              <div className="relative">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">@</span>
+                <Input
+                  id="username"
+                  value={formData.username}
+                  maxLength={30}
+                  className="pl-7 pr-9"
+                  onChange={(e) => setFormData(prev => ({ ...prev, username: e.target.value.toLowerCase() }))}
+                />
+                <span className="absolute right-3 top-1/2 -translate-y-1/2">
+                  {usernameStatus === 'checking' && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+                  {usernameStatus === 'available' && <Check className="w-4 h-4 text-green-600" />}
+                  {['invalid', 'reserved', 'taken'].includes(usernameStatus) && <X className="w-4 h-4 text-destructive" />}
+                </span>
+              </div>
+              {usernameMessage ? (
+                <p className={`text-xs ${usernameMessageClass}`}>{usernameMessage}</p>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  Your profile lives at /u/{formData.username || 'username'}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="bio">Bio</Label>
+              <Textarea
+                id="bio"
+                rows={4}
+                value={formData.bio}
+                placeholder="Tell readers a little about yourself"
+                onChange={(e) => setFormData(prev => ({ ...prev, bio: e.target.value }))}
+              />
+              <p className={`text-xs text-right ${formData.bio.length > BIO_MAX_LENGTH ? 'text-destructive' : 'text-muted-foreground'}`}>
+                {formData.bio.length}/{BIO_MAX_LENGTH}
+              </p>
+            </div>
+
+            <div className="flex justify-end">
+              <Button onClick={handleSaveProfile} disabled={!canSaveProfile}>
+                <Save className="w-4 h-4 mr-2" />
+                {savingProfile ? 'Saving...' : 'Save Profile'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Email */}
+        <Card className="border-0 shadow-sm">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Mail className="w-5 h-5" />
+              Email
+            </CardTitle>
+            <CardDescription>
+              Currently <span className="font-medium text-foreground">{user.email}</span>. The change takes effect once you confirm it.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col sm:flex-row gap-3">
+            <Input
+              type="email"
+              placeholder="New email address"
+              value={newEmail}
+              onChange={(e) => setNewEmail(e.target.value)}
+            />
+            <Button
+              onClick={handleChangeEmail}
+              disabled={savingEmail || !newEmail.trim() || newEmail.trim() === user.email}
+              className="shrink-0"
+            >
+              {savingEmail ? 'Sending...' : 'Change Email'}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Password */}
+        <Card className="border-0 shadow-sm">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="w-5 h-5" />
+              Password
+            </CardTitle>
+            <CardDescription>Choose a password of at least {MIN_PASSWORD_LENGTH} characters.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="new-password">New password</Label>
+                <Input
+                  id="new-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={passwords.password}
+                  onChange={(e) => setPasswords(prev => ({ ...prev, password: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirm-password">Confirm password</Label>
+                <Input
+                  id="confirm-password"
+                  type="password"
+                  autoComplete="new-password"
+                  value={passwords.confirm}
+                  onChange={(e) => setPasswords(prev => ({ ...prev, confirm: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={handleChangePassword} disabled={savingPassword || !passwords.password}>
+                {savingPassword ? 'Updating...' : 'Update Password'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
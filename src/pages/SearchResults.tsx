@@ -1,132 +1,209 @@
-import { useState, useEffect } from 'react';
-import { useSearchParams, useNavigate } from 'react-router-dom';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useSearchParams, useNavigate, Link } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import BlogCard from '@/components/BlogCard';
-import { Search, ArrowLeft } from 'lucide-react';
-
-interface Blog {
-  id: string;
-  title: string;
-  excerpt: string;
-  slug: string;
-  author_id: string;
-  cover_image_url?: string;
-  tags: string[];
-  reading_time: number;
-  likes_count: number;
-  comments_count: number;
-  views_count: number;
-  created_at: string;
-  published_at: string;
-  profiles: {
-    full_name: string;
-    avatar_url?: string;
-  };
+import { Card, CardContent } from '@/components/ui/card';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { AuthorLink } from '@/components/AuthorLink';
+import { HighlightedText } from '@/components/HighlightedText';
+import { Search, ArrowLeft, ArrowRight, Eye, Heart, MessageCircle, Clock } from 'lucide-react';
+import { format } from 'date-fns';
+
+const PAGE_SIZE = 20;
+
+type SearchResult = Database['public']['Functions']['search_blogs']['Returns'][number];
+type TagCount = Database['public']['Functions']['get_tag_counts']['Returns'][number];
+type TagMode = 'any' | 'all';
+
+function SearchResultCard({ result }: { result: SearchResult }) {
+  return (
+    <Card className="hover:shadow-md transition-shadow">
+      <CardContent className="p-6">
+        <Link to={`/blog/${result.slug}`} className="group">
+          <h3 className="text-xl font-semibold mb-2 group-hover:text-primary transition-colors">
+            <HighlightedText text={result.title_highlight} />
+          </h3>
+        </Link>
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-muted-foreground mb-3">
+          <span>
+            By{' '}
+            <AuthorLink profile={{ full_name: result.author_full_name, username: result.author_username }} />
+          </span>
+          {result.published_at && (
+            <>
+              <span>•</span>
+              <span>{format(new Date(result.published_at), 'MMM d, yyyy')}</span>
+            </>
+          )}
+          {result.reading_time && (
+            <>
+              <span>•</span>
+              <span className="flex items-center gap-1">
+                <Clock className="w-3 h-3" />
+                {result.reading_time} min read
+              </span>
+            </>
+          )}
+        </div>
+        {result.snippet ? (
+          <p className="text-muted-foreground mb-3 line-clamp-3">
+            <HighlightedText text={result.snippet} />
+          </p>
+        ) : result.excerpt && (
+          <p className="text-muted-foreground mb-3 line-clamp-2">{result.excerpt}</p>
+        )}
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex flex-wrap gap-1">
+            {result.tags?.slice(0, 4).map(tag => (
+              <Badge key={tag} variant="outline" className="text-xs">
+                {tag}
+              </Badge>
+            ))}
+          </div>
+          <div className="flex items-center gap-4 text-sm text-muted-foreground">
+            <span className="flex items-center gap-1">
+              <Eye className="w-4 h-4" />
+              {result.views_count || 0}
+            </span>
+            <span className="flex items-center gap-1">
+              <Heart className="w-4 h-4" />
+              {result.likes_count || 0}
+            </span>
+            <span className="flex items-center gap-1">
+              <MessageCircle className="w-4 h-4" />
+              {result.comments_count || 0}
+            </span>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
 }
 
 export default function SearchResults() {
   const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
-  const [blogs, setBlogs] = useState<Blog[]>([]);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
   const [loading, setLoading] = useState(false);
   const [searchQuery, setSearchQuery] = useState(searchParams.get('q') || '');
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
-  const [availableTags, setAvailableTags] = useState<string[]>([]);
+  const [tagMode, setTagMode] = useState<TagMode>('any');
+  const [availableTags, setAvailableTags] = useState<TagCount[]>([]);
+
+  const activeQuery = searchParams.get('q') || '';
+  const activeTags = useMemo(
+    () => searchParams.get('tags')?.split(',').filter(Boolean) || [],
+    [searchParams]
+  );
+  const activeTagMode: TagMode = searchParams.get('match') === 'all' ? 'all' : 'any';
+  const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
 
   useEffect(() => {
     fetchAvailableTags();
-    if (searchQuery) {
-      performSearch();
-    }
   }, []);
 
-  useEffect(() => {
-    const query = searchParams.get('q');
-    const tags = searchParams.get('tags');
-    
-    if (query) setSearchQuery(query);
-    if (tags) setSelectedTags(tags.split(','));
-    
-    if (query || tags) {
-      performSearch();
-    }
-  }, [searchParams]);
-
   const fetchAvailableTags = async () => {
     try {
-      const { data, error } = await supabase
-        .from('blogs')
-        .select('tags')
-        .eq('status', 'approved')
-        .not('tags', 'is', null);
+      const { data, error } = await supabase.rpc('get_tag_counts');
 
       if (error) throw error;
 
-      const allTags = data
-        .flatMap(blog => blog.tags || [])
-        .filter(Boolean);
-
-      const uniqueTags = [...new Set(allTags)].sort();
-      setAvailableTags(uniqueTags);
+      setAvailableTags(data || []);
     } catch (error) {
       console.error('Error fetching tags:', error);
     }
   };
 
-  const performSearch = async () => {
+  const performSearch = useCallback(async () => {
     setLoading(true);
     try {
-      let query = supabase
-        .from('blogs')
-        .select(`
-          *,
-          profiles:author_id (
-            full_name,
-            avatar_url
-          )
-        `)
-        .eq('status', 'approved')
-        .order('published_at', { ascending: false });
-
-      // Text search
-      if (searchQuery.trim()) {
-        query = query.or(
-          `title.ilike.%${searchQuery}%,content.ilike.%${searchQuery}%,excerpt.ilike.%${searchQuery}%`
-        );
-      }
+      const searchArgs = {
+        _query: activeQuery.trim() || undefined,
+        _tags: activeTags.length > 0 ? activeTags : undefined,
+        _tag_mode: activeTagMode,
+      };
 
-      const { data, error } = await query;
+      const { data, error } = await supabase.rpc('search_blogs', {
+        ...searchArgs,
+        _limit: PAGE_SIZE,
+        _offset: (page - 1) * PAGE_SIZE,
+      });
 
       if (error) throw error;
 
-      let filteredData = data || [];
+      // Every row carries the full match count, so a page past the end has no total;
+      // look it up from the first page and jump back to the last page with results
+      if (page > 1 && (!data || data.length === 0)) {
+        const { data: firstPage, error: countError } = await supabase.rpc('search_blogs', {
+          ...searchArgs,
+          _limit: 1,
+          _offset: 0,
+        });
+
+        if (countError) throw countError;
 
-      // Filter by tags
-      if (selectedTags.length > 0) {
-        filteredData = filteredData.filter(blog => 
-          blog.tags && blog.tags.some(tag => selectedTags.includes(tag))
-        );
+        const total = firstPage && firstPage.length > 0 ? Number(firstPage[0].total_count) : 0;
+        if (total > 0) {
+          const lastPage = Math.ceil(total / PAGE_SIZE);
+          const params = new URLSearchParams(searchParams);
+          if (lastPage > 1) {
+            params.set('page', String(lastPage));
+          } else {
+            params.delete('page');
+          }
+          setSearchParams(params, { replace: true });
+          return;
+        }
       }
 
-      setBlogs(filteredData);
+      setResults(data || []);
+      setTotalCount(data && data.length > 0 ? Number(data[0].total_count) : 0);
     } catch (error) {
       console.error('Search error:', error);
-      setBlogs([]);
+      setResults([]);
+      setTotalCount(0);
     } finally {
       setLoading(false);
     }
-  };
+  }, [activeQuery, activeTags, activeTagMode, page, searchParams, setSearchParams]);
+
+  // The URL is the source of truth, so back/forward and shared links re-run the search
+  useEffect(() => {
+    setSearchQuery(activeQuery);
+    setSelectedTags(activeTags);
+    setTagMode(activeTagMode);
+
+    if (activeQuery.trim() || activeTags.length > 0) {
+      performSearch();
+    } else {
+      setResults([]);
+      setTotalCount(0);
+    }
+  }, [activeQuery, activeTags, activeTagMode, performSearch]);
 
   const handleSearch = () => {
     const params = new URLSearchParams();
-    if (searchQuery.trim()) params.set('q', searchQuery);
+    if (searchQuery.trim()) params.set('q', searchQuery.trim());
     if (selectedTags.length > 0) params.set('tags', selectedTags.join(','));
-    
+    if (selectedTags.length > 1 && tagMode === 'all') params.set('match', 'all');
+
+    setSearchParams(params);
+  };
+
+  const goToPage = (nextPage: number) => {
+    const params = new URLSearchParams(searchParams);
+    if (nextPage > 1) {
+      params.set('page', String(nextPage));
+    } else {
+      params.delete('page');
+    }
+
     setSearchParams(params);
-    performSearch();
+    window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -146,10 +223,13 @@ export default function SearchResults() {
   const clearFilters = () => {
     setSearchQuery('');
     setSelectedTags([]);
+    setTagMode('any');
     setSearchParams({});
-    setBlogs([]);
   };
 
+  const hasActiveSearch = !!activeQuery.trim() || activeTags.length > 0;
+  const totalPages = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+
   return (
     <div className="container mx-auto px-4 py-8">
       <div className="mb-8">
@@ -162,7 +242,7 @@ export default function SearchResults() {
           <h1 className="text-3xl font-bold mb-6">Search Articles</h1>
           
           {/* Search Input */}
-          <div className="flex space-x-2 mb-6">
+          <div className="flex space-x-2 mb-2">
             <div className="relative flex-1">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
               <Input
@@ -177,12 +257,28 @@ export default function SearchResults() {
               Search
             </Button>
           </div>
+          <p className="text-xs text-muted-foreground mb-6">
+            Use "quotes" for exact phrases and a trailing * to match word prefixes, e.g. react*
+          </p>
 
           {/* Tags Filter */}
           <div className="mb-6">
-            <h3 className="text-sm font-medium mb-3 text-muted-foreground">Filter by tags:</h3>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-medium text-muted-foreground">Filter by tags:</h3>
+              {selectedTags.length > 1 && (
+                <ToggleGroup
+                  type="single"
+                  size="sm"
+                  value={tagMode}
+                  onValueChange={(value) => value && setTagMode(value as TagMode)}
+                >
+                  <ToggleGroupItem value="any" className="text-xs h-7">Any tag</ToggleGroupItem>
+                  <ToggleGroupItem value="all" className="text-xs h-7">All tags</ToggleGroupItem>
+                </ToggleGroup>
+              )}
+            </div>
             <div className="flex flex-wrap gap-2 mb-4">
-              {availableTags.map(tag => (
+              {availableTags.map(({ tag, blog_count }) => (
                 <Badge
                   key={tag}
                   variant={selectedTags.includes(tag) ? "default" : "outline"}
@@ -190,6 +286,7 @@ export default function SearchResults() {
                   onClick={() => toggleTag(tag)}
                 >
                   {tag}
+                  <span className="ml-1 opacity-60">{blog_count}</span>
                 </Badge>
               ))}
             </div>
@@ -204,35 +301,57 @@ export default function SearchResults() {
       </div>
 
       {/* Search Results */}
-      <div>
+      <div className="max-w-4xl">
         {loading ? (
           <div className="flex justify-center py-12">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
           </div>
         ) : (
           <>
-            {(searchQuery || selectedTags.length > 0) && (
+            {hasActiveSearch && (
               <div className="mb-6">
                 <p className="text-muted-foreground">
-                  Found {blogs.length} article{blogs.length !== 1 ? 's' : ''}
-                  {searchQuery && ` for "${searchQuery}"`}
-                  {selectedTags.length > 0 && ` tagged with: ${selectedTags.join(', ')}`}
+                  Found {totalCount} article{totalCount !== 1 ? 's' : ''}
+                  {activeQuery && ` for "${activeQuery}"`}
+                  {activeTags.length > 0 &&
+                    ` tagged with ${activeTagMode === 'all' ? 'all of' : 'any of'}: ${activeTags.join(', ')}`}
                 </p>
               </div>
             )}
 
-            {blogs.length > 0 ? (
-              <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-                {blogs.map((blog) => (
-                  <BlogCard key={blog.id} blog={blog} />
+            {results.length > 0 ? (
+              <div className="space-y-4">
+                {results.map((result) => (
+                  <SearchResultCard key={result.id} result={result} />
                 ))}
+
+                {totalPages > 1 && (
+                  <div className="flex items-center justify-between pt-4">
+                    <Button variant="outline" onClick={() => goToPage(page - 1)} disabled={page <= 1}>
+                      <ArrowLeft className="mr-2 w-4 h-4" />
+                      Previous
+                    </Button>
+                    <span className="text-sm text-muted-foreground">
+                      Page {page} of {totalPages}
+                    </span>
+                    <Button variant="outline" onClick={() => goToPage(page + 1)} disabled={page >= totalPages}>
+                      Next
+                      <ArrowRight className="ml-2 w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
               </div>
-            ) : (searchQuery || selectedTags.length > 0) ? (
+            ) : hasActiveSearch ? (
               <div className="text-center py-12">
                 <h3 className="text-lg font-medium mb-2">No articles found</h3>
                 <p className="text-muted-foreground">
                   Try adjusting your search terms or filters
                 </p>
+                {page > 1 && (
+                  <Button variant="outline" className="mt-4" onClick={() => goToPage(1)}>
+                    Back to first page
+                  </Button>
+                )}
               </div>
             ) : (
               <div className="text-center py-12">
@@ -247,4 +366,4 @@ export default function SearchResults() {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,222 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import BlogCard from '@/components/BlogCard';
+import { TagFollowButton } from '@/components/TagFollowButton';
+import { ArrowLeft, ArrowRight, Hash } from 'lucide-react';
+
+const PAGE_SIZE = 10;
+
+type TagSort = 'latest' | 'top';
+
+interface TagInfo {
+  id: string;
+  slug: string;
+  name: string;
+  description: string | null;
+}
+
+// Mirrors normalize_tag_slug closely enough to send old links like /tags/React.js to the right place
+const toTagSlug = (tag: string) => tag.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)+/g, '');
+
+interface TagBlog {
+  id: string;
+  title: string;
+  excerpt: string | null;
+  slug: string;
+  status: string | null;
+  tags: string[] | null;
+  likes_count: number | null;
+  views_count: number | null;
+  created_at: string;
+  published_at: string | null;
+  profiles: {
+    full_name?: string;
+    username?: string;
+    avatar_url?: string;
+  } | null;
+}
+
+export default function TagPage() {
+  const { tag = '' } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const [tagInfo, setTagInfo] = useState<TagInfo | null>(null);
+  const [blogs, setBlogs] = useState<TagBlog[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  const sort: TagSort = searchParams.get('sort') === 'top' ? 'top' : 'latest';
+  const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+
+  const fetchTagInfo = useCallback(async () => {
+    setTagInfo(null);
+    try {
+      const { data, error } = await supabase
+        .from('tags')
+        .select('id, slug, name, description')
+        .eq('slug', tag)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (data) {
+        setTagInfo(data);
+        return;
+      }
+
+      // Synonyms and non-canonical spellings redirect to the canonical tag page
+      const slug = toTagSlug(tag);
+      const [canonicalResult, synonymResult] = await Promise.all([
+        supabase.from('tags').select('slug').eq('slug', slug).maybeSingle(),
+        supabase.from('tag_synonyms').select('tags ( slug )').eq('synonym', slug).maybeSingle(),
+      ]);
+
+      const canonicalSlug = synonymResult.data?.tags?.slug || canonicalResult.data?.slug;
+      if (canonicalSlug && canonicalSlug !== tag) {
+        navigate(`/tags/${encodeURIComponent(canonicalSlug)}`, { replace: true });
+      }
+    } catch (error) {
+      console.error('Error fetching tag:', error);
+    }
+  }, [tag, navigate]);
+
+  useEffect(() => {
+    fetchTagInfo();
+  }, [fetchTagInfo]);
+
+  const fetchBlogs = useCallback(async () => {
+    setLoading(true);
+    try {
+      const from = (page - 1) * PAGE_SIZE;
+      let query = supabase
+        .from('blogs')
+        .select(`
+          id, title, excerpt, slug, status, tags, likes_count, views_count, created_at, published_at,
+          profiles:author_id (
+            full_name,
+            username,
+            avatar_url
+          )
+        `, { count: 'exact' })
+        .eq('status', 'approved')
+        .lte('published_at', new Date().toISOString())
+        .contains('tags', [tag]);
+
+      if (sort === 'top') {
+        query = query.order('likes_count', { ascending: false });
+      }
+
+      const { data, count, error } = await query
+        .order('published_at', { ascending: false })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      setBlogs((data || []) as TagBlog[]);
+      setTotalCount(count || 0);
+    } catch (error) {
+      console.error('Error fetching tag blogs:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [tag, sort, page]);
+
+  useEffect(() => {
+    fetchBlogs();
+  }, [fetchBlogs]);
+
+  const updateParams = (nextSort: TagSort, nextPage: number) => {
+    const params = new URLSearchParams();
+    if (nextSort !== 'latest') params.set('sort', nextSort);
+    if (nextPage > 1) params.set('page', String(nextPage));
+    setSearchParams(params);
+  };
+
+  const goToPage = (nextPage: number) => {
+    updateParams(sort, nextPage);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const totalPages = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50/30">
+      <div className="container max-w-4xl mx-auto px-4 py-8">
+        <Button variant="ghost" asChild className="mb-6">
+          <Link to="/tags">
+            <ArrowLeft className="mr-2 w-4 h-4" />
+            All tags
+          </Link>
+        </Button>
+
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold mb-2 flex items-center gap-1">
+              <Hash className="w-7 h-7" />
+              {tag}
+            </h1>
+            {tagInfo && tagInfo.name !== tagInfo.slug && (
+              <p className="text-lg text-foreground/80 mb-1">{tagInfo.name}</p>
+            )}
+            {tagInfo?.description && <p className="text-muted-foreground mb-2 max-w-2xl">{tagInfo.description}</p>}
+            {!loading && (
+              <p className="text-muted-foreground">
+                {totalCount} article{totalCount !== 1 ? 's' : ''}
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            {tagInfo && <TagFollowButton tagId={tagInfo.id} size="default" />}
+            <Select value={sort} onValueChange={(value) => updateParams(value as TagSort, 1)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="latest">Latest</SelectItem>
+                <SelectItem value="top">Top</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : blogs.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground mb-4">No published articles are tagged #{tag}.</p>
+            <Button variant="outline" asChild>
+              <Link to="/tags">Browse all tags</Link>
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {blogs.map(blog => (
+              <BlogCard key={blog.id} blog={blog} />
+            ))}
+          </div>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-between mt-8">
+            <Button variant="outline" onClick={() => goToPage(page - 1)} disabled={page <= 1 || loading}>
+              <ArrowLeft className="mr-2 w-4 h-4" />
+              Previous
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              Page {page} of {totalPages}
+            </span>
+            <Button variant="outline" onClick={() => goToPage(page + 1)} disabled={page >= totalPages || loading}>
+              Next
+              <ArrowRight className="ml-2 w-4 h-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent } from '@/components/ui/card';
+import { TagLink } from '@/components/TagLink';
+import { Hash, Search } from 'lucide-react';
+
+interface TagCount {
+  tag: string;
+  blog_count: number;
+}
+
+export default function Tags() {
+  const [tags, setTags] = useState<TagCount[]>([]);
+  const [filter, setFilter] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchTags();
+  }, []);
+
+  const fetchTags = async () => {
+    try {
+      const { data, error } = await supabase.rpc('get_tag_counts');
+
+      if (error) throw error;
+
+      setTags(data || []);
+    } catch (error) {
+      console.error('Error fetching tags:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const visibleTags = tags.filter(({ tag }) => tag.toLowerCase().includes(filter.trim().toLowerCase()));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50/30">
+      <div className="container max-w-4xl mx-auto px-4 py-8">
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold mb-2 flex items-center gap-1">
+              <Hash className="w-7 h-7" />
+              Tags
+            </h1>
+            <p className="text-muted-foreground">Browse articles by topic</p>
+          </div>
+          <div className="relative sm:w-64">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground w-4 h-4" />
+            <Input
+              placeholder="Filter tags..."
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : visibleTags.length === 0 ? (
+          <p className="text-center text-muted-foreground py-12">
+            {tags.length === 0 ? 'No tags yet.' : 'No tags match your filter.'}
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {visibleTags.map(({ tag, blog_count }) => (
+              <TagLink key={tag} tag={tag}>
+                <Card className="border-0 shadow-sm hover:shadow-md transition-shadow h-full">
+                  <CardContent className="p-4 flex items-center justify-between">
+                    <span className="font-medium truncate">#{tag}</span>
+                    <span className="text-sm text-muted-foreground shrink-0 ml-2">
+                      {blog_count} article{blog_count !== 1 ? 's' : ''}
+                    </span>
+                  </CardContent>
+                </Card>
+              </TagLink>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
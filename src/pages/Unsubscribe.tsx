@@ -0,0 +1,87 @@
+import { useState, useEffect } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { NOTIFICATION_EVENTS } from '@/lib/notifications';
+import { CheckCircle, XCircle } from 'lucide-react';
+
+type UnsubscribeStatus = 'working' | 'done' | 'failed';
+
+// Landing page for the unsubscribe link in notification emails. The signed
+// token is the credential, so this works without logging in.
+export default function Unsubscribe() {
+  const [searchParams] = useSearchParams();
+  const [status, setStatus] = useState<UnsubscribeStatus>('working');
+  const [eventType, setEventType] = useState<string | null>(null);
+
+  const token = searchParams.get('token');
+
+  useEffect(() => {
+    const unsubscribe = async () => {
+      if (!token) {
+        setStatus('failed');
+        return;
+      }
+
+      setStatus('working');
+      const { data, error } = await supabase.functions.invoke('unsubscribe', { body: { token } });
+
+      if (error) {
+        console.error('Error unsubscribing:', error);
+        setStatus('failed');
+        return;
+      }
+
+      setEventType(data.eventType);
+      setStatus('done');
+    };
+
+    unsubscribe();
+  }, [token]);
+
+  const event = NOTIFICATION_EVENTS.find(e => e.type === eventType);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50/30">
+      <div className="container max-w-lg mx-auto px-4 py-16">
+        <Card className="border-0 shadow-sm">
+          <CardContent className="text-center py-12">
+            {status === 'working' ? (
+              <div className="flex justify-center">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </div>
+            ) : status === 'done' ? (
+              <>
+                <CheckCircle className="w-12 h-12 mx-auto mb-4 text-green-500" />
+                <h1 className="text-2xl font-bold mb-2">You've been unsubscribed</h1>
+                <p className="text-muted-foreground mb-6">
+                  {event
+                    ? `We won't email you about "${event.label.toLowerCase()}" anymore.`
+                    : eventType === 'digest'
+                      ? "We won't send you the weekly digest anymore."
+                      : "We won't send you notification emails anymore."}
+                  {' '}In-app notifications are unchanged.
+                </p>
+                <Button asChild variant="outline">
+                  <Link to="/settings/notifications">Manage notification settings</Link>
+                </Button>
+              </>
+            ) : (
+              <>
+                <XCircle className="w-12 h-12 mx-auto mb-4 text-destructive" />
+                <h1 className="text-2xl font-bold mb-2">This link didn't work</h1>
+                <p className="text-muted-foreground mb-6">
+                  The unsubscribe link is invalid or incomplete. You can still change your email settings after signing in.
+                </p>
+                <Button asChild variant="outline">
+                  <Link to="/settings/notifications">Go to notification settings</Link>
+                </Button>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
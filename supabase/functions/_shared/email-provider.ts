@@ -0,0 +1,91 @@
+// Email delivery behind a small interface so development and tests can swap
+// Resend for a local stand-in. The stand-in is only used with EMAIL_PROVIDER=local;
+// anything else needs RESEND_API_KEY, and a missing key fails the send so the
+// outbox keeps the email queued instead of marking it sent.
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  headers?: Record<string, string>;
+  // The provider must not deliver two messages with the same key
+  idempotencyKey?: string;
+}
+
+export interface EmailProvider {
+  name: string;
+  send(message: EmailMessage): Promise<{ id: string }>;
+}
+
+class ResendProvider implements EmailProvider {
+  name = "resend";
+
+  constructor(private apiKey: string) {}
+
+  async send(message: EmailMessage) {
+    const response = await fetch("https://api.resend.com/emails", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${this.apiKey}`,
+        "Content-Type": "application/json",
+        ...(message.idempotencyKey ? { "Idempotency-Key": message.idempotencyKey } : {}),
+      },
+      body: JSON.stringify({
+        from: message.from,
+        to: [message.to],
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        headers: message.headers,
+      }),
+    });
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(`Resend responded ${response.status}: ${result.message ?? response.statusText}`);
+    }
+
+    return { id: result.id as string };
+  }
+}
+
+// Logs every message and, when EMAIL_LOCAL_DIR is set, also writes it there as
+// JSON so tests can assert on what would have been sent
+class LocalProvider implements EmailProvider {
+  name = "local";
+
+  constructor(private directory?: string) {}
+
+  async send(message: EmailMessage) {
+    const id = message.idempotencyKey ?? crypto.randomUUID();
+    console.log(`[local email] to=${message.to} subject=${JSON.stringify(message.subject)} id=${id}`);
+
+    if (this.directory) {
+      const fileName = `${Date.now()}-${id.replace(/[^a-zA-Z0-9_-]/g, "_")}.json`;
+      await Deno.writeTextFile(`${this.directory}/${fileName}`, JSON.stringify(message, null, 2));
+    }
+
+    return { id };
+  }
+}
+
+export const getEmailProvider = (): EmailProvider => {
+  const choice = Deno.env.get("EMAIL_PROVIDER");
+  const apiKey = Deno.env.get("RESEND_API_KEY");
+
+  if (choice === "local") {
+    return new LocalProvider(Deno.env.get("EMAIL_LOCAL_DIR"));
+  }
+
+  if (choice && choice !== "resend") {
+    throw new Error(`Unknown EMAIL_PROVIDER "${choice}"`);
+  }
+
+  if (!apiKey) {
+    throw new Error("RESEND_API_KEY is not set");
+  }
+
+  return new ResendProvider(apiKey);
+};
@@ -0,0 +1,61 @@
+// Signed unsubscribe links. A token is "<base64url payload>.<base64url HMAC>",
+// where the payload is "<profile id>:<event type or 'all'>". Tokens don't
+// expire so links in old emails keep working.
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+const fromBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+};
+
+const signingKey = () => {
+  const secret = Deno.env.get("UNSUBSCRIBE_SECRET");
+  if (!secret) {
+    throw new Error("UNSUBSCRIBE_SECRET is not set");
+  }
+
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+};
+
+export const createUnsubscribeToken = async (profileId: string, eventType: string) => {
+  const payload = encoder.encode(`${profileId}:${eventType}`);
+  const signature = await crypto.subtle.sign("HMAC", await signingKey(), payload);
+  return `${toBase64Url(payload)}.${toBase64Url(new Uint8Array(signature))}`;
+};
+
+export const verifyUnsubscribeToken = async (token: string) => {
+  const [payloadPart, signaturePart] = token.split(".");
+  if (!payloadPart || !signaturePart) return null;
+
+  try {
+    const payload = fromBase64Url(payloadPart);
+    const valid = await crypto.subtle.verify("HMAC", await signingKey(), fromBase64Url(signaturePart), payload);
+    if (!valid) return null;
+
+    const [profileId, eventType] = new TextDecoder().decode(payload).split(":");
+    return profileId && eventType ? { profileId, eventType } : null;
+  } catch {
+    // Malformed base64
+    return null;
+  }
+};
+
+// Links for the email footer (opens the site) and the List-Unsubscribe header
+// (mail clients POST to it directly, RFC 8058)
+export const unsubscribeLinks = async (profileId: string, eventType: string) => {
+  const token = encodeURIComponent(await createUnsubscribeToken(profileId, eventType));
+  return {
+    pageUrl: `${Deno.env.get("SITE_URL")}/unsubscribe?token=${token}`,
+    oneClickUrl: `${Deno.env.get("SUPABASE_URL")}/functions/v1/unsubscribe?token=${token}`,
+  };
+};
@@ -0,0 +1,154 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Drains the email_outbox table. Runs every minute from the
+// 'process-email-outbox' pg_cron job, which POSTs here with the service role key.
+// Each claimed email is rendered and sent by send-notifications; failures are
+// retried with exponential backoff and dead-lettered after MAX_ATTEMPTS.
+
+const BATCH_SIZE = 20;
+const MAX_ATTEMPTS = 8;
+const BASE_DELAY_SECONDS = 120;
+const MAX_DELAY_SECONDS = 6 * 60 * 60;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+interface OutboxEmail {
+  id: string;
+  idempotency_key: string;
+  recipient_id: string;
+  template: string;
+  payload: Record<string, unknown>;
+  attempts: number;
+}
+
+// 2, 4, 8... minutes with a little jitter so a provider outage doesn't end in
+// every retry landing on the same minute
+const backoffSeconds = (attempts: number) => {
+  const delay = Math.min(BASE_DELAY_SECONDS * 2 ** (attempts - 1), MAX_DELAY_SECONDS);
+  return Math.round(delay * (1 + Math.random() * 0.1));
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+
+  if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json", ...corsHeaders },
+    });
+  }
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+  // send-notifications resolves the recipient and renders the email from the
+  // IDs in the payload
+  const sendEmail = async (email: OutboxEmail) => {
+    const response = await fetch(`${supabaseUrl}/functions/v1/send-notifications`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${serviceRoleKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        ...email.payload,
+        type: email.template,
+        recipientId: email.recipient_id,
+        idempotencyKey: email.idempotency_key,
+      }),
+    });
+
+    const result = await response.json().catch(() => ({}));
+
+    // A payload send-notifications rejects will never succeed; don't retry it
+    if (response.status === 400) {
+      return { status: "dead" as const, error: `Rejected: ${result.error ?? "invalid request"}` };
+    }
+
+    if (!response.ok) {
+      throw new Error(result.error ?? `send-notifications responded ${response.status}`);
+    }
+
+    // e.g. the recipient changed their preferences or the comment was removed
+    // since the email was queued
+    if (result.skipped) {
+      return { status: "skipped" as const, error: result.reason as string };
+    }
+
+    return { status: "sent" as const, providerMessageId: result.id as string };
+  };
+
+  try {
+    const { data: emails, error } = await supabase.rpc("claim_email_outbox", { _limit: BATCH_SIZE });
+    if (error) throw error;
+
+    const summary = { claimed: emails.length, sent: 0, skipped: 0, retrying: 0, dead: 0 };
+
+    for (const email of emails as OutboxEmail[]) {
+      let update: Record<string, unknown>;
+
+      try {
+        const outcome = await sendEmail(email);
+        update = outcome.status === "sent"
+          ? { status: "sent", sent_at: new Date().toISOString(), provider_message_id: outcome.providerMessageId, last_error: null }
+          : { status: outcome.status, last_error: outcome.error };
+      } catch (sendError) {
+        const message = sendError instanceof Error ? sendError.message : String(sendError);
+        console.error(`Attempt ${email.attempts} for email ${email.id} failed:`, message);
+
+        update = email.attempts >= MAX_ATTEMPTS
+          ? { status: "dead", last_error: message }
+          : {
+            status: "pending",
+            last_error: message,
+            next_attempt_at: new Date(Date.now() + backoffSeconds(email.attempts) * 1000).toISOString(),
+          };
+      }
+
+      const { error: updateError } = await supabase
+        .from("email_outbox")
+        .update({ ...update, locked_at: null })
+        .eq("id", email.id);
+
+      // Left in 'sending', the row is reclaimed later; the idempotency key keeps
+      // that from sending a second copy
+      if (updateError) {
+        console.error(`Failed to record outcome for email ${email.id}:`, updateError);
+      }
+
+      const status = update.status as string;
+      if (status === "sent") summary.sent++;
+      else if (status === "skipped") summary.skipped++;
+      else if (status === "dead") summary.dead++;
+      else summary.retrying++;
+    }
+
+    console.log("Processed email outbox:", summary);
+
+    return new Response(JSON.stringify(summary), {
+      status: 200,
+      headers: { "Content-Type": "application/json", ...corsHeaders },
+    });
+  } catch (error) {
+    console.error("Error in process-email-outbox function:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Failed to process outbox" }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+  }
+};
+
+serve(handler);
@@ -1,130 +1,264 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
-import { Resend } from "npm:resend@2.0.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { unsubscribeLinks } from "../_shared/unsubscribe.ts";
+import { getEmailProvider } from "../_shared/email-provider.ts";
+import { EmailContext, templates } from "./templates.ts";
 
-const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+// Internal endpoint: only the email outbox worker (service role) may call it.
+// Requests carry IDs, never addresses or display text; the recipient's email
+// and everything shown in the email are looked up here.
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type",
+const uuid = z.string().uuid();
+
+const base = {
+  recipientId: uuid,
+  // Set by the outbox worker so a retried send is never delivered twice
+  idempotencyKey: z.string().min(1).max(256).optional(),
 };
 
-interface NotificationRequest {
-  type: 'new_blog' | 'new_comment' | 'blog_approved';
-  recipientEmail: string;
-  recipientName: string;
-  blogTitle: string;
-  blogSlug?: string;
-  authorName?: string;
-  commentContent?: string;
-}
-
-const templates = {
-  new_blog: (data: NotificationRequest) => ({
-    subject: `New blog post: ${data.blogTitle}`,
-    html: `
-      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-        <h2 style="color: #333;">New Blog Post Published!</h2>
-        <p>Hi ${data.recipientName},</p>
-        <p>A new blog post has been published:</p>
-        <h3 style="color: #0066cc;">${data.blogTitle}</h3>
-        <p>by ${data.authorName}</p>
-        ${data.blogSlug ? `<a href="${Deno.env.get('SITE_URL')}/blog/${data.blogSlug}" style="background-color: #0066cc; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px; display: inline-block;">Read Article</a>` : ''}
-        <p style="margin-top: 20px; color: #666; font-size: 14px;">
-          Best regards,<br>
-          The Blog Team
-        </p>
-      </div>
-    `,
-  }),
+const digestPost = z.object({
+  title: z.string(),
+  slug: z.string(),
+  excerpt: z.string().nullish(),
+  authorName: z.string().nullish(),
+});
 
-  new_comment: (data: NotificationRequest) => ({
-    subject: `New comment on: ${data.blogTitle}`,
-    html: `
-      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-        <h2 style="color: #333;">New Comment on Your Blog Post!</h2>
-        <p>Hi ${data.recipientName},</p>
-        <p>Someone commented on your blog post:</p>
-        <h3 style="color: #0066cc;">${data.blogTitle}</h3>
-        <div style="background-color: #f5f5f5; padding: 15px; border-left: 4px solid #0066cc; margin: 15px 0;">
-          "${data.commentContent}"
-        </div>
-        ${data.blogSlug ? `<a href="${Deno.env.get('SITE_URL')}/blog/${data.blogSlug}" style="background-color: #0066cc; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px; display: inline-block;">View Comment</a>` : ''}
-        <p style="margin-top: 20px; color: #666; font-size: 14px;">
-          Best regards,<br>
-          The Blog Team
-        </p>
-      </div>
-    `,
+const requestSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("new_blog"), blogId: uuid, ...base }),
+  z.object({ type: z.literal("new_comment"), blogId: uuid, commentId: uuid, actorId: uuid, ...base }),
+  z.object({ type: z.literal("new_reply"), blogId: uuid, commentId: uuid, actorId: uuid, ...base }),
+  z.object({ type: z.literal("new_mention"), blogId: uuid, commentId: uuid, actorId: uuid, ...base }),
+  z.object({ type: z.literal("new_follower"), actorId: uuid, ...base }),
+  z.object({ type: z.literal("blog_approved"), blogId: uuid, ...base }),
+  z.object({ type: z.literal("blog_rejected"), blogId: uuid, ...base }),
+  z.object({
+    type: z.literal("weekly_digest"),
+    digest: z.object({
+      periodStart: z.string(),
+      periodEnd: z.string(),
+      followedPosts: z.array(digestPost).max(50),
+      topPosts: z.array(digestPost).max(50),
+      articleActivity: z.array(z.object({
+        title: z.string(),
+        slug: z.string(),
+        views: z.number().int().nonnegative(),
+        likes: z.number().int().nonnegative(),
+        comments: z.number().int().nonnegative(),
+      })).max(50),
+      updates: z.record(z.number().int().nonnegative()),
+    }),
+    ...base,
   }),
+]);
 
-  blog_approved: (data: NotificationRequest) => ({
-    subject: `Your blog post has been approved: ${data.blogTitle}`,
-    html: `
-      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-        <h2 style="color: #28a745;">Congratulations! Your Blog Post is Live!</h2>
-        <p>Hi ${data.recipientName},</p>
-        <p>Great news! Your blog post has been approved and is now live:</p>
-        <h3 style="color: #0066cc;">${data.blogTitle}</h3>
-        ${data.blogSlug ? `<a href="${Deno.env.get('SITE_URL')}/blog/${data.blogSlug}" style="background-color: #28a745; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px; display: inline-block;">View Your Post</a>` : ''}
-        <p style="margin-top: 20px;">
-          Your post is now visible to all readers. Share it with your network to get more engagement!
-        </p>
-        <p style="margin-top: 20px; color: #666; font-size: 14px;">
-          Best regards,<br>
-          The Blog Team
-        </p>
-      </div>
-    `,
-  }),
+type NotificationRequest = z.infer<typeof requestSchema>;
+
+// Preference event type each template belongs to
+const eventTypes: Record<NotificationRequest["type"], string> = {
+  new_blog: "new_blog",
+  new_comment: "comment",
+  new_reply: "reply",
+  new_mention: "mention",
+  new_follower: "follow",
+  blog_approved: "blog_approved",
+  blog_rejected: "blog_rejected",
+  // Not a preference of its own; unsubscribing stops every event sent to the digest
+  weekly_digest: "digest",
 };
 
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+// Compares in constant time so the key can't be guessed byte by byte
+const timingSafeEqual = (a: string, b: string) => {
+  const left = new TextEncoder().encode(a);
+  const right = new TextEncoder().encode(b);
+  if (left.length !== right.length) return false;
+
+  let difference = 0;
+  for (let i = 0; i < left.length; i++) {
+    difference |= left[i] ^ right[i];
+  }
+  return difference === 0;
+};
+
+// Header values must stay on one line
+const singleLine = (value: string) => value.replace(/[\r\n]+/g, " ").trim();
+
 const handler = async (req: Request): Promise<Response> => {
-  // Handle CORS preflight requests
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  if (!timingSafeEqual(req.headers.get("Authorization") ?? "", `Bearer ${serviceRoleKey}`)) {
+    return json({ error: "Unauthorized" }, 401);
   }
 
+  let data: NotificationRequest;
   try {
-    const data: NotificationRequest = await req.json();
-    
-    if (!data.type || !data.recipientEmail || !data.recipientName) {
-      throw new Error("Missing required fields");
+    const parsed = requestSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return json({ error: "Invalid request", issues: parsed.error.issues }, 400);
     }
+    data = parsed.data;
+  } catch {
+    return json({ error: "Request body must be JSON" }, 400);
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+    const skip = (reason: string) => {
+      console.log(`Skipping ${data.type} email to ${data.recipientId}: ${reason}`);
+      return json({ skipped: true, reason });
+    };
+
+    // Only send right away to people who chose email for this event; digest
+    // subscribers get it in the weekly digest instead
+    const eventType = eventTypes[data.type];
+    let delivery: string;
+    if (data.type === "weekly_digest") {
+      const { data: subscribed, error: digestError } = await supabase.rpc("wants_digest", {
+        _user_id: data.recipientId,
+      });
 
-    const template = templates[data.type];
-    if (!template) {
-      throw new Error("Invalid notification type");
+      if (digestError) throw digestError;
+      delivery = subscribed ? "digest" : "off";
+    } else {
+      const { data: eventDelivery, error: deliveryError } = await supabase.rpc("notification_delivery", {
+        _user_id: data.recipientId,
+        _event_type: eventType,
+      });
+
+      if (deliveryError) throw deliveryError;
+      delivery = eventDelivery;
     }
 
-    const emailContent = template(data);
+    if (delivery !== (data.type === "weekly_digest" ? "digest" : "email")) {
+      return skip(`recipient preference is ${delivery}`);
+    }
 
-    const emailResponse = await resend.emails.send({
-      from: "Blog Platform <notifications@yourdomain.com>",
-      to: [data.recipientEmail],
-      subject: emailContent.subject,
-      html: emailContent.html,
-    });
+    // Recipient
+    const { data: recipient, error: recipientError } = await supabase
+      .from("profiles")
+      .select("user_id, full_name, username")
+      .eq("id", data.recipientId)
+      .maybeSingle();
+
+    if (recipientError) throw recipientError;
+    if (!recipient) return skip("recipient no longer exists");
 
-    console.log("Email sent successfully:", emailResponse);
+    const { data: { user }, error: userError } = await supabase.auth.admin.getUserById(recipient.user_id);
+    if (userError) throw userError;
+    if (!user?.email) return skip("recipient has no email address");
 
-    return new Response(JSON.stringify(emailResponse), {
-      status: 200,
+    const { pageUrl, oneClickUrl } = await unsubscribeLinks(data.recipientId, eventType);
+    const context: EmailContext = {
+      recipientName: recipient.full_name || recipient.username || "there",
+      unsubscribeUrl: pageUrl,
+    };
+
+    // Everything else the template shows
+    if ("actorId" in data) {
+      const { data: actor, error } = await supabase
+        .from("profiles")
+        .select("full_name, username")
+        .eq("id", data.actorId)
+        .maybeSingle();
+
+      if (error) throw error;
+      context.actorName = actor?.full_name || actor?.username || undefined;
+    }
+
+    if ("blogId" in data) {
+      const { data: blog, error } = await supabase
+        .from("blogs")
+        .select("title, slug, status, published_at, author:profiles!blogs_author_id_fkey ( full_name, username )")
+        .eq("id", data.blogId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!blog) return skip("post no longer exists");
+
+      // Both say the post is live
+      if (data.type === "new_blog" || data.type === "blog_approved") {
+        if (blog.status !== "approved" || !blog.published_at || new Date(blog.published_at) > new Date()) {
+          return skip("post is not published");
+        }
+      }
+
+      if (data.type === "new_blog") {
+        context.actorName = blog.author?.full_name || blog.author?.username || undefined;
+      }
+
+      context.blog = { title: blog.title, slug: blog.slug };
+    }
+
+    if (data.type === "blog_rejected") {
+      const { data: review, error } = await supabase
+        .from("blog_reviews")
+        .select("kind, reason, feedback, blog_review_notes ( id )")
+        .eq("blog_id", data.blogId)
+        .in("kind", ["rejected", "changes_rejected"])
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (review?.reason) {
+        context.review = {
+          editsOnly: review.kind === "changes_rejected",
+          reason: review.reason,
+          feedback: review.feedback?.slice(0, 2000) ?? null,
+          noteCount: review.blog_review_notes?.length ?? 0,
+        };
+      }
+    }
+
+    if ("commentId" in data) {
+      const { data: comment, error } = await supabase
+        .from("comments")
+        .select("id, content, deleted_at, hidden_at")
+        .eq("id", data.commentId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!comment || comment.deleted_at || comment.hidden_at) return skip("comment was removed");
+
+      context.comment = { id: comment.id, content: comment.content.slice(0, 500) };
+    }
+
+    if (data.type === "weekly_digest") {
+      context.digest = data.digest;
+    }
+
+    const emailContent = templates[data.type](context);
+
+    const emailResponse = await getEmailProvider().send({
+      from: "Blog Platform <notifications@yourdomain.com>",
+      to: user.email,
+      subject: singleLine(emailContent.subject),
+      html: emailContent.html,
+      text: emailContent.text,
       headers: {
-        "Content-Type": "application/json",
-        ...corsHeaders,
+        "List-Unsubscribe": `<${oneClickUrl}>`,
+        "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
       },
+      idempotencyKey: data.idempotencyKey,
     });
-  } catch (error: any) {
+
+    console.log(`Sent ${data.type} email:`, emailResponse);
+
+    return json(emailResponse);
+  } catch (error) {
     console.error("Error in send-notifications function:", error);
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      {
-        status: 500,
-        headers: { "Content-Type": "application/json", ...corsHeaders },
-      }
-    );
+    return json({ error: error instanceof Error ? error.message : "Failed to send notification" }, 500);
   }
 };
 
-serve(handler);
\ No newline at end of file
+serve(handler);
@@ -0,0 +1,335 @@
+// Email templates. Every value interpolated into HTML goes through escapeHtml
+// (or encodeURIComponent for URL parts), and every template also renders a
+// plain-text alternative.
+
+export interface DigestPost {
+  title: string;
+  slug: string;
+  excerpt?: string | null;
+  authorName?: string | null;
+}
+
+export interface DigestArticleActivity {
+  title: string;
+  slug: string;
+  views: number;
+  likes: number;
+  comments: number;
+}
+
+// Assembled by queue_weekly_digests() in the database
+export interface WeeklyDigest {
+  periodStart: string;
+  periodEnd: string;
+  followedPosts: DigestPost[];
+  topPosts: DigestPost[];
+  articleActivity: DigestArticleActivity[];
+  // Notification type -> how many arrived this week
+  updates: Record<string, number>;
+}
+
+// Everything a template may show, looked up server-side from IDs
+export interface EmailContext {
+  recipientName: string;
+  actorName?: string;
+  blog?: { title: string; slug: string };
+  comment?: { id: string; content: string };
+  // Latest rejection of the post or of its staged edits, for blog_rejected
+  review?: { editsOnly: boolean; reason: string; feedback: string | null; noteCount: number };
+  digest?: WeeklyDigest;
+  unsubscribeUrl: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const siteUrl = (path: string) => `${Deno.env.get("SITE_URL")}${path}`;
+
+const blogUrl = (slug: string, commentId?: string) =>
+  siteUrl(`/blog/${encodeURIComponent(slug)}${commentId ? `#comment-${encodeURIComponent(commentId)}` : ""}`);
+
+const button = (url: string, label: string, color = "#0066cc") =>
+  `<a href="${escapeHtml(url)}" style="background-color: ${color}; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px; display: inline-block;">${escapeHtml(label)}</a>`;
+
+const quote = (content: string) => `
+  <div style="background-color: #f5f5f5; padding: 15px; border-left: 4px solid #0066cc; margin: 15px 0;">
+    "${escapeHtml(content)}"
+  </div>
+`;
+
+// Shared wrapper: heading, greeting, body, sign-off and the unsubscribe footer
+const layout = (context: EmailContext, heading: string, body: string, headingColor = "#333") => `
+  <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+    <h2 style="color: ${headingColor};">${escapeHtml(heading)}</h2>
+    <p>Hi ${escapeHtml(context.recipientName)},</p>
+    ${body}
+    <p style="margin-top: 20px; color: #666; font-size: 14px;">
+      Best regards,<br>
+      The Blog Team
+    </p>
+    <p style="margin-top: 30px; color: #999; font-size: 12px;">
+      Don't want these emails? <a href="${escapeHtml(context.unsubscribeUrl)}" style="color: #999;">Unsubscribe</a> or
+      <a href="${escapeHtml(siteUrl("/settings/notifications"))}" style="color: #999;">manage your notification settings</a>.
+    </p>
+  </div>
+`;
+
+const textLayout = (context: EmailContext, lines: string[]) => [
+  `Hi ${context.recipientName},`,
+  "",
+  ...lines,
+  "",
+  "Best regards,",
+  "The Blog Team",
+  "",
+  `Unsubscribe: ${context.unsubscribeUrl}`,
+  `Manage your notification settings: ${siteUrl("/settings/notifications")}`,
+].join("\n");
+
+const UPDATE_LABELS: Record<string, [string, string]> = {
+  mention: ["mention", "mentions"],
+  comment: ["comment on your posts", "comments on your posts"],
+  reply: ["reply to your comments", "replies to your comments"],
+  follow: ["new follower", "new followers"],
+  blog_approved: ["post approved", "posts approved"],
+  blog_rejected: ["post not approved", "posts not approved"],
+};
+
+// Mirrors REJECTION_REASONS in src/lib/reviews.ts
+const REJECTION_REASON_LABELS: Record<string, string> = {
+  needs_work: "Needs more work",
+  formatting: "Formatting issues",
+  sources: "Missing sources",
+  off_topic: "Off-topic",
+  duplicate: "Duplicate or copied",
+  policy: "Content policy",
+  other: "Something else",
+};
+
+const reviewHtml = (review: NonNullable<EmailContext["review"]>) => `
+  <p><strong>Reason:</strong> ${escapeHtml(REJECTION_REASON_LABELS[review.reason] ?? review.reason)}</p>
+  ${review.feedback ? quote(review.feedback) : ""}
+  ${review.noteCount > 0 ? `<p>The moderator also left ${review.noteCount} note${review.noteCount === 1 ? "" : "s"} on specific paragraphs.</p>` : ""}
+`;
+
+const reviewText = (review: NonNullable<EmailContext["review"]>) => [
+  `Reason: ${REJECTION_REASON_LABELS[review.reason] ?? review.reason}`,
+  ...(review.feedback ? [review.feedback] : []),
+  ...(review.noteCount > 0 ? [`The moderator also left ${review.noteCount} note${review.noteCount === 1 ? "" : "s"} on specific paragraphs.`] : []),
+];
+
+const digestPostsHtml = (posts: DigestPost[]) => posts.map((post) => `
+  <div style="margin: 0 0 16px;">
+    <a href="${escapeHtml(blogUrl(post.slug))}" style="color: #0066cc; font-size: 16px; font-weight: bold; text-decoration: none;">${escapeHtml(post.title)}</a>
+    ${post.authorName ? `<div style="color: #666; font-size: 13px;">by ${escapeHtml(post.authorName)}</div>` : ""}
+    ${post.excerpt ? `<div style="color: #333; font-size: 14px; margin-top: 4px;">${escapeHtml(post.excerpt)}</div>` : ""}
+  </div>
+`).join("");
+
+const digestPostsText = (posts: DigestPost[]) =>
+  posts.map((post) => `- ${post.title}${post.authorName ? ` by ${post.authorName}` : ""}\n  ${blogUrl(post.slug)}`);
+
+const digestSection = (title: string, content: string) => `
+  <h3 style="color: #333; border-bottom: 1px solid #eee; padding-bottom: 6px; margin-top: 28px;">${escapeHtml(title)}</h3>
+  ${content}
+`;
+
+export const templates: Record<string, (context: EmailContext) => RenderedEmail> = {
+  new_blog: (context) => {
+    const blog = context.blog!;
+    return {
+      subject: `New blog post: ${blog.title}`,
+      html: layout(context, "New Blog Post Published!", `
+        <p>A new blog post has been published:</p>
+        <h3 style="color: #0066cc;">${escapeHtml(blog.title)}</h3>
+        ${context.actorName ? `<p>by ${escapeHtml(context.actorName)}</p>` : ""}
+        ${button(blogUrl(blog.slug), "Read Article")}
+      `),
+      text: textLayout(context, [
+        "A new blog post has been published:",
+        "",
+        `${blog.title}${context.actorName ? ` by ${context.actorName}` : ""}`,
+        blogUrl(blog.slug),
+      ]),
+    };
+  },
+
+  new_comment: (context) => {
+    const blog = context.blog!;
+    const comment = context.comment!;
+    return {
+      subject: `New comment on: ${blog.title}`,
+      html: layout(context, "New Comment on Your Blog Post!", `
+        <p>${escapeHtml(context.actorName ?? "Someone")} commented on your blog post:</p>
+        <h3 style="color: #0066cc;">${escapeHtml(blog.title)}</h3>
+        ${quote(comment.content)}
+        ${button(blogUrl(blog.slug, comment.id), "View Comment")}
+      `),
+      text: textLayout(context, [
+        `${context.actorName ?? "Someone"} commented on your blog post "${blog.title}":`,
+        "",
+        comment.content,
+        "",
+        `View comment: ${blogUrl(blog.slug, comment.id)}`,
+      ]),
+    };
+  },
+
+  new_reply: (context) => {
+    const blog = context.blog!;
+    const comment = context.comment!;
+    return {
+      subject: `${context.actorName ?? "Someone"} replied to your comment`,
+      html: layout(context, "New Reply to Your Comment", `
+        <p>${escapeHtml(context.actorName ?? "Someone")} replied to your comment on <strong>${escapeHtml(blog.title)}</strong>:</p>
+        ${quote(comment.content)}
+        ${button(blogUrl(blog.slug, comment.id), "View Reply")}
+      `),
+      text: textLayout(context, [
+        `${context.actorName ?? "Someone"} replied to your comment on "${blog.title}":`,
+        "",
+        comment.content,
+        "",
+        `View reply: ${blogUrl(blog.slug, comment.id)}`,
+      ]),
+    };
+  },
+
+  new_mention: (context) => {
+    const blog = context.blog!;
+    const comment = context.comment!;
+    return {
+      subject: `${context.actorName ?? "Someone"} mentioned you in a comment`,
+      html: layout(context, "You Were Mentioned", `
+        <p>${escapeHtml(context.actorName ?? "Someone")} mentioned you in a comment on <strong>${escapeHtml(blog.title)}</strong>:</p>
+        ${quote(comment.content)}
+        ${button(blogUrl(blog.slug, comment.id), "View Comment")}
+      `),
+      text: textLayout(context, [
+        `${context.actorName ?? "Someone"} mentioned you in a comment on "${blog.title}":`,
+        "",
+        comment.content,
+        "",
+        `View comment: ${blogUrl(blog.slug, comment.id)}`,
+      ]),
+    };
+  },
+
+  new_follower: (context) => ({
+    subject: `${context.actorName ?? "Someone"} started following you`,
+    html: layout(context, "You Have a New Follower!", `
+      <p>${escapeHtml(context.actorName ?? "Someone")} started following you and will see your new posts in their feed.</p>
+    `),
+    text: textLayout(context, [
+      `${context.actorName ?? "Someone"} started following you and will see your new posts in their feed.`,
+    ]),
+  }),
+
+  blog_approved: (context) => {
+    const blog = context.blog!;
+    return {
+      subject: `Your blog post has been approved: ${blog.title}`,
+      html: layout(context, "Congratulations! Your Blog Post is Live!", `
+        <p>Great news! Your blog post has been approved and is now live:</p>
+        <h3 style="color: #0066cc;">${escapeHtml(blog.title)}</h3>
+        ${button(blogUrl(blog.slug), "View Your Post", "#28a745")}
+        <p style="margin-top: 20px;">
+          Your post is now visible to all readers. Share it with your network to get more engagement!
+        </p>
+      `, "#28a745"),
+      text: textLayout(context, [
+        `Great news! Your blog post "${blog.title}" has been approved and is now live:`,
+        blogUrl(blog.slug),
+        "",
+        "Your post is now visible to all readers. Share it with your network to get more engagement!",
+      ]),
+    };
+  },
+
+  blog_rejected: (context) => {
+    const blog = context.blog!;
+    const editsOnly = context.review?.editsOnly ?? false;
+    const summary = editsOnly
+      ? "did not approve your latest edits. The published version is unchanged"
+      : "did not approve it this time";
+    return {
+      subject: `${editsOnly ? "Your edits were not approved" : "Your blog post was not approved"}: ${blog.title}`,
+      html: layout(context, editsOnly ? "Your Edits Need Changes" : "Your Blog Post Needs Changes", `
+        <p>A moderator reviewed your blog post and ${summary}:</p>
+        <h3 style="color: #0066cc;">${escapeHtml(blog.title)}</h3>
+        ${context.review ? reviewHtml(context.review) : ""}
+        <p>You can revise the post and resubmit it for review from your dashboard.</p>
+        ${button(siteUrl("/dashboard"), "Go to Dashboard")}
+      `),
+      text: textLayout(context, [
+        `A moderator reviewed your blog post "${blog.title}" and ${summary}.`,
+        ...(context.review ? reviewText(context.review) : []),
+        `You can revise the post and resubmit it for review from your dashboard: ${siteUrl("/dashboard")}`,
+      ]),
+    };
+  },
+
+  weekly_digest: (context) => {
+    const digest = context.digest!;
+    const updates = Object.entries(digest.updates)
+      .filter(([type]) => UPDATE_LABELS[type])
+      .map(([type, count]) => `${count} ${UPDATE_LABELS[type][count === 1 ? 0 : 1]}`);
+
+    const html = [
+      "<p>Here's what happened this week.</p>",
+      digest.followedPosts.length > 0
+        ? digestSection("From authors and tags you follow", digestPostsHtml(digest.followedPosts))
+        : "",
+      digest.topPosts.length > 0 ? digestSection("Top posts this week", digestPostsHtml(digest.topPosts)) : "",
+      digest.articleActivity.length > 0
+        ? digestSection("Your articles", digest.articleActivity.map((article) => `
+          <p style="margin: 0 0 10px;">
+            <a href="${escapeHtml(blogUrl(article.slug))}" style="color: #0066cc; text-decoration: none;">${escapeHtml(article.title)}</a><br>
+            <span style="color: #666; font-size: 13px;">${article.views} views · ${article.likes} likes · ${article.comments} comments</span>
+          </p>
+        `).join(""))
+        : "",
+      updates.length > 0
+        ? digestSection("Notifications", `
+          <p>You have ${escapeHtml(updates.join(", "))}.</p>
+          ${button(siteUrl("/notifications"), "View Notifications")}
+        `)
+        : "",
+    ].join("");
+
+    const text: string[] = ["Here's what happened this week."];
+    if (digest.followedPosts.length > 0) {
+      text.push("", "FROM AUTHORS AND TAGS YOU FOLLOW", ...digestPostsText(digest.followedPosts));
+    }
+    if (digest.topPosts.length > 0) {
+      text.push("", "TOP POSTS THIS WEEK", ...digestPostsText(digest.topPosts));
+    }
+    if (digest.articleActivity.length > 0) {
+      text.push("", "YOUR ARTICLES", ...digest.articleActivity.map((article) =>
+        `- ${article.title}: ${article.views} views, ${article.likes} likes, ${article.comments} comments`
+      ));
+    }
+    if (updates.length > 0) {
+      text.push("", "NOTIFICATIONS", `You have ${updates.join(", ")}.`, siteUrl("/notifications"));
+    }
+
+    return {
+      subject: digest.followedPosts.length > 0
+        ? `Your weekly digest: ${digest.followedPosts.length} new from people you follow`
+        : "Your weekly digest",
+      html: layout(context, "Your Week on the Blog", html),
+      text: textLayout(context, text),
+    };
+  },
+};
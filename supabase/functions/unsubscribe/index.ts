@@ -0,0 +1,63 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifyUnsubscribeToken } from "../_shared/unsubscribe.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// Deployed without JWT verification: the signed token is the only credential,
+// so recipients can unsubscribe without logging in.
+const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { "Content-Type": "application/json", ...corsHeaders },
+    });
+
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  try {
+    // One-click unsubscribes from mail clients carry the token in the URL and a
+    // form body of "List-Unsubscribe=One-Click"; the site sends JSON.
+    let token = new URL(req.url).searchParams.get("token");
+    if (!token && req.headers.get("content-type")?.includes("application/json")) {
+      token = (await req.json()).token ?? null;
+    }
+
+    const subscription = token ? await verifyUnsubscribeToken(token) : null;
+    if (!subscription) {
+      return json({ error: "Invalid unsubscribe link" }, 400);
+    }
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+    );
+
+    const { error } = await supabase.rpc("unsubscribe_email", {
+      _user_id: subscription.profileId,
+      _event_type: subscription.eventType,
+    });
+
+    if (error) throw error;
+
+    console.log("Unsubscribed:", subscription);
+
+    return json({ eventType: subscription.eventType });
+  } catch (error) {
+    console.error("Error in unsubscribe function:", error);
+    return json({ error: "Could not update your email settings" }, 500);
+  }
+};
+
+serve(handler);
@@ -0,0 +1,44 @@
+-- Edits to an approved article are staged here until an admin approves them,
+-- so the approved version stays live while the changes are under review
+ALTER TABLE public.blogs ADD COLUMN pending_changes JSONB;
+
+-- Guard moderation fields against direct writes by non-admins
+CREATE OR REPLACE FUNCTION public.protect_blog_moderation_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  -- Service-role and internal callers have no auth.uid() and are trusted
+  IF auth.uid() IS NULL OR EXISTS(SELECT 1 FROM profiles WHERE user_id = auth.uid() AND role = 'admin') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'approved' AND OLD.status IS DISTINCT FROM 'approved' THEN
+    RAISE EXCEPTION 'Only admins can approve articles';
+  END IF;
+
+  -- Slugs are permanent so existing links keep working
+  NEW.slug := OLD.slug;
+  NEW.published_at := OLD.published_at;
+
+  -- Live content of an approved article can only change through pending_changes
+  IF OLD.status = 'approved' AND NEW.status = 'approved' AND (
+    NEW.title IS DISTINCT FROM OLD.title OR
+    NEW.content IS DISTINCT FROM OLD.content OR
+    NEW.excerpt IS DISTINCT FROM OLD.excerpt OR
+    NEW.tags IS DISTINCT FROM OLD.tags OR
+    NEW.cover_image_url IS DISTINCT FROM OLD.cover_image_url OR
+    NEW.reading_time IS DISTINCT FROM OLD.reading_time
+  ) THEN
+    RAISE EXCEPTION 'Edits to a published article must be submitted for review';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_blogs_moderation_fields
+  BEFORE UPDATE ON public.blogs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_blog_moderation_fields();
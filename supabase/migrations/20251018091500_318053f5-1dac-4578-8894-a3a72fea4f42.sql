@@ -0,0 +1,44 @@
+-- Allow articles to be saved as private drafts before they are submitted
+ALTER TABLE public.blogs DROP CONSTRAINT IF EXISTS blogs_status_check;
+ALTER TABLE public.blogs ADD CONSTRAINT blogs_status_check
+  CHECK (status IN ('draft', 'pending', 'approved', 'rejected', 'hidden'));
+
+-- Drafts are not linked anywhere yet, so their slug may still follow the title
+CREATE OR REPLACE FUNCTION public.protect_blog_moderation_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  -- Service-role and internal callers have no auth.uid() and are trusted
+  IF auth.uid() IS NULL OR EXISTS(SELECT 1 FROM profiles WHERE user_id = auth.uid() AND role = 'admin') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'approved' AND OLD.status IS DISTINCT FROM 'approved' THEN
+    RAISE EXCEPTION 'Only admins can approve articles';
+  END IF;
+
+  -- Slugs are permanent once submitted so existing links keep working
+  IF OLD.status IS DISTINCT FROM 'draft' THEN
+    NEW.slug := OLD.slug;
+  END IF;
+  NEW.published_at := OLD.published_at;
+
+  -- Live content of an approved article can only change through pending_changes
+  IF OLD.status = 'approved' AND NEW.status = 'approved' AND (
+    NEW.title IS DISTINCT FROM OLD.title OR
+    NEW.content IS DISTINCT FROM OLD.content OR
+    NEW.excerpt IS DISTINCT FROM OLD.excerpt OR
+    NEW.tags IS DISTINCT FROM OLD.tags OR
+    NEW.cover_image_url IS DISTINCT FROM OLD.cover_image_url OR
+    NEW.reading_time IS DISTINCT FROM OLD.reading_time
+  ) THEN
+    RAISE EXCEPTION 'Edits to a published article must be submitted for review';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE INDEX idx_blogs_author_status ON public.blogs(author_id, status);
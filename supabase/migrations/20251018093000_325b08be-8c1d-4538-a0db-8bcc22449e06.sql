@@ -0,0 +1,106 @@
+-- Create blog revisions table holding a snapshot of every saved version
+CREATE TABLE public.blog_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  blog_id UUID NOT NULL REFERENCES public.blogs(id) ON DELETE CASCADE,
+  author_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('draft', 'edit', 'staged', 'approved')),
+  title TEXT NOT NULL,
+  content TEXT NOT NULL,
+  excerpt TEXT,
+  tags TEXT[],
+  cover_image_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.blog_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Revisions are written by trigger only; authors and admins can read them
+CREATE POLICY "Authors can view revisions of their blogs"
+ON public.blog_revisions FOR SELECT
+USING (auth.uid() = (SELECT p.user_id FROM blogs b JOIN profiles p ON p.id = b.author_id WHERE b.id = blog_id));
+
+CREATE POLICY "Admins can view all revisions"
+ON public.blog_revisions FOR SELECT
+USING (EXISTS(SELECT 1 FROM profiles WHERE user_id = auth.uid() AND role = 'admin'));
+
+CREATE INDEX idx_blog_revisions_blog_id ON public.blog_revisions(blog_id, created_at DESC);
+
+-- Record a revision whenever the live content, the staged edits or the approval state change
+CREATE OR REPLACE FUNCTION public.record_blog_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  editor_id UUID;
+  latest public.blog_revisions%ROWTYPE;
+  live_changed BOOLEAN;
+BEGIN
+  SELECT id INTO editor_id FROM profiles WHERE user_id = auth.uid();
+  editor_id := COALESCE(editor_id, NEW.author_id);
+
+  live_changed := TG_OP = 'INSERT' OR (
+    NEW.title IS DISTINCT FROM OLD.title OR
+    NEW.content IS DISTINCT FROM OLD.content OR
+    NEW.excerpt IS DISTINCT FROM OLD.excerpt OR
+    NEW.tags IS DISTINCT FROM OLD.tags OR
+    NEW.cover_image_url IS DISTINCT FROM OLD.cover_image_url
+  );
+
+  IF live_changed AND NEW.status = 'draft' THEN
+    -- Fold autosaves from the same editing session into one revision
+    SELECT * INTO latest FROM blog_revisions
+    WHERE blog_id = NEW.id
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF latest.id IS NOT NULL AND latest.kind = 'draft' AND latest.author_id = editor_id
+       AND latest.created_at > now() - interval '10 minutes' THEN
+      UPDATE blog_revisions
+      SET title = NEW.title, content = NEW.content, excerpt = NEW.excerpt,
+          tags = NEW.tags, cover_image_url = NEW.cover_image_url
+      WHERE id = latest.id;
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  IF live_changed OR (NEW.status = 'approved' AND OLD.status IS DISTINCT FROM 'approved') THEN
+    INSERT INTO blog_revisions (blog_id, author_id, kind, title, content, excerpt, tags, cover_image_url)
+    VALUES (
+      NEW.id,
+      editor_id,
+      CASE NEW.status WHEN 'draft' THEN 'draft' WHEN 'approved' THEN 'approved' ELSE 'edit' END,
+      NEW.title, NEW.content, NEW.excerpt, NEW.tags, NEW.cover_image_url
+    );
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.pending_changes IS NOT NULL
+     AND NEW.pending_changes IS DISTINCT FROM OLD.pending_changes THEN
+    INSERT INTO blog_revisions (blog_id, author_id, kind, title, content, excerpt, tags, cover_image_url)
+    VALUES (
+      NEW.id,
+      editor_id,
+      'staged',
+      NEW.pending_changes->>'title',
+      NEW.pending_changes->>'content',
+      NEW.pending_changes->>'excerpt',
+      ARRAY(SELECT jsonb_array_elements_text(COALESCE(NEW.pending_changes->'tags', '[]'::jsonb))),
+      NEW.pending_changes->>'cover_image_url'
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_blogs_revision
+  AFTER INSERT OR UPDATE ON public.blogs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_blog_revision();
+
+-- Seed history with the current version of every existing article
+INSERT INTO public.blog_revisions (blog_id, author_id, kind, title, content, excerpt, tags, cover_image_url, created_at)
+SELECT id, author_id,
+       CASE status WHEN 'draft' THEN 'draft' WHEN 'approved' THEN 'approved' ELSE 'edit' END,
+       title, content, excerpt, tags, cover_image_url, updated_at
+FROM public.blogs;
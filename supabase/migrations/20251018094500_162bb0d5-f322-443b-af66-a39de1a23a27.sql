@@ -0,0 +1,10 @@
+-- Authors can ask for a publish time; admins decide the final published_at
+ALTER TABLE public.blogs ADD COLUMN requested_publish_at TIMESTAMP WITH TIME ZONE;
+
+-- Approved posts with a future published_at stay hidden until that moment
+DROP POLICY IF EXISTS "Published blogs are viewable by everyone" ON public.blogs;
+CREATE POLICY "Published blogs are viewable by everyone" 
+ON public.blogs FOR SELECT 
+USING ((status = 'approved' AND published_at <= now()) OR auth.uid() = (SELECT user_id FROM profiles WHERE id = author_id));
+
+CREATE INDEX idx_blogs_published_at ON public.blogs(published_at DESC);
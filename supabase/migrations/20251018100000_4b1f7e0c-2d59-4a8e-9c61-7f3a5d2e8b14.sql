@@ -0,0 +1,115 @@
+-- Create bookmark folders so readers can organize their reading list
+CREATE TABLE public.bookmark_folders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 60),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, name)
+);
+
+-- Create bookmarks table
+CREATE TABLE public.bookmarks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  blog_id UUID NOT NULL REFERENCES public.blogs(id) ON DELETE CASCADE,
+  folder_id UUID REFERENCES public.bookmark_folders(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, blog_id)
+);
+
+ALTER TABLE public.bookmark_folders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bookmarks ENABLE ROW LEVEL SECURITY;
+
+-- Bookmark folder policies
+CREATE POLICY "Users can view their own bookmark folders"
+ON public.bookmark_folders FOR SELECT
+USING (auth.uid() = (SELECT user_id FROM profiles WHERE id = bookmark_folders.user_id));
+
+CREATE POLICY "Users can create bookmark folders"
+ON public.bookmark_folders FOR INSERT
+WITH CHECK (auth.uid() = (SELECT user_id FROM profiles WHERE id = bookmark_folders.user_id));
+
+CREATE POLICY "Users can rename their own bookmark folders"
+ON public.bookmark_folders FOR UPDATE
+USING (auth.uid() = (SELECT user_id FROM profiles WHERE id = bookmark_folders.user_id));
+
+CREATE POLICY "Users can delete their own bookmark folders"
+ON public.bookmark_folders FOR DELETE
+USING (auth.uid() = (SELECT user_id FROM profiles WHERE id = bookmark_folders.user_id));
+
+-- Bookmark policies; a bookmark can only be filed into one of the owner's folders
+CREATE POLICY "Users can view their own bookmarks"
+ON public.bookmarks FOR SELECT
+USING (auth.uid() = (SELECT user_id FROM profiles WHERE id = bookmarks.user_id));
+
+CREATE POLICY "Users can bookmark blogs"
+ON public.bookmarks FOR INSERT
+WITH CHECK (
+  auth.uid() = (SELECT user_id FROM profiles WHERE id = bookmarks.user_id)
+  AND (folder_id IS NULL OR EXISTS(SELECT 1 FROM bookmark_folders f WHERE f.id = folder_id AND f.user_id = bookmarks.user_id))
+);
+
+CREATE POLICY "Users can move their own bookmarks"
+ON public.bookmarks FOR UPDATE
+USING (auth.uid() = (SELECT user_id FROM profiles WHERE id = bookmarks.user_id))
+WITH CHECK (
+  auth.uid() = (SELECT user_id FROM profiles WHERE id = bookmarks.user_id)
+  AND (folder_id IS NULL OR EXISTS(SELECT 1 FROM bookmark_folders f WHERE f.id = folder_id AND f.user_id = bookmarks.user_id))
+);
+
+CREATE POLICY "Users can remove their own bookmarks"
+ON public.bookmarks FOR DELETE
+USING (auth.uid() = (SELECT user_id FROM profiles WHERE id = bookmarks.user_id));
+
+CREATE INDEX idx_bookmarks_user_id ON public.bookmarks(user_id, created_at DESC);
+CREATE INDEX idx_bookmarks_blog_id ON public.bookmarks(blog_id);
+CREATE INDEX idx_bookmarks_folder_id ON public.bookmarks(folder_id);
+
+-- Track how often each blog is saved
+ALTER TABLE public.blogs ADD COLUMN bookmarks_count INTEGER DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.update_blog_stats()
+RETURNS TRIGGER 
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'likes' THEN
+    IF TG_OP = 'INSERT' THEN
+      UPDATE public.blogs 
+      SET likes_count = likes_count + 1 
+      WHERE id = NEW.blog_id;
+    ELSIF TG_OP = 'DELETE' THEN
+      UPDATE public.blogs 
+      SET likes_count = likes_count - 1 
+      WHERE id = OLD.blog_id;
+    END IF;
+  ELSIF TG_TABLE_NAME = 'comments' THEN
+    IF TG_OP = 'INSERT' THEN
+      UPDATE public.blogs 
+      SET comments_count = comments_count + 1 
+      WHERE id = NEW.blog_id;
+    ELSIF TG_OP = 'DELETE' THEN
+      UPDATE public.blogs 
+      SET comments_count = comments_count - 1 
+      WHERE id = OLD.blog_id;
+    END IF;
+  ELSIF TG_TABLE_NAME = 'bookmarks' THEN
+    IF TG_OP = 'INSERT' THEN
+      UPDATE public.blogs 
+      SET bookmarks_count = bookmarks_count + 1 
+      WHERE id = NEW.blog_id;
+    ELSIF TG_OP = 'DELETE' THEN
+      UPDATE public.blogs 
+      SET bookmarks_count = GREATEST(bookmarks_count - 1, 0) 
+      WHERE id = OLD.blog_id;
+    END IF;
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER update_bookmarks_count
+  AFTER INSERT OR DELETE ON public.bookmarks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_blog_stats();
@@ -0,0 +1,77 @@
+-- View events used to deduplicate the views counter per reader
+CREATE TABLE public.blog_views (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  blog_id UUID NOT NULL REFERENCES public.blogs(id) ON DELETE CASCADE,
+  viewer_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  visitor_id TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (viewer_id IS NOT NULL OR visitor_id IS NOT NULL)
+);
+
+-- Events are only written through record_blog_view, so no policies are granted
+ALTER TABLE public.blog_views ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_blog_views_viewer ON public.blog_views(blog_id, viewer_id, created_at DESC);
+CREATE INDEX idx_blog_views_visitor ON public.blog_views(blog_id, visitor_id, created_at DESC);
+
+-- Record a view of a published blog and return the current views count.
+-- Signed-in readers are identified by their profile, anonymous readers by a
+-- client-generated visitor id; repeat views inside the window are not counted
+-- and authors viewing their own articles are ignored.
+CREATE OR REPLACE FUNCTION public.record_blog_view(_blog_id UUID, _visitor_id TEXT DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  dedupe_window CONSTANT INTERVAL := INTERVAL '6 hours';
+  target public.blogs%ROWTYPE;
+  current_viewer UUID;
+  visitor TEXT := left(NULLIF(trim(_visitor_id), ''), 64);
+  new_count INTEGER;
+BEGIN
+  SELECT * INTO target FROM blogs
+  WHERE id = _blog_id AND status = 'approved' AND published_at <= now();
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT id INTO current_viewer FROM profiles WHERE user_id = auth.uid();
+
+  IF current_viewer IS NULL AND visitor IS NULL THEN
+    RETURN target.views_count;
+  END IF;
+
+  IF current_viewer = target.author_id THEN
+    RETURN target.views_count;
+  END IF;
+
+  -- Serialize concurrent requests from the same reader so only one is counted
+  PERFORM pg_advisory_xact_lock(hashtext(_blog_id::TEXT || COALESCE(current_viewer::TEXT, visitor)));
+
+  IF EXISTS(
+    SELECT 1 FROM blog_views
+    WHERE blog_id = _blog_id
+      AND created_at > now() - dedupe_window
+      AND (
+        (current_viewer IS NOT NULL AND viewer_id = current_viewer) OR
+        (current_viewer IS NULL AND visitor_id = visitor)
+      )
+  ) THEN
+    RETURN target.views_count;
+  END IF;
+
+  INSERT INTO blog_views (blog_id, viewer_id, visitor_id)
+  VALUES (_blog_id, current_viewer, CASE WHEN current_viewer IS NULL THEN visitor END);
+
+  UPDATE blogs
+  SET views_count = COALESCE(views_count, 0) + 1
+  WHERE id = _blog_id
+  RETURNING views_count INTO new_count;
+
+  RETURN new_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_blog_view(UUID, TEXT) TO anon, authenticated;
@@ -0,0 +1,62 @@
+-- Every profile needs a username for its public /u/:username page
+CREATE OR REPLACE FUNCTION public.generate_username(base TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  stem TEXT;
+  candidate TEXT;
+BEGIN
+  stem := left(trim(BOTH '_' FROM regexp_replace(lower(COALESCE(base, '')), '[^a-z0-9]+', '_', 'g')), 20);
+  IF char_length(stem) < 3 THEN
+    stem := 'user' || stem;
+  END IF;
+
+  candidate := stem;
+  WHILE EXISTS(SELECT 1 FROM profiles WHERE lower(username) = candidate) LOOP
+    candidate := stem || '_' || floor(random() * 10000)::INT;
+  END LOOP;
+
+  RETURN candidate;
+END;
+$$;
+
+-- Generate a username on signup when none is provided
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (user_id, username, full_name, role)
+  VALUES (
+    NEW.id,
+    COALESCE(
+      NULLIF(trim(NEW.raw_user_meta_data->>'username'), ''),
+      public.generate_username(COALESCE(NEW.raw_user_meta_data->>'full_name', split_part(NEW.email, '@', 1)))
+    ),
+    NEW.raw_user_meta_data->>'full_name',
+    CASE
+      WHEN EXISTS (SELECT 1 FROM public.admin_whitelist w WHERE lower(w.email) = lower(NEW.email)) THEN 'admin'
+      ELSE 'blogger'
+    END
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- Backfill existing profiles one at a time so generated names stay unique
+DO $$
+DECLARE
+  missing RECORD;
+BEGIN
+  FOR missing IN
+    SELECT p.id, COALESCE(p.full_name, split_part(u.email, '@', 1)) AS base
+    FROM public.profiles p
+    LEFT JOIN auth.users u ON u.id = p.user_id
+    WHERE p.username IS NULL OR trim(p.username) = ''
+  LOOP
+    UPDATE public.profiles SET username = public.generate_username(missing.base) WHERE id = missing.id;
+  END LOOP;
+END$$;
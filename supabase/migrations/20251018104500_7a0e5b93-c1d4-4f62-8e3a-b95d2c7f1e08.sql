@@ -0,0 +1,33 @@
+-- Usernames appear in profile URLs: lowercase letters, numbers and underscores only.
+-- Existing rows are left alone until their owner next edits them.
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_username_format CHECK (username ~ '^[a-z0-9_]{3,30}$') NOT VALID;
+
+-- Normalize any username supplied at signup so it satisfies the format
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (user_id, username, full_name, role)
+  VALUES (
+    NEW.id,
+    public.generate_username(COALESCE(
+      NULLIF(trim(NEW.raw_user_meta_data->>'username'), ''),
+      NEW.raw_user_meta_data->>'full_name',
+      split_part(NEW.email, '@', 1)
+    )),
+    NEW.raw_user_meta_data->>'full_name',
+    CASE
+      WHEN EXISTS (SELECT 1 FROM public.admin_whitelist w WHERE lower(w.email) = lower(NEW.email)) THEN 'admin'
+      ELSE 'blogger'
+    END
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- Bio length limit matching the settings form
+ALTER TABLE public.profiles
+  ADD CONSTRAINT profiles_bio_length CHECK (char_length(bio) <= 280) NOT VALID;
@@ -0,0 +1,28 @@
+-- Create follows table linking a follower profile to the profile they follow
+CREATE TABLE public.follows (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  follower_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  following_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(follower_id, following_id),
+  CHECK (follower_id <> following_id)
+);
+
+ALTER TABLE public.follows ENABLE ROW LEVEL SECURITY;
+
+-- Follows policies
+CREATE POLICY "Follows are viewable by everyone"
+ON public.follows FOR SELECT USING (true);
+
+CREATE POLICY "Users can follow authors"
+ON public.follows FOR INSERT
+WITH CHECK (auth.uid() = (SELECT user_id FROM profiles WHERE id = follower_id));
+
+CREATE POLICY "Users can unfollow authors"
+ON public.follows FOR DELETE
+USING (auth.uid() = (SELECT user_id FROM profiles WHERE id = follower_id));
+
+CREATE INDEX idx_follows_following_id ON public.follows(following_id);
+
+-- The feed pages through a set of authors' posts by publish date
+CREATE INDEX idx_blogs_author_published ON public.blogs(author_id, published_at DESC) WHERE status = 'approved';
@@ -0,0 +1,146 @@
+-- Weighted full-text search document: title > excerpt and tags > content
+ALTER TABLE public.blogs ADD COLUMN search_vector TSVECTOR;
+
+CREATE OR REPLACE FUNCTION public.update_blog_search_vector()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', COALESCE(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(NEW.excerpt, '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(array_to_string(NEW.tags, ' '), '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(NEW.content, '')), 'C');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER update_blogs_search_vector
+  BEFORE INSERT OR UPDATE OF title, excerpt, tags, content ON public.blogs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_blog_search_vector();
+
+-- Backfill existing rows through the trigger without touching updated_at
+ALTER TABLE public.blogs DISABLE TRIGGER update_blogs_updated_at;
+UPDATE public.blogs SET title = title;
+ALTER TABLE public.blogs ENABLE TRIGGER update_blogs_updated_at;
+
+CREATE INDEX idx_blogs_search_vector ON public.blogs USING GIN(search_vector);
+
+-- Turn raw user input into a tsquery without ever failing on syntax:
+-- "quoted text" is a phrase, a trailing * makes a prefix match, everything else is ANDed
+CREATE OR REPLACE FUNCTION public.parse_search_query(_query TEXT)
+RETURNS TSQUERY
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  part TEXT;
+  stem TEXT;
+  term TSQUERY;
+  result TSQUERY;
+BEGIN
+  FOR part IN
+    SELECT match[1] FROM regexp_matches(COALESCE(_query, ''), '"[^"]+"|[^[:space:]"]+', 'g') AS match
+  LOOP
+    IF part LIKE '"%"' THEN
+      term := phraseto_tsquery('english', trim(BOTH '"' FROM part));
+    ELSIF part LIKE '%*' THEN
+      stem := regexp_replace(lower(part), '[^[:alnum:]]+', '', 'g');
+      term := CASE WHEN stem <> '' THEN to_tsquery('english', stem || ':*') END;
+    ELSE
+      term := plainto_tsquery('english', part);
+    END IF;
+
+    -- Stop words produce empty queries that would match nothing
+    IF term IS NOT NULL AND numnode(term) > 0 THEN
+      result := CASE WHEN result IS NULL THEN term ELSE result && term END;
+    END IF;
+  END LOOP;
+
+  RETURN result;
+END;
+$$;
+
+-- Ranked search over published blogs. Matches in the highlighted title and
+-- snippet are wrapped in chr(2)/chr(3) so the client can mark them up safely.
+CREATE OR REPLACE FUNCTION public.search_blogs(
+  _query TEXT DEFAULT NULL,
+  _tags TEXT[] DEFAULT NULL,
+  _limit INTEGER DEFAULT 20,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  slug TEXT,
+  excerpt TEXT,
+  cover_image_url TEXT,
+  tags TEXT[],
+  reading_time INTEGER,
+  likes_count INTEGER,
+  comments_count INTEGER,
+  views_count INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE,
+  published_at TIMESTAMP WITH TIME ZONE,
+  author_id UUID,
+  author_full_name TEXT,
+  author_username TEXT,
+  author_avatar_url TEXT,
+  rank REAL,
+  title_highlight TEXT,
+  snippet TEXT,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  search_query TSQUERY := public.parse_search_query(_query);
+  highlight_options TEXT := 'StartSel=' || chr(2) || ', StopSel=' || chr(3);
+BEGIN
+  RETURN QUERY
+  SELECT
+    b.id,
+    b.title,
+    b.slug,
+    b.excerpt,
+    b.cover_image_url,
+    b.tags,
+    b.reading_time,
+    b.likes_count,
+    b.comments_count,
+    b.views_count,
+    b.created_at,
+    b.published_at,
+    b.author_id,
+    p.full_name,
+    p.username,
+    p.avatar_url,
+    CASE WHEN search_query IS NULL THEN 0::REAL ELSE ts_rank_cd(b.search_vector, search_query) END,
+    CASE WHEN search_query IS NULL THEN b.title
+      ELSE ts_headline('english', b.title, search_query, highlight_options || ', HighlightAll=true') END,
+    CASE WHEN search_query IS NULL THEN NULL
+      ELSE ts_headline(
+        'english',
+        regexp_replace(b.content, '[#*_`>|~\[\]]+', ' ', 'g'),
+        search_query,
+        highlight_options || ', MaxFragments=2, MaxWords=30, MinWords=12, FragmentDelimiter=" … "'
+      ) END,
+    count(*) OVER ()
+  FROM blogs b
+  LEFT JOIN profiles p ON p.id = b.author_id
+  WHERE b.status = 'approved'
+    AND b.published_at <= now()
+    AND (search_query IS NULL OR b.search_vector @@ search_query)
+    AND (_tags IS NULL OR cardinality(_tags) = 0 OR b.tags && _tags)
+  ORDER BY 17 DESC, b.published_at DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 100)
+  OFFSET GREATEST(_offset, 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_blogs(TEXT, TEXT[], INTEGER, INTEGER) TO anon, authenticated;
@@ -0,0 +1,110 @@
+-- Tag filters are matched with array operators, so index the tags column
+CREATE INDEX IF NOT EXISTS idx_blogs_tags ON public.blogs USING GIN(tags);
+
+-- Adding a parameter creates a new overload, so drop the old signature first
+DROP FUNCTION IF EXISTS public.search_blogs(TEXT, TEXT[], INTEGER, INTEGER);
+
+-- Same ranked search, with _tag_mode choosing between any ('any', overlap)
+-- and every ('all', containment) of the requested tags
+CREATE OR REPLACE FUNCTION public.search_blogs(
+  _query TEXT DEFAULT NULL,
+  _tags TEXT[] DEFAULT NULL,
+  _tag_mode TEXT DEFAULT 'any',
+  _limit INTEGER DEFAULT 20,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  slug TEXT,
+  excerpt TEXT,
+  cover_image_url TEXT,
+  tags TEXT[],
+  reading_time INTEGER,
+  likes_count INTEGER,
+  comments_count INTEGER,
+  views_count INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE,
+  published_at TIMESTAMP WITH TIME ZONE,
+  author_id UUID,
+  author_full_name TEXT,
+  author_username TEXT,
+  author_avatar_url TEXT,
+  rank REAL,
+  title_highlight TEXT,
+  snippet TEXT,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  search_query TSQUERY := public.parse_search_query(_query);
+  highlight_options TEXT := 'StartSel=' || chr(2) || ', StopSel=' || chr(3);
+BEGIN
+  RETURN QUERY
+  SELECT
+    b.id,
+    b.title,
+    b.slug,
+    b.excerpt,
+    b.cover_image_url,
+    b.tags,
+    b.reading_time,
+    b.likes_count,
+    b.comments_count,
+    b.views_count,
+    b.created_at,
+    b.published_at,
+    b.author_id,
+    p.full_name,
+    p.username,
+    p.avatar_url,
+    CASE WHEN search_query IS NULL THEN 0::REAL ELSE ts_rank_cd(b.search_vector, search_query) END,
+    CASE WHEN search_query IS NULL THEN b.title
+      ELSE ts_headline('english', b.title, search_query, highlight_options || ', HighlightAll=true') END,
+    CASE WHEN search_query IS NULL THEN NULL
+      ELSE ts_headline(
+        'english',
+        regexp_replace(b.content, '[#*_`>|~\[\]]+', ' ', 'g'),
+        search_query,
+        highlight_options || ', MaxFragments=2, MaxWords=30, MinWords=12, FragmentDelimiter=" … "'
+      ) END,
+    count(*) OVER ()
+  FROM blogs b
+  LEFT JOIN profiles p ON p.id = b.author_id
+  WHERE b.status = 'approved'
+    AND b.published_at <= now()
+    AND (search_query IS NULL OR b.search_vector @@ search_query)
+    AND (
+      _tags IS NULL OR cardinality(_tags) = 0
+      OR (_tag_mode = 'all' AND b.tags @> _tags)
+      OR (_tag_mode IS DISTINCT FROM 'all' AND b.tags && _tags)
+    )
+  ORDER BY 17 DESC, b.published_at DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 100)
+  OFFSET GREATEST(_offset, 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_blogs(TEXT, TEXT[], TEXT, INTEGER, INTEGER) TO anon, authenticated;
+
+-- Tags in use on published blogs with how many blogs carry each one
+CREATE OR REPLACE FUNCTION public.get_tag_counts()
+RETURNS TABLE (tag TEXT, blog_count BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT t.tag, count(*) AS blog_count
+  FROM blogs b
+  CROSS JOIN LATERAL unnest(b.tags) AS t(tag)
+  WHERE b.status = 'approved'
+    AND b.published_at <= now()
+    AND t.tag <> ''
+  GROUP BY t.tag
+  ORDER BY blog_count DESC, t.tag ASC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_tag_counts() TO anon, authenticated;
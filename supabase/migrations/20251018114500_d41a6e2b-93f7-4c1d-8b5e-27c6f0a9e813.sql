@@ -0,0 +1,30 @@
+-- Tag counts can now be limited to recently published blogs (for "popular" tags)
+-- and capped, so the old zero-argument signature is replaced
+DROP FUNCTION IF EXISTS public.get_tag_counts();
+
+CREATE OR REPLACE FUNCTION public.get_tag_counts(
+  _since TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _limit INTEGER DEFAULT NULL
+)
+RETURNS TABLE (tag TEXT, blog_count BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT t.tag, count(*) AS blog_count
+  FROM blogs b
+  CROSS JOIN LATERAL unnest(b.tags) AS t(tag)
+  WHERE b.status = 'approved'
+    AND b.published_at <= now()
+    AND (_since IS NULL OR b.published_at >= _since)
+    AND t.tag <> ''
+  GROUP BY t.tag
+  ORDER BY blog_count DESC, t.tag ASC
+  LIMIT _limit;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_tag_counts(TIMESTAMP WITH TIME ZONE, INTEGER) TO anon, authenticated;
+
+-- Tag pages sort a tag's posts by date or by likes
+CREATE INDEX IF NOT EXISTS idx_blogs_published_likes ON public.blogs(likes_count DESC, published_at DESC)
+  WHERE status = 'approved';
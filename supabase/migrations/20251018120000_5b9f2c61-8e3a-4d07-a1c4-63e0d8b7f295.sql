@@ -0,0 +1,324 @@
+-- Canonical tags. blogs.tags holds tag slugs; alternative spellings resolve through tag_synonyms
+CREATE TABLE public.tags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$' AND char_length(slug) <= 50),
+  name TEXT NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 50),
+  description TEXT CHECK (char_length(description) <= 280),
+  is_retired BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.tag_synonyms (
+  synonym TEXT NOT NULL PRIMARY KEY,
+  tag_id UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tag_synonyms ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can read tags; admins edit names and descriptions directly, everything
+-- that rewrites posts goes through the functions below
+CREATE POLICY "Tags are viewable by everyone"
+ON public.tags FOR SELECT USING (true);
+
+CREATE POLICY "Admins can update tags"
+ON public.tags FOR UPDATE
+USING (EXISTS(SELECT 1 FROM profiles WHERE user_id = auth.uid() AND role = 'admin'));
+
+CREATE POLICY "Tag synonyms are viewable by everyone"
+ON public.tag_synonyms FOR SELECT USING (true);
+
+CREATE POLICY "Admins can remove tag synonyms"
+ON public.tag_synonyms FOR DELETE
+USING (EXISTS(SELECT 1 FROM profiles WHERE user_id = auth.uid() AND role = 'admin'));
+
+CREATE INDEX idx_tag_synonyms_tag_id ON public.tag_synonyms(tag_id);
+
+CREATE TRIGGER update_tags_updated_at
+  BEFORE UPDATE ON public.tags
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- "React.js", " react js " and "REACT-JS" all become react-js
+CREATE OR REPLACE FUNCTION public.normalize_tag_slug(_tag TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT NULLIF(
+    trim(BOTH '-' FROM left(
+      trim(BOTH '-' FROM regexp_replace(
+        replace(replace(lower(COALESCE(_tag, '')), '+', 'plus'), '#', 'sharp'),
+        '[^a-z0-9]+', '-', 'g'
+      )),
+      50
+    )),
+    ''
+  );
+$$;
+
+-- Map one raw tag to its canonical slug, creating the tag the first time it is used.
+-- Retired tags resolve to NULL so they drop out of posts.
+CREATE OR REPLACE FUNCTION public.resolve_tag(_tag TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  tag_slug TEXT := public.normalize_tag_slug(_tag);
+  canonical public.tags%ROWTYPE;
+BEGIN
+  IF tag_slug IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT t.* INTO canonical
+  FROM tag_synonyms s
+  JOIN tags t ON t.id = s.tag_id
+  WHERE s.synonym = tag_slug;
+
+  IF NOT FOUND THEN
+    SELECT * INTO canonical FROM tags WHERE slug = tag_slug;
+  END IF;
+
+  IF NOT FOUND THEN
+    INSERT INTO tags (slug, name)
+    VALUES (tag_slug, left(trim(_tag), 50))
+    ON CONFLICT (slug) DO NOTHING;
+    RETURN tag_slug;
+  END IF;
+
+  RETURN CASE WHEN canonical.is_retired THEN NULL ELSE canonical.slug END;
+END;
+$$;
+
+-- Resolve a whole tag list, dropping blanks and duplicates but keeping the author's order
+CREATE OR REPLACE FUNCTION public.normalize_tags(_tags TEXT[])
+RETURNS TEXT[]
+LANGUAGE sql
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(resolved.slug ORDER BY resolved.position), '{}')
+  FROM (
+    SELECT r.slug, min(u.position) AS position
+    FROM unnest(_tags) WITH ORDINALITY AS u(tag, position)
+    CROSS JOIN LATERAL public.resolve_tag(u.tag) AS r(slug)
+    WHERE r.slug IS NOT NULL
+    GROUP BY r.slug
+  ) resolved;
+$$;
+
+-- Staged edits keep their tags in JSON until an admin applies them
+CREATE OR REPLACE FUNCTION public.normalize_pending_tags(_changes JSONB)
+RETURNS JSONB
+LANGUAGE sql
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(_changes->'tags') = 'array' THEN
+      jsonb_set(
+        _changes,
+        '{tags}',
+        to_jsonb(public.normalize_tags(ARRAY(SELECT jsonb_array_elements_text(_changes->'tags'))))
+      )
+    ELSE _changes
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.normalize_blog_tags()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.tags IS DISTINCT FROM OLD.tags THEN
+    NEW.tags := public.normalize_tags(NEW.tags);
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.pending_changes IS DISTINCT FROM OLD.pending_changes THEN
+    NEW.pending_changes := public.normalize_pending_tags(NEW.pending_changes);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Named to sort before the moderation and search triggers, which must see canonical tags
+CREATE TRIGGER normalize_blogs_tags
+  BEFORE INSERT OR UPDATE OF tags, pending_changes ON public.blogs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.normalize_blog_tags();
+
+-- Create a canonical tag for every existing spelling, named after its most common form
+INSERT INTO public.tags (slug, name)
+SELECT DISTINCT ON (usage.slug) usage.slug, left(usage.tag, 50)
+FROM (
+  SELECT public.normalize_tag_slug(t.tag) AS slug, trim(t.tag) AS tag, count(*) AS uses
+  FROM public.blogs b
+  CROSS JOIN LATERAL unnest(b.tags) AS t(tag)
+  GROUP BY 1, 2
+) usage
+WHERE usage.slug IS NOT NULL
+ORDER BY usage.slug, usage.uses DESC, usage.tag;
+
+-- Rewrite existing posts to canonical slugs without bumping updated_at or adding revisions
+ALTER TABLE public.blogs DISABLE TRIGGER update_blogs_updated_at;
+ALTER TABLE public.blogs DISABLE TRIGGER record_blogs_revision;
+UPDATE public.blogs
+SET tags = public.normalize_tags(tags),
+    pending_changes = public.normalize_pending_tags(pending_changes)
+WHERE tags IS NOT NULL OR pending_changes ? 'tags';
+ALTER TABLE public.blogs ENABLE TRIGGER record_blogs_revision;
+ALTER TABLE public.blogs ENABLE TRIGGER update_blogs_updated_at;
+
+-- Rename a tag. The old slug becomes a synonym so existing links and drafts still resolve.
+CREATE OR REPLACE FUNCTION public.rename_tag(_tag_id UUID, _name TEXT)
+RETURNS public.tags
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  tag public.tags%ROWTYPE;
+  new_slug TEXT := public.normalize_tag_slug(_name);
+BEGIN
+  IF NOT EXISTS(SELECT 1 FROM profiles WHERE user_id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can manage tags';
+  END IF;
+
+  SELECT * INTO tag FROM tags WHERE id = _tag_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Tag not found';
+  END IF;
+
+  IF new_slug IS NULL THEN
+    RAISE EXCEPTION 'Tag names need at least one letter or number';
+  END IF;
+
+  IF new_slug <> tag.slug THEN
+    IF EXISTS(SELECT 1 FROM tags WHERE slug = new_slug) THEN
+      RAISE EXCEPTION 'A tag named "%" already exists. Merge the tags instead.', new_slug;
+    END IF;
+
+    -- A synonym must never shadow a canonical slug
+    DELETE FROM tag_synonyms WHERE synonym = new_slug;
+    INSERT INTO tag_synonyms (synonym, tag_id) VALUES (tag.slug, tag.id)
+    ON CONFLICT (synonym) DO UPDATE SET tag_id = EXCLUDED.tag_id;
+
+    UPDATE tags SET slug = new_slug WHERE id = tag.id;
+    UPDATE blogs SET tags = array_replace(tags, tag.slug, new_slug) WHERE tags @> ARRAY[tag.slug];
+  END IF;
+
+  UPDATE tags SET name = left(trim(_name), 50) WHERE id = tag.id
+  RETURNING * INTO tag;
+
+  RETURN tag;
+END;
+$$;
+
+-- Fold one tag into another: posts, synonyms and the source slug itself all point at the target
+CREATE OR REPLACE FUNCTION public.merge_tags(_source_id UUID, _target_id UUID)
+RETURNS public.tags
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  source public.tags%ROWTYPE;
+  target public.tags%ROWTYPE;
+BEGIN
+  IF NOT EXISTS(SELECT 1 FROM profiles WHERE user_id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can manage tags';
+  END IF;
+
+  IF _source_id = _target_id THEN
+    RAISE EXCEPTION 'A tag cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO source FROM tags WHERE id = _source_id FOR UPDATE;
+  SELECT * INTO target FROM tags WHERE id = _target_id FOR UPDATE;
+  IF source.id IS NULL OR target.id IS NULL THEN
+    RAISE EXCEPTION 'Tag not found';
+  END IF;
+
+  IF target.is_retired THEN
+    RAISE EXCEPTION 'Restore "%" before merging into it', target.slug;
+  END IF;
+
+  UPDATE tag_synonyms SET tag_id = target.id WHERE tag_id = source.id;
+  DELETE FROM tags WHERE id = source.id;
+  INSERT INTO tag_synonyms (synonym, tag_id) VALUES (source.slug, target.id)
+  ON CONFLICT (synonym) DO UPDATE SET tag_id = EXCLUDED.tag_id;
+
+  -- normalize_blogs_tags drops the duplicate when a post already had both tags
+  UPDATE blogs SET tags = array_replace(tags, source.slug, target.slug) WHERE tags @> ARRAY[source.slug];
+
+  RETURN target;
+END;
+$$;
+
+-- Retiring removes the tag from every post and stops authors from using it again.
+-- Restoring only makes it available again; posts are not re-tagged.
+CREATE OR REPLACE FUNCTION public.set_tag_retired(_tag_id UUID, _retired BOOLEAN)
+RETURNS public.tags
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  tag public.tags%ROWTYPE;
+BEGIN
+  IF NOT EXISTS(SELECT 1 FROM profiles WHERE user_id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can manage tags';
+  END IF;
+
+  UPDATE tags SET is_retired = _retired WHERE id = _tag_id
+  RETURNING * INTO tag;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Tag not found';
+  END IF;
+
+  IF _retired THEN
+    UPDATE blogs SET tags = array_remove(tags, tag.slug) WHERE tags @> ARRAY[tag.slug];
+  END IF;
+
+  RETURN tag;
+END;
+$$;
+
+-- Point an alternative spelling at a tag. Spellings that are already tags need a merge.
+CREATE OR REPLACE FUNCTION public.add_tag_synonym(_tag_id UUID, _synonym TEXT)
+RETURNS public.tag_synonyms
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  synonym_slug TEXT := public.normalize_tag_slug(_synonym);
+  result public.tag_synonyms%ROWTYPE;
+BEGIN
+  IF NOT EXISTS(SELECT 1 FROM profiles WHERE user_id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can manage tags';
+  END IF;
+
+  IF synonym_slug IS NULL THEN
+    RAISE EXCEPTION 'Synonyms need at least one letter or number';
+  END IF;
+
+  IF EXISTS(SELECT 1 FROM tags WHERE slug = synonym_slug) THEN
+    RAISE EXCEPTION '"%" is already a tag. Merge the tags instead.', synonym_slug;
+  END IF;
+
+  INSERT INTO tag_synonyms (synonym, tag_id) VALUES (synonym_slug, _tag_id)
+  ON CONFLICT (synonym) DO UPDATE SET tag_id = EXCLUDED.tag_id
+  RETURNING * INTO result;
+
+  RETURN result;
+END;
+$$;
+
+-- Only the admin entry points are callable from the client
+REVOKE EXECUTE ON FUNCTION public.resolve_tag(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.rename_tag(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.merge_tags(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_tag_retired(UUID, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.add_tag_synonym(UUID, TEXT) TO authenticated;
@@ -0,0 +1,143 @@
+-- Deleted comments that still have replies stay behind as tombstones
+ALTER TABLE public.comments ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_comments_parent_id ON public.comments(parent_id);
+
+-- updated_at now marks content edits only, so the UI can show an "edited" label
+DROP TRIGGER IF EXISTS update_comments_updated_at ON public.comments;
+CREATE TRIGGER update_comments_updated_at
+  BEFORE UPDATE OF content ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Client edits may only change the text of a live comment; everything else is
+-- managed by delete_comment, which runs as the function owner
+CREATE OR REPLACE FUNCTION public.protect_comment_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user <> 'authenticated' THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted comments cannot be edited';
+  END IF;
+
+  IF trim(NEW.content) = '' THEN
+    RAISE EXCEPTION 'Comments cannot be empty';
+  END IF;
+
+  NEW.blog_id := OLD.blog_id;
+  NEW.author_id := OLD.author_id;
+  NEW.parent_id := OLD.parent_id;
+  NEW.created_at := OLD.created_at;
+  NEW.deleted_at := OLD.deleted_at;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_comments_fields
+  BEFORE UPDATE ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_comment_fields();
+
+-- Comment authors, the post's author and admins can delete a comment. Comments
+-- with replies become tombstones so the thread stays intact; others are removed,
+-- along with a tombstoned parent whose last reply this was.
+CREATE OR REPLACE FUNCTION public.delete_comment(_comment_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  caller_id UUID;
+  target public.comments%ROWTYPE;
+BEGIN
+  SELECT id INTO caller_id FROM profiles WHERE user_id = auth.uid();
+
+  SELECT * INTO target FROM comments WHERE id = _comment_id FOR UPDATE;
+  IF NOT FOUND OR target.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Comment not found';
+  END IF;
+
+  IF caller_id IS NULL OR NOT (
+    target.author_id = caller_id OR
+    EXISTS(SELECT 1 FROM blogs WHERE id = target.blog_id AND author_id = caller_id) OR
+    EXISTS(SELECT 1 FROM profiles WHERE id = caller_id AND role = 'admin')
+  ) THEN
+    RAISE EXCEPTION 'You cannot delete this comment';
+  END IF;
+
+  IF EXISTS(SELECT 1 FROM comments WHERE parent_id = target.id) THEN
+    UPDATE comments SET deleted_at = now(), content = '' WHERE id = target.id;
+    RETURN 'tombstoned';
+  END IF;
+
+  DELETE FROM comments WHERE id = target.id;
+
+  DELETE FROM comments parent
+  WHERE parent.id = target.parent_id
+    AND parent.deleted_at IS NOT NULL
+    AND NOT EXISTS(SELECT 1 FROM comments reply WHERE reply.parent_id = parent.id);
+
+  RETURN 'deleted';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.delete_comment(UUID) TO authenticated;
+
+-- Tombstones no longer count as comments; they are subtracted once when created,
+-- not again when later cleaned up
+CREATE OR REPLACE FUNCTION public.update_blog_stats()
+RETURNS TRIGGER 
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'likes' THEN
+    IF TG_OP = 'INSERT' THEN
+      UPDATE public.blogs 
+      SET likes_count = likes_count + 1 
+      WHERE id = NEW.blog_id;
+    ELSIF TG_OP = 'DELETE' THEN
+      UPDATE public.blogs 
+      SET likes_count = likes_count - 1 
+      WHERE id = OLD.blog_id;
+    END IF;
+  ELSIF TG_TABLE_NAME = 'comments' THEN
+    IF TG_OP = 'INSERT' THEN
+      UPDATE public.blogs 
+      SET comments_count = comments_count + 1 
+      WHERE id = NEW.blog_id;
+    ELSIF TG_OP = 'UPDATE' AND OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+      UPDATE public.blogs 
+      SET comments_count = GREATEST(comments_count - 1, 0) 
+      WHERE id = NEW.blog_id;
+    ELSIF TG_OP = 'DELETE' AND OLD.deleted_at IS NULL THEN
+      UPDATE public.blogs 
+      SET comments_count = GREATEST(comments_count - 1, 0) 
+      WHERE id = OLD.blog_id;
+    END IF;
+  ELSIF TG_TABLE_NAME = 'bookmarks' THEN
+    IF TG_OP = 'INSERT' THEN
+      UPDATE public.blogs 
+      SET bookmarks_count = bookmarks_count + 1 
+      WHERE id = NEW.blog_id;
+    ELSIF TG_OP = 'DELETE' THEN
+      UPDATE public.blogs 
+      SET bookmarks_count = GREATEST(bookmarks_count - 1, 0) 
+      WHERE id = OLD.blog_id;
+    END IF;
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS update_comments_count ON public.comments;
+CREATE TRIGGER update_comments_count
+  AFTER INSERT OR DELETE OR UPDATE OF deleted_at ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_blog_stats();
@@ -0,0 +1,4 @@
+-- Stream comment changes and blog counters to readers of an article.
+-- Realtime applies the tables' SELECT policies, so drafts are never broadcast.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.comments;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.blogs;
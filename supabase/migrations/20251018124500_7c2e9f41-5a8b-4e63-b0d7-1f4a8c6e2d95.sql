@@ -0,0 +1,317 @@
+-- Moderators can hide a comment without deleting it; hidden comments are only
+-- visible to their author and admins
+ALTER TABLE public.comments ADD COLUMN hidden_at TIMESTAMP WITH TIME ZONE;
+
+DROP POLICY IF EXISTS "Comments are viewable by everyone" ON public.comments;
+CREATE POLICY "Visible comments are viewable by everyone"
+ON public.comments FOR SELECT
+USING (
+  hidden_at IS NULL OR
+  auth.uid() = (SELECT user_id FROM profiles WHERE id = comments.author_id) OR
+  EXISTS(SELECT 1 FROM profiles WHERE user_id = auth.uid() AND role = 'admin')
+);
+
+-- Authors can't unhide their own comments
+CREATE OR REPLACE FUNCTION public.protect_comment_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user <> 'authenticated' THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted comments cannot be edited';
+  END IF;
+
+  IF trim(NEW.content) = '' THEN
+    RAISE EXCEPTION 'Comments cannot be empty';
+  END IF;
+
+  NEW.blog_id := OLD.blog_id;
+  NEW.author_id := OLD.author_id;
+  NEW.parent_id := OLD.parent_id;
+  NEW.created_at := OLD.created_at;
+  NEW.deleted_at := OLD.deleted_at;
+  NEW.hidden_at := OLD.hidden_at;
+  RETURN NEW;
+END;
+$$;
+
+-- Reader reports on comments and articles. The reported text is copied at report
+-- time so admins keep the context even if the author edits or deletes it.
+CREATE TABLE public.reports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  reporter_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  blog_id UUID REFERENCES public.blogs(id) ON DELETE SET NULL,
+  comment_id UUID REFERENCES public.comments(id) ON DELETE SET NULL,
+  reported_user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('spam', 'harassment', 'hate_speech', 'misinformation', 'inappropriate', 'other')),
+  details TEXT CHECK (char_length(details) <= 500),
+  content_snapshot TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'dismissed', 'actioned')),
+  resolution TEXT CHECK (resolution IN ('dismiss', 'hide', 'delete')),
+  resolved_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Warnings and suspensions issued by admins
+CREATE TABLE public.user_sanctions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('warning', 'suspension')),
+  reason TEXT NOT NULL CHECK (char_length(trim(reason)) BETWEEN 1 AND 500),
+  report_id UUID REFERENCES public.reports(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  acknowledged_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_sanctions ENABLE ROW LEVEL SECURITY;
+
+-- Report policies; resolving goes through resolve_report
+CREATE POLICY "Users can report content"
+ON public.reports FOR INSERT
+WITH CHECK (auth.uid() = (SELECT user_id FROM profiles WHERE id = reports.reporter_id));
+
+CREATE POLICY "Reporters and admins can view reports"
+ON public.reports FOR SELECT
+USING (
+  auth.uid() = (SELECT user_id FROM profiles WHERE id = reports.reporter_id) OR
+  EXISTS(SELECT 1 FROM profiles WHERE user_id = auth.uid() AND role = 'admin')
+);
+
+-- Sanction policies; issuing and acknowledging go through functions
+CREATE POLICY "Users and admins can view sanctions"
+ON public.user_sanctions FOR SELECT
+USING (
+  auth.uid() = (SELECT user_id FROM profiles WHERE id = user_sanctions.user_id) OR
+  EXISTS(SELECT 1 FROM profiles WHERE user_id = auth.uid() AND role = 'admin')
+);
+
+-- One open report per reader and item
+CREATE UNIQUE INDEX idx_reports_open_comment ON public.reports(reporter_id, comment_id)
+  WHERE status = 'open' AND comment_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_reports_open_blog ON public.reports(reporter_id, blog_id)
+  WHERE status = 'open' AND comment_id IS NULL;
+CREATE INDEX idx_reports_status ON public.reports(status, created_at DESC);
+CREATE INDEX idx_user_sanctions_user_id ON public.user_sanctions(user_id, created_at DESC);
+
+-- Fill in the reported author and a snapshot of the content, and make sure
+-- reporters can't pre-resolve their own reports
+CREATE OR REPLACE FUNCTION public.prepare_report()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.comment_id IS NOT NULL THEN
+    SELECT c.blog_id, c.author_id, c.content
+    INTO NEW.blog_id, NEW.reported_user_id, NEW.content_snapshot
+    FROM comments c
+    WHERE c.id = NEW.comment_id AND c.deleted_at IS NULL;
+  ELSIF NEW.blog_id IS NOT NULL THEN
+    SELECT b.author_id, b.title || COALESCE(E'\n\n' || b.excerpt, '')
+    INTO NEW.reported_user_id, NEW.content_snapshot
+    FROM blogs b
+    WHERE b.id = NEW.blog_id AND b.status = 'approved';
+  END IF;
+
+  IF NEW.reported_user_id IS NULL THEN
+    RAISE EXCEPTION 'The reported content no longer exists';
+  END IF;
+
+  IF NEW.reported_user_id = NEW.reporter_id THEN
+    RAISE EXCEPTION 'You cannot report your own content';
+  END IF;
+
+  NEW.status := 'open';
+  NEW.resolution := NULL;
+  NEW.resolved_by := NULL;
+  NEW.resolved_at := NULL;
+  NEW.created_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_reports
+  BEFORE INSERT ON public.reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_report();
+
+CREATE OR REPLACE FUNCTION public.is_suspended(_profile_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS(
+    SELECT 1 FROM user_sanctions
+    WHERE user_id = _profile_id
+      AND kind = 'suspension'
+      AND (expires_at IS NULL OR expires_at > now())
+  );
+$$;
+
+-- Suspended users can't publish comments or articles
+DROP POLICY IF EXISTS "Users can insert comments" ON public.comments;
+CREATE POLICY "Users can insert comments"
+ON public.comments FOR INSERT
+WITH CHECK (
+  auth.uid() = (SELECT user_id FROM profiles WHERE id = comments.author_id) AND
+  NOT public.is_suspended(comments.author_id)
+);
+
+DROP POLICY IF EXISTS "Authors can insert their own blogs" ON public.blogs;
+CREATE POLICY "Authors can insert their own blogs"
+ON public.blogs FOR INSERT
+WITH CHECK (
+  auth.uid() = (SELECT user_id FROM profiles WHERE id = blogs.author_id) AND
+  NOT public.is_suspended(blogs.author_id)
+);
+
+-- Apply an admin decision to a report and every other open report on the same item
+CREATE OR REPLACE FUNCTION public.resolve_report(_report_id UUID, _action TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  admin_id UUID;
+  report public.reports%ROWTYPE;
+BEGIN
+  SELECT id INTO admin_id FROM profiles WHERE user_id = auth.uid() AND role = 'admin';
+  IF admin_id IS NULL THEN
+    RAISE EXCEPTION 'Only admins can resolve reports';
+  END IF;
+
+  IF _action NOT IN ('dismiss', 'hide', 'delete') THEN
+    RAISE EXCEPTION 'Unknown moderation action: %', _action;
+  END IF;
+
+  SELECT * INTO report FROM reports WHERE id = _report_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report not found';
+  END IF;
+
+  IF report.status <> 'open' THEN
+    RAISE EXCEPTION 'This report has already been resolved';
+  END IF;
+
+  -- Resolve first: deleting the content clears the report's foreign keys
+  UPDATE reports
+  SET status = CASE WHEN _action = 'dismiss' THEN 'dismissed' ELSE 'actioned' END,
+      resolution = _action,
+      resolved_by = admin_id,
+      resolved_at = now()
+  WHERE status = 'open'
+    AND (
+      (report.comment_id IS NOT NULL AND comment_id = report.comment_id) OR
+      (report.comment_id IS NULL AND comment_id IS NULL AND blog_id = report.blog_id)
+    );
+
+  IF _action = 'hide' THEN
+    IF report.comment_id IS NOT NULL THEN
+      UPDATE comments SET hidden_at = now() WHERE id = report.comment_id;
+    ELSE
+      UPDATE blogs SET status = 'hidden' WHERE id = report.blog_id;
+    END IF;
+  ELSIF _action = 'delete' THEN
+    IF report.comment_id IS NOT NULL THEN
+      IF EXISTS(SELECT 1 FROM comments WHERE id = report.comment_id AND deleted_at IS NULL) THEN
+        PERFORM public.delete_comment(report.comment_id);
+      END IF;
+    ELSE
+      DELETE FROM blogs WHERE id = report.blog_id;
+    END IF;
+  END IF;
+END;
+$$;
+
+-- Warn or suspend a user. Suspensions without a duration last until lifted.
+CREATE OR REPLACE FUNCTION public.sanction_user(
+  _user_id UUID,
+  _kind TEXT,
+  _reason TEXT,
+  _suspend_days INTEGER DEFAULT NULL,
+  _report_id UUID DEFAULT NULL
+)
+RETURNS public.user_sanctions
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  admin_id UUID;
+  result public.user_sanctions%ROWTYPE;
+BEGIN
+  SELECT id INTO admin_id FROM profiles WHERE user_id = auth.uid() AND role = 'admin';
+  IF admin_id IS NULL THEN
+    RAISE EXCEPTION 'Only admins can sanction users';
+  END IF;
+
+  IF EXISTS(SELECT 1 FROM profiles WHERE id = _user_id AND role = 'admin') THEN
+    RAISE EXCEPTION 'Admins cannot be sanctioned';
+  END IF;
+
+  IF _kind = 'suspension' AND _suspend_days IS NOT NULL AND _suspend_days NOT BETWEEN 1 AND 365 THEN
+    RAISE EXCEPTION 'Suspensions last between 1 and 365 days';
+  END IF;
+
+  INSERT INTO user_sanctions (user_id, kind, reason, report_id, expires_at, created_by)
+  VALUES (
+    _user_id,
+    _kind,
+    trim(_reason),
+    _report_id,
+    CASE WHEN _kind = 'suspension' AND _suspend_days IS NOT NULL THEN now() + make_interval(days => _suspend_days) END,
+    admin_id
+  )
+  RETURNING * INTO result;
+
+  RETURN result;
+END;
+$$;
+
+-- End a suspension early
+CREATE OR REPLACE FUNCTION public.lift_suspension(_sanction_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS(SELECT 1 FROM profiles WHERE user_id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can lift suspensions';
+  END IF;
+
+  UPDATE user_sanctions
+  SET expires_at = now()
+  WHERE id = _sanction_id
+    AND kind = 'suspension'
+    AND (expires_at IS NULL OR expires_at > now());
+END;
+$$;
+
+-- Users confirm they have read a warning
+CREATE OR REPLACE FUNCTION public.acknowledge_sanction(_sanction_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  UPDATE user_sanctions
+  SET acknowledged_at = now()
+  WHERE id = _sanction_id
+    AND acknowledged_at IS NULL
+    AND user_id = (SELECT id FROM profiles WHERE user_id = auth.uid());
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.resolve_report(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.sanction_user(UUID, TEXT, TEXT, INTEGER, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.lift_suspension(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.acknowledge_sanction(UUID) TO authenticated;
@@ -0,0 +1,157 @@
+-- Vote totals and author pins on comments
+ALTER TABLE public.comments
+  ADD COLUMN score INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN pinned_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_comments_blog_id_score ON public.comments(blog_id, score DESC);
+
+-- One up or down vote per reader and comment
+CREATE TABLE public.comment_votes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  comment_id UUID NOT NULL REFERENCES public.comments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  value SMALLINT NOT NULL CHECK (value IN (-1, 1)),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(comment_id, user_id)
+);
+
+ALTER TABLE public.comment_votes ENABLE ROW LEVEL SECURITY;
+
+-- Individual votes are private; only the totals on comments are public
+CREATE POLICY "Users can view their own comment votes"
+ON public.comment_votes FOR SELECT
+USING (auth.uid() = (SELECT user_id FROM profiles WHERE id = comment_votes.user_id));
+
+-- Readers can't vote on their own or deleted comments
+CREATE POLICY "Users can vote on comments"
+ON public.comment_votes FOR INSERT
+WITH CHECK (
+  auth.uid() = (SELECT user_id FROM profiles WHERE id = comment_votes.user_id) AND
+  EXISTS(
+    SELECT 1 FROM comments c
+    WHERE c.id = comment_votes.comment_id
+      AND c.deleted_at IS NULL
+      AND c.author_id <> comment_votes.user_id
+  )
+);
+
+CREATE POLICY "Users can change their comment votes"
+ON public.comment_votes FOR UPDATE
+USING (auth.uid() = (SELECT user_id FROM profiles WHERE id = comment_votes.user_id))
+WITH CHECK (auth.uid() = (SELECT user_id FROM profiles WHERE id = comment_votes.user_id));
+
+CREATE POLICY "Users can remove their comment votes"
+ON public.comment_votes FOR DELETE
+USING (auth.uid() = (SELECT user_id FROM profiles WHERE id = comment_votes.user_id));
+
+-- Keep comments.score in step with the votes
+CREATE OR REPLACE FUNCTION public.update_comment_score()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE comments SET score = score + NEW.value WHERE id = NEW.comment_id;
+  ELSIF TG_OP = 'UPDATE' THEN
+    UPDATE comments SET score = score - OLD.value + NEW.value WHERE id = NEW.comment_id;
+  ELSIF TG_OP = 'DELETE' THEN
+    UPDATE comments SET score = score - OLD.value WHERE id = OLD.comment_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER update_comment_votes_score
+  AFTER INSERT OR UPDATE OF value OR DELETE ON public.comment_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_comment_score();
+
+-- New comments start unscored, unpinned and visible
+CREATE OR REPLACE FUNCTION public.prepare_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user = 'authenticated' THEN
+    NEW.score := 0;
+    NEW.pinned_at := NULL;
+    NEW.hidden_at := NULL;
+    NEW.deleted_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_comments
+  BEFORE INSERT ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_comment();
+
+-- Authors can edit their text but not their score or pin
+CREATE OR REPLACE FUNCTION public.protect_comment_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user <> 'authenticated' THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted comments cannot be edited';
+  END IF;
+
+  IF trim(NEW.content) = '' THEN
+    RAISE EXCEPTION 'Comments cannot be empty';
+  END IF;
+
+  NEW.blog_id := OLD.blog_id;
+  NEW.author_id := OLD.author_id;
+  NEW.parent_id := OLD.parent_id;
+  NEW.created_at := OLD.created_at;
+  NEW.deleted_at := OLD.deleted_at;
+  NEW.hidden_at := OLD.hidden_at;
+  NEW.score := OLD.score;
+  NEW.pinned_at := OLD.pinned_at;
+  RETURN NEW;
+END;
+$$;
+
+-- The post's author (or an admin) can pin top-level comments
+CREATE OR REPLACE FUNCTION public.set_comment_pinned(_comment_id UUID, _pinned BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  target public.comments%ROWTYPE;
+BEGIN
+  SELECT * INTO target FROM comments WHERE id = _comment_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Comment not found';
+  END IF;
+
+  IF NOT EXISTS(
+    SELECT 1 FROM profiles p
+    WHERE p.user_id = auth.uid()
+      AND (p.role = 'admin' OR p.id = (SELECT author_id FROM blogs WHERE id = target.blog_id))
+  ) THEN
+    RAISE EXCEPTION 'Only the author of the post can pin comments';
+  END IF;
+
+  IF _pinned AND (target.parent_id IS NOT NULL OR target.deleted_at IS NOT NULL OR target.hidden_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'Only visible top-level comments can be pinned';
+  END IF;
+
+  UPDATE comments
+  SET pinned_at = CASE WHEN _pinned THEN now() END
+  WHERE id = _comment_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_comment_pinned(UUID, BOOLEAN) TO authenticated;
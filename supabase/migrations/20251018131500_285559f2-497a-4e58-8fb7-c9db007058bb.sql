@@ -0,0 +1,66 @@
+-- In-app notifications, starting with @mentions in comments
+CREATE TABLE public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('mention')),
+  blog_id UUID REFERENCES public.blogs(id) ON DELETE CASCADE,
+  comment_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, comment_id, type)
+);
+
+CREATE INDEX idx_notifications_user_id ON public.notifications(user_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Notifications are created by triggers; recipients can read, mark and clear them
+CREATE POLICY "Users can view their own notifications"
+ON public.notifications FOR SELECT
+USING (auth.uid() = (SELECT user_id FROM profiles WHERE id = notifications.user_id));
+
+CREATE POLICY "Users can update their own notifications"
+ON public.notifications FOR UPDATE
+USING (auth.uid() = (SELECT user_id FROM profiles WHERE id = notifications.user_id))
+WITH CHECK (auth.uid() = (SELECT user_id FROM profiles WHERE id = notifications.user_id));
+
+CREATE POLICY "Users can delete their own notifications"
+ON public.notifications FOR DELETE
+USING (auth.uid() = (SELECT user_id FROM profiles WHERE id = notifications.user_id));
+
+-- Notify everyone @mentioned in a comment. Mentions inside code are ignored, and
+-- editing a comment only notifies people who weren't mentioned before.
+CREATE OR REPLACE FUNCTION public.notify_comment_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.deleted_at IS NOT NULL OR NEW.hidden_at IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO notifications (user_id, actor_id, type, blog_id, comment_id)
+  SELECT p.id, NEW.author_id, 'mention', NEW.blog_id, NEW.id
+  FROM (
+    SELECT DISTINCT lower(m.parts[1]) AS username
+    FROM regexp_matches(
+      regexp_replace(NEW.content, '```.*?```|`[^`]*`', '', 'g'),
+      '(?:^|[^a-zA-Z0-9_@/])@([a-zA-Z0-9_]{3,30})',
+      'g'
+    ) AS m(parts)
+    LIMIT 10
+  ) mentioned
+  JOIN profiles p ON lower(p.username) = mentioned.username
+  WHERE p.id <> NEW.author_id
+  ON CONFLICT (user_id, comment_id, type) DO NOTHING;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER notify_comments_mentions
+  AFTER INSERT OR UPDATE OF content ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_comment_mentions();
@@ -0,0 +1,134 @@
+-- More kinds of in-app notifications
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('mention', 'comment', 'reply', 'follow', 'blog_approved', 'blog_rejected'));
+
+CREATE INDEX idx_notifications_unread ON public.notifications(user_id) WHERE read_at IS NULL;
+
+-- Tell authors when a moderator approves or rejects their post
+CREATE OR REPLACE FUNCTION public.notify_blog_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  reviewer_id UUID;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status OR NEW.status NOT IN ('approved', 'rejected') THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT id INTO reviewer_id FROM profiles WHERE user_id = auth.uid();
+  IF reviewer_id = NEW.author_id THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO notifications (user_id, actor_id, type, blog_id)
+  VALUES (NEW.author_id, reviewer_id, 'blog_' || NEW.status, NEW.id);
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER notify_blogs_status
+  AFTER UPDATE OF status ON public.blogs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_blog_status();
+
+-- Tell the parent comment's author about replies, and the post's author about
+-- new comments (unless they were already told about it as a reply)
+CREATE OR REPLACE FUNCTION public.notify_comment_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  parent_author_id UUID;
+  post_author_id UUID;
+BEGIN
+  SELECT author_id INTO post_author_id FROM blogs WHERE id = NEW.blog_id;
+
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT author_id INTO parent_author_id
+    FROM comments
+    WHERE id = NEW.parent_id AND deleted_at IS NULL;
+
+    IF parent_author_id IS NOT NULL AND parent_author_id <> NEW.author_id THEN
+      INSERT INTO notifications (user_id, actor_id, type, blog_id, comment_id)
+      VALUES (parent_author_id, NEW.author_id, 'reply', NEW.blog_id, NEW.id)
+      ON CONFLICT (user_id, comment_id, type) DO NOTHING;
+    END IF;
+  END IF;
+
+  IF post_author_id IS NOT NULL
+    AND post_author_id <> NEW.author_id
+    AND post_author_id IS DISTINCT FROM parent_author_id THEN
+    INSERT INTO notifications (user_id, actor_id, type, blog_id, comment_id)
+    VALUES (post_author_id, NEW.author_id, 'comment', NEW.blog_id, NEW.id)
+    ON CONFLICT (user_id, comment_id, type) DO NOTHING;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER notify_comments_activity
+  AFTER INSERT ON public.comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_comment_activity();
+
+-- Tell people about new followers; an unread notification goes away again on unfollow
+CREATE OR REPLACE FUNCTION public.notify_new_follower()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO notifications (user_id, actor_id, type)
+    VALUES (NEW.following_id, NEW.follower_id, 'follow');
+  ELSE
+    DELETE FROM notifications
+    WHERE user_id = OLD.following_id
+      AND actor_id = OLD.follower_id
+      AND type = 'follow'
+      AND read_at IS NULL;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER notify_follows
+  AFTER INSERT OR DELETE ON public.follows
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_new_follower();
+
+-- Only the read state of a notification can change
+CREATE OR REPLACE FUNCTION public.protect_notification_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user <> 'authenticated' THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.user_id := OLD.user_id;
+  NEW.actor_id := OLD.actor_id;
+  NEW.type := OLD.type;
+  NEW.blog_id := OLD.blog_id;
+  NEW.comment_id := OLD.comment_id;
+  NEW.created_at := OLD.created_at;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_notifications_fields
+  BEFORE UPDATE ON public.notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_notification_fields();
+
+-- Live unread counts in the header
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
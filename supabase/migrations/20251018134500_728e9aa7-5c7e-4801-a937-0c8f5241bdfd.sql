@@ -0,0 +1,109 @@
+-- How each user wants to hear about each kind of event. Missing rows fall back
+-- to the defaults in notification_delivery().
+CREATE TABLE public.notification_preferences (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN ('mention', 'comment', 'reply', 'follow', 'blog_approved', 'blog_rejected', 'new_blog')),
+  delivery TEXT NOT NULL CHECK (delivery IN ('in_app', 'email', 'digest', 'off')),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, event_type),
+  -- New posts from followed authors have no in-app notification
+  CHECK (event_type <> 'new_blog' OR delivery <> 'in_app')
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notification preferences"
+ON public.notification_preferences
+FOR SELECT
+USING (auth.uid() = (SELECT user_id FROM profiles WHERE id = notification_preferences.user_id));
+
+CREATE POLICY "Users can insert their own notification preferences"
+ON public.notification_preferences
+FOR INSERT
+WITH CHECK (auth.uid() = (SELECT user_id FROM profiles WHERE id = notification_preferences.user_id));
+
+CREATE POLICY "Users can update their own notification preferences"
+ON public.notification_preferences
+FOR UPDATE
+USING (auth.uid() = (SELECT user_id FROM profiles WHERE id = notification_preferences.user_id));
+
+CREATE POLICY "Users can delete their own notification preferences"
+ON public.notification_preferences
+FOR DELETE
+USING (auth.uid() = (SELECT user_id FROM profiles WHERE id = notification_preferences.user_id));
+
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON public.notification_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Effective delivery for one user and event type. 'email' and 'digest' also
+-- keep the in-app notification; only 'off' silences an event entirely.
+-- Keep the defaults in sync with NOTIFICATION_EVENTS in src/lib/notifications.ts.
+CREATE OR REPLACE FUNCTION public.notification_delivery(_user_id UUID, _event_type TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT delivery FROM notification_preferences WHERE user_id = _user_id AND event_type = _event_type),
+    CASE _event_type
+      WHEN 'blog_approved' THEN 'email'
+      WHEN 'blog_rejected' THEN 'email'
+      WHEN 'new_blog' THEN 'digest'
+      ELSE 'in_app'
+    END
+  );
+$$;
+
+-- In-app notifications the recipient switched off are never stored
+CREATE OR REPLACE FUNCTION public.filter_muted_notification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF notification_delivery(NEW.user_id, NEW.type) = 'off' THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER filter_muted_notifications
+  BEFORE INSERT ON public.notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.filter_muted_notification();
+
+-- Turns off email for one event type (or every type with 'all'). Only called by
+-- the unsubscribe edge function after it has verified the signed link, so the
+-- recipient does not need to be logged in.
+CREATE OR REPLACE FUNCTION public.unsubscribe_email(_user_id UUID, _event_type TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  event TEXT;
+BEGIN
+  IF _event_type <> 'all'
+    AND _event_type NOT IN ('mention', 'comment', 'reply', 'follow', 'blog_approved', 'blog_rejected', 'new_blog') THEN
+    RAISE EXCEPTION 'Unknown event type %', _event_type;
+  END IF;
+
+  FOREACH event IN ARRAY ARRAY['mention', 'comment', 'reply', 'follow', 'blog_approved', 'blog_rejected', 'new_blog'] LOOP
+    CONTINUE WHEN _event_type <> 'all' AND _event_type <> event;
+    CONTINUE WHEN notification_delivery(_user_id, event) NOT IN ('email', 'digest');
+
+    INSERT INTO notification_preferences (user_id, event_type, delivery)
+    VALUES (_user_id, event, CASE WHEN event = 'new_blog' THEN 'off' ELSE 'in_app' END)
+    ON CONFLICT (user_id, event_type) DO UPDATE SET delivery = EXCLUDED.delivery;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notification_delivery(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.unsubscribe_email(UUID, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,183 @@
+-- Durable queue of outgoing emails. Triggers enqueue, the process-email-outbox
+-- edge function drains it, and failed sends are retried with backoff until
+-- they are dead-lettered.
+CREATE TABLE public.email_outbox (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- One email per key, however often the enqueueing event fires; also sent to
+  -- the provider so a retried send is not delivered twice
+  idempotency_key TEXT NOT NULL UNIQUE,
+  recipient_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  template TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'skipped', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  provider_message_id TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_email_outbox_due ON public.email_outbox(next_attempt_at) WHERE status IN ('pending', 'sending');
+CREATE INDEX idx_email_outbox_status ON public.email_outbox(status, created_at DESC);
+
+ALTER TABLE public.email_outbox ENABLE ROW LEVEL SECURITY;
+
+-- Only admins can look at the queue; the worker uses the service role
+CREATE POLICY "Admins can view the email outbox"
+ON public.email_outbox
+FOR SELECT
+USING (EXISTS(SELECT 1 FROM profiles WHERE user_id = auth.uid() AND role = 'admin'));
+
+CREATE TRIGGER update_email_outbox_updated_at
+  BEFORE UPDATE ON public.email_outbox
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Email a notification to recipients who asked for it right away
+CREATE OR REPLACE FUNCTION public.enqueue_notification_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  actor_name TEXT;
+  blog_title TEXT;
+  blog_slug TEXT;
+  comment_content TEXT;
+BEGIN
+  IF notification_delivery(NEW.user_id, NEW.type) <> 'email' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(full_name, username) INTO actor_name FROM profiles WHERE id = NEW.actor_id;
+  SELECT title, slug INTO blog_title, blog_slug FROM blogs WHERE id = NEW.blog_id;
+  SELECT left(content, 500) INTO comment_content FROM comments WHERE id = NEW.comment_id;
+
+  INSERT INTO email_outbox (idempotency_key, recipient_id, template, payload)
+  VALUES (
+    'notification:' || NEW.id,
+    NEW.user_id,
+    CASE NEW.type
+      WHEN 'mention' THEN 'new_mention'
+      WHEN 'comment' THEN 'new_comment'
+      WHEN 'reply' THEN 'new_reply'
+      WHEN 'follow' THEN 'new_follower'
+      ELSE NEW.type
+    END,
+    jsonb_strip_nulls(jsonb_build_object(
+      'authorName', actor_name,
+      'blogTitle', blog_title,
+      'blogSlug', blog_slug,
+      'commentId', NEW.comment_id,
+      'commentContent', comment_content
+    ))
+  )
+  ON CONFLICT (idempotency_key) DO NOTHING;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER enqueue_notifications_email
+  AFTER INSERT ON public.notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enqueue_notification_email();
+
+-- Email followers who want new posts right away. Scheduled posts are held in
+-- the outbox until they go live, and dropped if the post is unpublished first.
+CREATE OR REPLACE FUNCTION public.enqueue_new_blog_emails()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  author_name TEXT;
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.status = 'approved' AND NEW.status IS DISTINCT FROM 'approved' THEN
+    UPDATE email_outbox
+    SET status = 'skipped', last_error = 'Post was unpublished'
+    WHERE template = 'new_blog' AND status = 'pending' AND payload->>'blogId' = NEW.id::text;
+    RETURN NULL;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM 'approved' OR (TG_OP = 'UPDATE' AND OLD.status = 'approved') THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(full_name, username) INTO author_name FROM profiles WHERE id = NEW.author_id;
+
+  INSERT INTO email_outbox (idempotency_key, recipient_id, template, payload, next_attempt_at)
+  SELECT
+    'new_blog:' || NEW.id || ':' || f.follower_id,
+    f.follower_id,
+    'new_blog',
+    jsonb_strip_nulls(jsonb_build_object(
+      'authorName', author_name,
+      'blogId', NEW.id,
+      'blogTitle', NEW.title,
+      'blogSlug', NEW.slug
+    )),
+    GREATEST(now(), COALESCE(NEW.published_at, now()))
+  FROM follows f
+  WHERE f.following_id = NEW.author_id
+    AND notification_delivery(f.follower_id, 'new_blog') = 'email'
+  ON CONFLICT (idempotency_key) DO NOTHING;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER enqueue_blogs_new_blog_emails
+  AFTER INSERT OR UPDATE OF status ON public.blogs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enqueue_new_blog_emails();
+
+-- Hands the worker a batch of due emails. Rows stuck in 'sending' (a worker
+-- that died mid-batch) become claimable again after ten minutes.
+CREATE OR REPLACE FUNCTION public.claim_email_outbox(_limit INTEGER DEFAULT 20)
+RETURNS SETOF public.email_outbox
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE email_outbox o
+  SET status = 'sending', attempts = o.attempts + 1, locked_at = now()
+  WHERE o.id IN (
+    SELECT id FROM email_outbox
+    WHERE next_attempt_at <= now()
+      AND (status = 'pending' OR (status = 'sending' AND locked_at < now() - INTERVAL '10 minutes'))
+    ORDER BY next_attempt_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING o.*;
+END;
+$$;
+
+-- Puts a dead-lettered email back in the queue with a fresh set of attempts
+CREATE OR REPLACE FUNCTION public.retry_email(_email_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS(SELECT 1 FROM profiles WHERE user_id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can retry emails';
+  END IF;
+
+  UPDATE email_outbox
+  SET status = 'pending', attempts = 0, next_attempt_at = now(), locked_at = NULL
+  WHERE id = _email_id AND status = 'dead';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only dead-lettered emails can be retried';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_email_outbox(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.retry_email(UUID) TO authenticated;
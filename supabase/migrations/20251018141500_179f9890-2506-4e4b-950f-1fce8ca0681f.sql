@@ -0,0 +1,342 @@
+-- Readers can follow tags as well as authors
+CREATE TABLE public.tag_follows (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, tag_id)
+);
+
+ALTER TABLE public.tag_follows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own tag follows"
+ON public.tag_follows FOR SELECT
+USING (auth.uid() = (SELECT user_id FROM profiles WHERE id = tag_follows.user_id));
+
+CREATE POLICY "Users can follow tags"
+ON public.tag_follows FOR INSERT
+WITH CHECK (auth.uid() = (SELECT user_id FROM profiles WHERE id = tag_follows.user_id));
+
+CREATE POLICY "Users can unfollow tags"
+ON public.tag_follows FOR DELETE
+USING (auth.uid() = (SELECT user_id FROM profiles WHERE id = tag_follows.user_id));
+
+CREATE INDEX idx_tag_follows_tag_id ON public.tag_follows(tag_id);
+
+-- Merging keeps the source tag's followers
+CREATE OR REPLACE FUNCTION public.merge_tags(_source_id UUID, _target_id UUID)
+RETURNS public.tags
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  source public.tags%ROWTYPE;
+  target public.tags%ROWTYPE;
+BEGIN
+  IF NOT EXISTS(SELECT 1 FROM profiles WHERE user_id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can manage tags';
+  END IF;
+
+  IF _source_id = _target_id THEN
+    RAISE EXCEPTION 'A tag cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO source FROM tags WHERE id = _source_id FOR UPDATE;
+  SELECT * INTO target FROM tags WHERE id = _target_id FOR UPDATE;
+  IF source.id IS NULL OR target.id IS NULL THEN
+    RAISE EXCEPTION 'Tag not found';
+  END IF;
+
+  IF target.is_retired THEN
+    RAISE EXCEPTION 'Restore "%" before merging into it', target.slug;
+  END IF;
+
+  UPDATE tag_synonyms SET tag_id = target.id WHERE tag_id = source.id;
+  INSERT INTO tag_follows (user_id, tag_id)
+  SELECT user_id, target.id FROM tag_follows WHERE tag_id = source.id
+  ON CONFLICT (user_id, tag_id) DO NOTHING;
+  DELETE FROM tags WHERE id = source.id;
+  INSERT INTO tag_synonyms (synonym, tag_id) VALUES (source.slug, target.id)
+  ON CONFLICT (synonym) DO UPDATE SET tag_id = EXCLUDED.tag_id;
+
+  -- normalize_blogs_tags drops the duplicate when a post already had both tags
+  UPDATE blogs SET tags = array_replace(tags, source.slug, target.slug) WHERE tags @> ARRAY[source.slug];
+
+  RETURN target;
+END;
+$$;
+
+-- Every event type that has a notification preference
+CREATE OR REPLACE FUNCTION public.notification_event_types()
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT ARRAY['mention', 'comment', 'reply', 'follow', 'blog_approved', 'blog_rejected', 'new_blog'];
+$$;
+
+-- Anyone with at least one event set to 'digest' gets the weekly digest
+CREATE OR REPLACE FUNCTION public.wants_digest(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS(
+    SELECT 1 FROM unnest(notification_event_types()) AS event
+    WHERE notification_delivery(_user_id, event) = 'digest'
+  );
+$$;
+
+-- Unsubscribe links can now also stop the weekly digest ('digest'), which
+-- moves every event that was going to the digest back to in-app only
+CREATE OR REPLACE FUNCTION public.unsubscribe_email(_user_id UUID, _event_type TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  event TEXT;
+  current_delivery TEXT;
+BEGIN
+  IF _event_type NOT IN ('all', 'digest') AND NOT (_event_type = ANY(notification_event_types())) THEN
+    RAISE EXCEPTION 'Unknown event type %', _event_type;
+  END IF;
+
+  FOREACH event IN ARRAY notification_event_types() LOOP
+    CONTINUE WHEN _event_type NOT IN ('all', 'digest', event);
+
+    current_delivery := notification_delivery(_user_id, event);
+    CONTINUE WHEN current_delivery NOT IN ('email', 'digest');
+    CONTINUE WHEN _event_type = 'digest' AND current_delivery <> 'digest';
+
+    INSERT INTO notification_preferences (user_id, event_type, delivery)
+    VALUES (_user_id, event, CASE WHEN event = 'new_blog' THEN 'off' ELSE 'in_app' END)
+    ON CONFLICT (user_id, event_type) DO UPDATE SET delivery = EXCLUDED.delivery;
+  END LOOP;
+END;
+$$;
+
+-- New post emails also go to followers of the post's tags
+CREATE OR REPLACE FUNCTION public.enqueue_new_blog_emails()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  author_name TEXT;
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.status = 'approved' AND NEW.status IS DISTINCT FROM 'approved' THEN
+    UPDATE email_outbox
+    SET status = 'skipped', last_error = 'Post was unpublished'
+    WHERE template = 'new_blog' AND status = 'pending' AND payload->>'blogId' = NEW.id::text;
+    RETURN NULL;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM 'approved' OR (TG_OP = 'UPDATE' AND OLD.status = 'approved') THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(full_name, username) INTO author_name FROM profiles WHERE id = NEW.author_id;
+
+  INSERT INTO email_outbox (idempotency_key, recipient_id, template, payload, next_attempt_at)
+  SELECT
+    'new_blog:' || NEW.id || ':' || recipients.id,
+    recipients.id,
+    'new_blog',
+    jsonb_strip_nulls(jsonb_build_object(
+      'authorName', author_name,
+      'blogId', NEW.id,
+      'blogTitle', NEW.title,
+      'blogSlug', NEW.slug
+    )),
+    GREATEST(now(), COALESCE(NEW.published_at, now()))
+  FROM (
+    SELECT follower_id AS id FROM follows WHERE following_id = NEW.author_id
+    UNION
+    SELECT tf.user_id FROM tag_follows tf JOIN tags t ON t.id = tf.tag_id
+    WHERE t.slug = ANY(COALESCE(NEW.tags, '{}'))
+  ) recipients
+  WHERE recipients.id <> NEW.author_id
+    AND notification_delivery(recipients.id, 'new_blog') = 'email'
+  ON CONFLICT (idempotency_key) DO NOTHING;
+
+  RETURN NULL;
+END;
+$$;
+
+-- One row per digest that went out, and every post it featured so no post
+-- shows up in two digests for the same reader
+CREATE TABLE public.digests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.digest_posts (
+  digest_id UUID NOT NULL REFERENCES public.digests(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  blog_id UUID NOT NULL REFERENCES public.blogs(id) ON DELETE CASCADE,
+  section TEXT NOT NULL CHECK (section IN ('followed', 'top')),
+  PRIMARY KEY (user_id, blog_id)
+);
+
+CREATE INDEX idx_digests_user_created ON public.digests(user_id, created_at DESC);
+
+ALTER TABLE public.digests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.digest_posts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own digests"
+ON public.digests FOR SELECT
+USING (auth.uid() = (SELECT user_id FROM profiles WHERE id = digests.user_id));
+
+CREATE POLICY "Users can view their own digest posts"
+ON public.digest_posts FOR SELECT
+USING (auth.uid() = (SELECT user_id FROM profiles WHERE id = digest_posts.user_id));
+
+-- Builds this week's digest for every subscriber and queues it in the email
+-- outbox: new posts from followed authors and tags (when new_blog is set to
+-- 'digest'), the week's top posts, activity on the reader's own articles and
+-- a count of notifications they asked to get in the digest. Empty digests are
+-- not sent. Returns how many were queued.
+CREATE OR REPLACE FUNCTION public.queue_weekly_digests()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  window_end TIMESTAMP WITH TIME ZONE := now();
+  window_start TIMESTAMP WITH TIME ZONE := now() - INTERVAL '7 days';
+  subscriber_id UUID;
+  new_digest_id UUID;
+  followed_posts JSONB;
+  top_posts JSONB;
+  article_activity JSONB;
+  updates JSONB;
+  queued INTEGER := 0;
+BEGIN
+  FOR subscriber_id IN
+    SELECT p.id FROM profiles p
+    WHERE wants_digest(p.id)
+      -- A second run in the same week doesn't send again
+      AND NOT EXISTS(SELECT 1 FROM digests d WHERE d.user_id = p.id AND d.created_at > now() - INTERVAL '6 days')
+  LOOP
+    followed_posts := '[]'::jsonb;
+    IF notification_delivery(subscriber_id, 'new_blog') = 'digest' THEN
+      SELECT COALESCE(jsonb_agg(post ORDER BY post->>'publishedAt' DESC), '[]'::jsonb) INTO followed_posts
+      FROM (
+        SELECT jsonb_build_object(
+          'id', b.id, 'title', b.title, 'slug', b.slug, 'excerpt', b.excerpt,
+          'authorName', COALESCE(a.full_name, a.username), 'publishedAt', b.published_at
+        ) AS post
+        FROM blogs b
+        JOIN profiles a ON a.id = b.author_id
+        WHERE b.status = 'approved'
+          AND b.published_at > window_start AND b.published_at <= window_end
+          AND b.author_id <> subscriber_id
+          AND NOT EXISTS(SELECT 1 FROM digest_posts dp WHERE dp.user_id = subscriber_id AND dp.blog_id = b.id)
+          AND (
+            b.author_id IN (SELECT following_id FROM follows WHERE follower_id = subscriber_id)
+            OR b.tags && ARRAY(
+              SELECT t.slug FROM tag_follows tf JOIN tags t ON t.id = tf.tag_id WHERE tf.user_id = subscriber_id
+            )
+          )
+        ORDER BY b.published_at DESC
+        LIMIT 10
+      ) followed;
+    END IF;
+
+    SELECT COALESCE(jsonb_agg(post ORDER BY (post->>'score')::INTEGER DESC), '[]'::jsonb) INTO top_posts
+    FROM (
+      SELECT jsonb_build_object(
+        'id', b.id, 'title', b.title, 'slug', b.slug, 'excerpt', b.excerpt,
+        'authorName', COALESCE(a.full_name, a.username),
+        'score', COALESCE(b.views_count, 0) + 5 * COALESCE(b.likes_count, 0) + 3 * COALESCE(b.comments_count, 0)
+      ) AS post
+      FROM blogs b
+      JOIN profiles a ON a.id = b.author_id
+      WHERE b.status = 'approved'
+        AND b.published_at > window_start AND b.published_at <= window_end
+        AND b.author_id <> subscriber_id
+        AND NOT EXISTS(SELECT 1 FROM digest_posts dp WHERE dp.user_id = subscriber_id AND dp.blog_id = b.id)
+        AND NOT followed_posts @> jsonb_build_array(jsonb_build_object('id', b.id))
+      ORDER BY COALESCE(b.views_count, 0) + 5 * COALESCE(b.likes_count, 0) + 3 * COALESCE(b.comments_count, 0) DESC
+      LIMIT 5
+    ) top;
+
+    SELECT COALESCE(jsonb_agg(article ORDER BY (article->>'total')::INTEGER DESC), '[]'::jsonb) INTO article_activity
+    FROM (
+      SELECT jsonb_build_object(
+        'title', title, 'slug', slug, 'views', views, 'likes', likes, 'comments', comments,
+        'total', views + likes + comments
+      ) AS article
+      FROM (
+        SELECT b.title, b.slug,
+          (SELECT count(*) FROM blog_views v WHERE v.blog_id = b.id AND v.created_at > window_start) AS views,
+          (SELECT count(*) FROM likes l WHERE l.blog_id = b.id AND l.created_at > window_start) AS likes,
+          (SELECT count(*) FROM comments c
+           WHERE c.blog_id = b.id AND c.created_at > window_start AND c.author_id <> subscriber_id
+             AND c.deleted_at IS NULL AND c.hidden_at IS NULL) AS comments
+        FROM blogs b
+        WHERE b.author_id = subscriber_id AND b.status = 'approved'
+      ) stats
+      WHERE views + likes + comments > 0
+      ORDER BY views + likes + comments DESC
+      LIMIT 5
+    ) activity;
+
+    SELECT COALESCE(jsonb_object_agg(type, total), '{}'::jsonb) INTO updates
+    FROM (
+      SELECT n.type, count(*) AS total
+      FROM notifications n
+      WHERE n.user_id = subscriber_id
+        AND n.created_at > window_start
+        AND notification_delivery(subscriber_id, n.type) = 'digest'
+      GROUP BY n.type
+    ) counts;
+
+    CONTINUE WHEN followed_posts = '[]'::jsonb AND top_posts = '[]'::jsonb
+      AND article_activity = '[]'::jsonb AND updates = '{}'::jsonb;
+
+    INSERT INTO digests (user_id, period_start, period_end)
+    VALUES (subscriber_id, window_start, window_end)
+    RETURNING id INTO new_digest_id;
+
+    INSERT INTO digest_posts (digest_id, user_id, blog_id, section)
+    SELECT new_digest_id, subscriber_id, (post->>'id')::UUID, 'followed' FROM jsonb_array_elements(followed_posts) AS post
+    UNION ALL
+    SELECT new_digest_id, subscriber_id, (post->>'id')::UUID, 'top' FROM jsonb_array_elements(top_posts) AS post;
+
+    INSERT INTO email_outbox (idempotency_key, recipient_id, template, payload)
+    VALUES (
+      'digest:' || new_digest_id,
+      subscriber_id,
+      'weekly_digest',
+      jsonb_build_object(
+        'digest', jsonb_build_object(
+          'periodStart', window_start,
+          'periodEnd', window_end,
+          'followedPosts', followed_posts,
+          'topPosts', top_posts,
+          'articleActivity', article_activity,
+          'updates', updates
+        )
+      )
+    );
+
+    queued := queued + 1;
+  END LOOP;
+
+  RETURN queued;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.wants_digest(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.queue_weekly_digests() FROM PUBLIC, anon, authenticated;
+
+-- Every Monday at 08:00 UTC; the outbox worker sends them on its next run
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+SELECT cron.schedule('queue-weekly-digests', '0 8 * * 1', 'SELECT public.queue_weekly_digests()');
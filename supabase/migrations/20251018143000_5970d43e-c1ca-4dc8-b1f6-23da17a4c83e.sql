@@ -0,0 +1,88 @@
+-- send-notifications now looks everything up from IDs, so queued emails carry
+-- IDs instead of titles, names and comment text
+CREATE OR REPLACE FUNCTION public.enqueue_notification_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF notification_delivery(NEW.user_id, NEW.type) <> 'email' THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO email_outbox (idempotency_key, recipient_id, template, payload)
+  VALUES (
+    'notification:' || NEW.id,
+    NEW.user_id,
+    CASE NEW.type
+      WHEN 'mention' THEN 'new_mention'
+      WHEN 'comment' THEN 'new_comment'
+      WHEN 'reply' THEN 'new_reply'
+      WHEN 'follow' THEN 'new_follower'
+      ELSE NEW.type
+    END,
+    jsonb_strip_nulls(jsonb_build_object(
+      'actorId', NEW.actor_id,
+      'blogId', NEW.blog_id,
+      'commentId', NEW.comment_id
+    ))
+  )
+  ON CONFLICT (idempotency_key) DO NOTHING;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enqueue_new_blog_emails()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.status = 'approved' AND NEW.status IS DISTINCT FROM 'approved' THEN
+    UPDATE email_outbox
+    SET status = 'skipped', last_error = 'Post was unpublished'
+    WHERE template = 'new_blog' AND status = 'pending' AND payload->>'blogId' = NEW.id::text;
+    RETURN NULL;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM 'approved' OR (TG_OP = 'UPDATE' AND OLD.status = 'approved') THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO email_outbox (idempotency_key, recipient_id, template, payload, next_attempt_at)
+  SELECT
+    'new_blog:' || NEW.id || ':' || recipients.id,
+    recipients.id,
+    'new_blog',
+    jsonb_build_object('blogId', NEW.id),
+    GREATEST(now(), COALESCE(NEW.published_at, now()))
+  FROM (
+    SELECT follower_id AS id FROM follows WHERE following_id = NEW.author_id
+    UNION
+    SELECT tf.user_id FROM tag_follows tf JOIN tags t ON t.id = tf.tag_id
+    WHERE t.slug = ANY(COALESCE(NEW.tags, '{}'))
+  ) recipients
+  WHERE recipients.id <> NEW.author_id
+    AND notification_delivery(recipients.id, 'new_blog') = 'email'
+  ON CONFLICT (idempotency_key) DO NOTHING;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Give emails that are still waiting (or dead-lettered, for a manual retry)
+-- the IDs the new payload needs
+UPDATE public.email_outbox o
+SET payload = jsonb_strip_nulls(jsonb_build_object(
+  'actorId', n.actor_id,
+  'blogId', n.blog_id,
+  'commentId', n.comment_id
+))
+FROM public.notifications n
+WHERE o.idempotency_key = 'notification:' || n.id
+  AND o.status IN ('pending', 'sending', 'dead');
+
+UPDATE public.email_outbox
+SET payload = jsonb_build_object('blogId', payload->'blogId')
+WHERE template = 'new_blog' AND status IN ('pending', 'sending', 'dead');
@@ -0,0 +1,120 @@
+-- Review thread per article: rejections with a reason and feedback, approvals,
+-- resubmissions and free-form comments between the author and moderators
+CREATE TABLE public.blog_reviews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  blog_id UUID NOT NULL REFERENCES public.blogs(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('rejected', 'approved', 'resubmitted', 'comment')),
+  reason TEXT CHECK (reason IN ('needs_work', 'formatting', 'sources', 'off_topic', 'duplicate', 'policy', 'other')),
+  feedback TEXT CHECK (char_length(feedback) <= 5000),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (kind <> 'rejected' OR reason IS NOT NULL),
+  CHECK (kind <> 'comment' OR char_length(btrim(feedback)) > 0)
+);
+
+-- Moderator notes pinned to a paragraph of the article as it was when rejected
+CREATE TABLE public.blog_review_notes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  review_id UUID NOT NULL REFERENCES public.blog_reviews(id) ON DELETE CASCADE,
+  paragraph_index INTEGER NOT NULL CHECK (paragraph_index >= 0),
+  excerpt TEXT NOT NULL,
+  note TEXT NOT NULL CHECK (char_length(btrim(note)) > 0 AND char_length(note) <= 1000)
+);
+
+CREATE INDEX idx_blog_reviews_blog_id ON public.blog_reviews(blog_id, created_at);
+CREATE INDEX idx_blog_review_notes_review_id ON public.blog_review_notes(review_id);
+
+ALTER TABLE public.blog_reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.blog_review_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authors and admins can view review threads"
+ON public.blog_reviews
+FOR SELECT
+USING (
+  auth.uid() = (SELECT p.user_id FROM blogs b JOIN profiles p ON p.id = b.author_id WHERE b.id = blog_reviews.blog_id) OR
+  EXISTS(SELECT 1 FROM profiles WHERE user_id = auth.uid() AND role = 'admin')
+);
+
+-- Status entries are written by reject_blog and the status trigger; people
+-- can only add comments, as themselves
+CREATE POLICY "Authors and admins can comment on review threads"
+ON public.blog_reviews
+FOR INSERT
+WITH CHECK (
+  kind = 'comment' AND
+  reason IS NULL AND
+  auth.uid() = (SELECT user_id FROM profiles WHERE id = blog_reviews.actor_id) AND (
+    auth.uid() = (SELECT p.user_id FROM blogs b JOIN profiles p ON p.id = b.author_id WHERE b.id = blog_reviews.blog_id) OR
+    EXISTS(SELECT 1 FROM profiles WHERE user_id = auth.uid() AND role = 'admin')
+  )
+);
+
+CREATE POLICY "Review notes are visible with their review"
+ON public.blog_review_notes
+FOR SELECT
+USING (EXISTS(SELECT 1 FROM blog_reviews r WHERE r.id = blog_review_notes.review_id));
+
+-- Rejects (or unpublishes) an article and records why in one step
+CREATE OR REPLACE FUNCTION public.reject_blog(_blog_id UUID, _reason TEXT, _feedback TEXT, _notes JSONB DEFAULT '[]'::jsonb)
+RETURNS public.blog_reviews
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  reviewer_id UUID;
+  review public.blog_reviews%ROWTYPE;
+BEGIN
+  SELECT id INTO reviewer_id FROM profiles WHERE user_id = auth.uid() AND role = 'admin';
+  IF reviewer_id IS NULL THEN
+    RAISE EXCEPTION 'Only admins can reject articles';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(_notes, '[]'::jsonb)) > 50 THEN
+    RAISE EXCEPTION 'Too many paragraph notes';
+  END IF;
+
+  UPDATE blogs SET status = 'rejected', published_at = NULL
+  WHERE id = _blog_id AND status IN ('pending', 'approved');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only pending or published articles can be rejected';
+  END IF;
+
+  INSERT INTO blog_reviews (blog_id, actor_id, kind, reason, feedback)
+  VALUES (_blog_id, reviewer_id, 'rejected', _reason, NULLIF(btrim(_feedback), ''))
+  RETURNING * INTO review;
+
+  INSERT INTO blog_review_notes (review_id, paragraph_index, excerpt, note)
+  SELECT review.id, (n->>'paragraph_index')::INTEGER, left(n->>'excerpt', 300), btrim(n->>'note')
+  FROM jsonb_array_elements(COALESCE(_notes, '[]'::jsonb)) AS n
+  WHERE btrim(COALESCE(n->>'note', '')) <> '';
+
+  RETURN review;
+END;
+$$;
+
+-- Approvals and resubmissions go into the thread whichever way the status changes
+CREATE OR REPLACE FUNCTION public.record_blog_review_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'approved' AND OLD.status IN ('pending', 'rejected') THEN
+    INSERT INTO blog_reviews (blog_id, actor_id, kind)
+    VALUES (NEW.id, (SELECT id FROM profiles WHERE user_id = auth.uid()), 'approved');
+  ELSIF NEW.status = 'pending' AND OLD.status = 'rejected' THEN
+    INSERT INTO blog_reviews (blog_id, actor_id, kind)
+    VALUES (NEW.id, NEW.author_id, 'resubmitted');
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER record_blogs_review_event
+  AFTER UPDATE OF status ON public.blogs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_blog_review_event();
+
+GRANT EXECUTE ON FUNCTION public.reject_blog(UUID, TEXT, TEXT, JSONB) TO authenticated;
@@ -0,0 +1,30 @@
+-- A vote can change its value but never move to another comment or voter,
+-- otherwise the own-comment and deleted-comment checks on insert could be sidestepped
+CREATE OR REPLACE FUNCTION public.protect_comment_vote_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.comment_id IS DISTINCT FROM OLD.comment_id OR NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'Votes cannot be moved; remove the vote and cast a new one';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_comment_votes_fields
+  BEFORE UPDATE ON public.comment_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_comment_vote_fields();
+
+-- Scores may already have been inflated by moved votes
+UPDATE public.comments c
+SET score = COALESCE((SELECT SUM(v.value) FROM public.comment_votes v WHERE v.comment_id = c.id), 0)
+WHERE score <> COALESCE((SELECT SUM(v.value) FROM public.comment_votes v WHERE v.comment_id = c.id), 0);
+
+-- Remove votes people cast on their own comments by moving a vote onto them
+DELETE FROM public.comment_votes v
+USING public.comments c
+WHERE c.id = v.comment_id AND c.author_id = v.user_id;
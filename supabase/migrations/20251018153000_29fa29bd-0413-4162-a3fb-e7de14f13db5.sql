@@ -0,0 +1,220 @@
+-- Staged edits of approved articles move off the public blogs row, which anyone
+-- can read and which is broadcast over realtime, into a table only the author
+-- and admins can see
+CREATE TABLE public.blog_pending_changes (
+  blog_id UUID NOT NULL PRIMARY KEY REFERENCES public.blogs(id) ON DELETE CASCADE,
+  changes JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.blog_pending_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authors and admins can view staged edits"
+ON public.blog_pending_changes FOR SELECT
+USING (
+  auth.uid() = (SELECT p.user_id FROM blogs b JOIN profiles p ON p.id = b.author_id WHERE b.id = blog_pending_changes.blog_id) OR
+  EXISTS(SELECT 1 FROM profiles WHERE user_id = auth.uid() AND role = 'admin')
+);
+
+-- Only published articles stage their edits; everything else is edited in place
+CREATE POLICY "Authors can stage edits to their published blogs"
+ON public.blog_pending_changes FOR INSERT
+WITH CHECK (
+  EXISTS(
+    SELECT 1 FROM blogs b JOIN profiles p ON p.id = b.author_id
+    WHERE b.id = blog_pending_changes.blog_id
+      AND b.status = 'approved'
+      AND p.user_id = auth.uid()
+      AND NOT public.is_suspended(p.id)
+  )
+);
+
+CREATE POLICY "Authors can update their staged edits"
+ON public.blog_pending_changes FOR UPDATE
+USING (
+  auth.uid() = (SELECT p.user_id FROM blogs b JOIN profiles p ON p.id = b.author_id WHERE b.id = blog_pending_changes.blog_id)
+)
+WITH CHECK (
+  EXISTS(
+    SELECT 1 FROM blogs b JOIN profiles p ON p.id = b.author_id
+    WHERE b.id = blog_pending_changes.blog_id
+      AND b.status = 'approved'
+      AND p.user_id = auth.uid()
+      AND NOT public.is_suspended(p.id)
+  )
+);
+
+CREATE POLICY "Authors and admins can remove staged edits"
+ON public.blog_pending_changes FOR DELETE
+USING (
+  auth.uid() = (SELECT p.user_id FROM blogs b JOIN profiles p ON p.id = b.author_id WHERE b.id = blog_pending_changes.blog_id) OR
+  EXISTS(SELECT 1 FROM profiles WHERE user_id = auth.uid() AND role = 'admin')
+);
+
+CREATE TRIGGER update_blog_pending_changes_updated_at
+  BEFORE UPDATE ON public.blog_pending_changes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.normalize_staged_tags()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  NEW.changes := public.normalize_pending_tags(NEW.changes);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER normalize_blog_pending_changes_tags
+  BEFORE INSERT OR UPDATE OF changes ON public.blog_pending_changes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.normalize_staged_tags();
+
+-- Every submitted set of staged edits is kept in the revision history
+CREATE OR REPLACE FUNCTION public.record_staged_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  editor_id UUID;
+BEGIN
+  SELECT id INTO editor_id FROM profiles WHERE user_id = auth.uid();
+  editor_id := COALESCE(editor_id, (SELECT author_id FROM blogs WHERE id = NEW.blog_id));
+
+  INSERT INTO blog_revisions (blog_id, author_id, kind, title, content, excerpt, tags, cover_image_url)
+  VALUES (
+    NEW.blog_id,
+    editor_id,
+    'staged',
+    NEW.changes->>'title',
+    NEW.changes->>'content',
+    NEW.changes->>'excerpt',
+    ARRAY(SELECT jsonb_array_elements_text(COALESCE(NEW.changes->'tags', '[]'::jsonb))),
+    NEW.changes->>'cover_image_url'
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER record_blog_pending_changes_revision
+  AFTER INSERT OR UPDATE OF changes ON public.blog_pending_changes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_staged_revision();
+
+-- Copy staged edits over without recording them as new staged revisions
+ALTER TABLE public.blog_pending_changes DISABLE TRIGGER record_blog_pending_changes_revision;
+INSERT INTO public.blog_pending_changes (blog_id, changes)
+SELECT id, pending_changes FROM public.blogs WHERE pending_changes IS NOT NULL;
+ALTER TABLE public.blog_pending_changes ENABLE TRIGGER record_blog_pending_changes_revision;
+
+-- The blogs triggers no longer look at pending_changes
+CREATE OR REPLACE FUNCTION public.record_blog_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  editor_id UUID;
+  latest public.blog_revisions%ROWTYPE;
+  live_changed BOOLEAN;
+BEGIN
+  SELECT id INTO editor_id FROM profiles WHERE user_id = auth.uid();
+  editor_id := COALESCE(editor_id, NEW.author_id);
+
+  live_changed := TG_OP = 'INSERT' OR (
+    NEW.title IS DISTINCT FROM OLD.title OR
+    NEW.content IS DISTINCT FROM OLD.content OR
+    NEW.excerpt IS DISTINCT FROM OLD.excerpt OR
+    NEW.tags IS DISTINCT FROM OLD.tags OR
+    NEW.cover_image_url IS DISTINCT FROM OLD.cover_image_url
+  );
+
+  IF live_changed AND NEW.status = 'draft' THEN
+    -- Fold autosaves from the same editing session into one revision
+    SELECT * INTO latest FROM blog_revisions
+    WHERE blog_id = NEW.id
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF latest.id IS NOT NULL AND latest.kind = 'draft' AND latest.author_id = editor_id
+       AND latest.created_at > now() - interval '10 minutes' THEN
+      UPDATE blog_revisions
+      SET title = NEW.title, content = NEW.content, excerpt = NEW.excerpt,
+          tags = NEW.tags, cover_image_url = NEW.cover_image_url
+      WHERE id = latest.id;
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  IF live_changed OR (NEW.status = 'approved' AND OLD.status IS DISTINCT FROM 'approved') THEN
+    INSERT INTO blog_revisions (blog_id, author_id, kind, title, content, excerpt, tags, cover_image_url)
+    VALUES (
+      NEW.id,
+      editor_id,
+      CASE NEW.status WHEN 'draft' THEN 'draft' WHEN 'approved' THEN 'approved' ELSE 'edit' END,
+      NEW.title, NEW.content, NEW.excerpt, NEW.tags, NEW.cover_image_url
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS normalize_blogs_tags ON public.blogs;
+
+CREATE OR REPLACE FUNCTION public.normalize_blog_tags()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.tags IS DISTINCT FROM OLD.tags THEN
+    NEW.tags := public.normalize_tags(NEW.tags);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER normalize_blogs_tags
+  BEFORE INSERT OR UPDATE OF tags ON public.blogs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.normalize_blog_tags();
+
+ALTER TABLE public.blogs DROP COLUMN pending_changes;
+
+-- Publishes an article's staged edits in one step
+CREATE OR REPLACE FUNCTION public.apply_pending_changes(_blog_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  staged JSONB;
+BEGIN
+  IF NOT EXISTS(SELECT 1 FROM profiles WHERE user_id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can approve edits';
+  END IF;
+
+  DELETE FROM blog_pending_changes WHERE blog_id = _blog_id RETURNING changes INTO staged;
+  IF staged IS NULL THEN
+    RAISE EXCEPTION 'This article has no edits awaiting review';
+  END IF;
+
+  UPDATE blogs
+  SET title = COALESCE(staged->>'title', title),
+      content = COALESCE(staged->>'content', content),
+      excerpt = CASE WHEN staged ? 'excerpt' THEN staged->>'excerpt' ELSE excerpt END,
+      tags = CASE WHEN staged ? 'tags' THEN ARRAY(SELECT jsonb_array_elements_text(staged->'tags')) ELSE tags END,
+      reading_time = COALESCE((staged->>'reading_time')::INTEGER, reading_time),
+      cover_image_url = CASE WHEN staged ? 'cover_image_url' THEN staged->>'cover_image_url' ELSE cover_image_url END
+  WHERE id = _blog_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.apply_pending_changes(UUID) TO authenticated;
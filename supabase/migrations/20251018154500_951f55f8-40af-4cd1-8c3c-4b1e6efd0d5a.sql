@@ -0,0 +1,87 @@
+-- Decisions on staged edits of published articles go into the review thread too
+ALTER TABLE public.blog_reviews DROP CONSTRAINT blog_reviews_kind_check;
+ALTER TABLE public.blog_reviews ADD CONSTRAINT blog_reviews_kind_check
+  CHECK (kind IN ('rejected', 'approved', 'resubmitted', 'comment', 'changes_rejected', 'changes_approved'));
+ALTER TABLE public.blog_reviews ADD CONSTRAINT blog_reviews_changes_rejected_reason
+  CHECK (kind <> 'changes_rejected' OR reason IS NOT NULL);
+
+-- Discards an article's staged edits, records why and tells the author. The
+-- published version is left as it is.
+CREATE OR REPLACE FUNCTION public.reject_pending_changes(_blog_id UUID, _reason TEXT, _feedback TEXT, _notes JSONB DEFAULT '[]'::jsonb)
+RETURNS public.blog_reviews
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  reviewer_id UUID;
+  post_author_id UUID;
+  review public.blog_reviews%ROWTYPE;
+BEGIN
+  SELECT id INTO reviewer_id FROM profiles WHERE user_id = auth.uid() AND role = 'admin';
+  IF reviewer_id IS NULL THEN
+    RAISE EXCEPTION 'Only admins can reject edits';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(_notes, '[]'::jsonb)) > 50 THEN
+    RAISE EXCEPTION 'Too many paragraph notes';
+  END IF;
+
+  DELETE FROM blog_pending_changes WHERE blog_id = _blog_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This article has no edits awaiting review';
+  END IF;
+
+  INSERT INTO blog_reviews (blog_id, actor_id, kind, reason, feedback)
+  VALUES (_blog_id, reviewer_id, 'changes_rejected', _reason, NULLIF(btrim(_feedback), ''))
+  RETURNING * INTO review;
+
+  INSERT INTO blog_review_notes (review_id, paragraph_index, excerpt, note)
+  SELECT review.id, (n->>'paragraph_index')::INTEGER, left(n->>'excerpt', 300), btrim(n->>'note')
+  FROM jsonb_array_elements(COALESCE(_notes, '[]'::jsonb)) AS n
+  WHERE btrim(COALESCE(n->>'note', '')) <> '';
+
+  SELECT author_id INTO post_author_id FROM blogs WHERE id = _blog_id;
+  IF post_author_id IS DISTINCT FROM reviewer_id THEN
+    INSERT INTO notifications (user_id, actor_id, type, blog_id)
+    VALUES (post_author_id, reviewer_id, 'blog_rejected', _blog_id);
+  END IF;
+
+  RETURN review;
+END;
+$$;
+
+-- Approving staged edits is recorded in the thread as well
+CREATE OR REPLACE FUNCTION public.apply_pending_changes(_blog_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  reviewer_id UUID;
+  staged JSONB;
+BEGIN
+  SELECT id INTO reviewer_id FROM profiles WHERE user_id = auth.uid() AND role = 'admin';
+  IF reviewer_id IS NULL THEN
+    RAISE EXCEPTION 'Only admins can approve edits';
+  END IF;
+
+  DELETE FROM blog_pending_changes WHERE blog_id = _blog_id RETURNING changes INTO staged;
+  IF staged IS NULL THEN
+    RAISE EXCEPTION 'This article has no edits awaiting review';
+  END IF;
+
+  UPDATE blogs
+  SET title = COALESCE(staged->>'title', title),
+      content = COALESCE(staged->>'content', content),
+      excerpt = CASE WHEN staged ? 'excerpt' THEN staged->>'excerpt' ELSE excerpt END,
+      tags = CASE WHEN staged ? 'tags' THEN ARRAY(SELECT jsonb_array_elements_text(staged->'tags')) ELSE tags END,
+      reading_time = COALESCE((staged->>'reading_time')::INTEGER, reading_time),
+      cover_image_url = CASE WHEN staged ? 'cover_image_url' THEN staged->>'cover_image_url' ELSE cover_image_url END
+  WHERE id = _blog_id;
+
+  INSERT INTO blog_reviews (blog_id, actor_id, kind)
+  VALUES (_blog_id, reviewer_id, 'changes_approved');
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reject_pending_changes(UUID, TEXT, TEXT, JSONB) TO authenticated;
@@ -0,0 +1,44 @@
+-- Removing a comment announces itself as an UPDATE of deleted_at before the row
+-- goes away, so article pages can subscribe per blog instead of to every delete
+CREATE OR REPLACE FUNCTION public.delete_comment(_comment_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  caller_id UUID;
+  target public.comments%ROWTYPE;
+BEGIN
+  SELECT id INTO caller_id FROM profiles WHERE user_id = auth.uid();
+
+  SELECT * INTO target FROM comments WHERE id = _comment_id FOR UPDATE;
+  IF NOT FOUND OR target.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Comment not found';
+  END IF;
+
+  IF caller_id IS NULL OR NOT (
+    target.author_id = caller_id OR
+    EXISTS(SELECT 1 FROM blogs WHERE id = target.blog_id AND author_id = caller_id) OR
+    EXISTS(SELECT 1 FROM profiles WHERE id = caller_id AND role = 'admin')
+  ) THEN
+    RAISE EXCEPTION 'You cannot delete this comment';
+  END IF;
+
+  IF EXISTS(SELECT 1 FROM comments WHERE parent_id = target.id) THEN
+    UPDATE comments SET deleted_at = now(), content = '' WHERE id = target.id;
+    RETURN 'tombstoned';
+  END IF;
+
+  -- Tombstone first: realtime can filter this UPDATE by blog_id, which it
+  -- can't do for the DELETE, so readers of other articles never receive it
+  UPDATE comments SET deleted_at = now(), content = '' WHERE id = target.id;
+  DELETE FROM comments WHERE id = target.id;
+
+  DELETE FROM comments parent
+  WHERE parent.id = target.parent_id
+    AND parent.deleted_at IS NOT NULL
+    AND NOT EXISTS(SELECT 1 FROM comments reply WHERE reply.parent_id = parent.id);
+
+  RETURN 'deleted';
+END;
+$$;
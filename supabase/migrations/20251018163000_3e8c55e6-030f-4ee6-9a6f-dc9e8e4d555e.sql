@@ -0,0 +1,47 @@
+-- Drafts are private to their author, so submitting one is the author's call alone
+CREATE OR REPLACE FUNCTION public.protect_blog_moderation_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  -- Only the author can take their own draft out of draft, admins included
+  IF OLD.status = 'draft' AND NEW.status IS DISTINCT FROM 'draft' AND auth.uid() IS NOT NULL
+     AND auth.uid() IS DISTINCT FROM (SELECT user_id FROM profiles WHERE id = OLD.author_id) THEN
+    RAISE EXCEPTION 'Only the author can submit a draft';
+  END IF;
+
+  -- Service-role and internal callers have no auth.uid() and are trusted
+  IF auth.uid() IS NULL OR EXISTS(SELECT 1 FROM profiles WHERE user_id = auth.uid() AND role = 'admin') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'approved' AND OLD.status IS DISTINCT FROM 'approved' THEN
+    RAISE EXCEPTION 'Only admins can approve articles';
+  END IF;
+
+  IF OLD.status = 'hidden' AND NEW.status IS DISTINCT FROM 'hidden' THEN
+    RAISE EXCEPTION 'Hidden articles can only be restored by an admin';
+  END IF;
+
+  -- Slugs are permanent once submitted so existing links keep working
+  IF OLD.status IS DISTINCT FROM 'draft' THEN
+    NEW.slug := OLD.slug;
+  END IF;
+  NEW.published_at := OLD.published_at;
+
+  -- Live content of an approved article can only change through blog_pending_changes
+  IF OLD.status = 'approved' AND NEW.status = 'approved' AND (
+    NEW.title IS DISTINCT FROM OLD.title OR
+    NEW.content IS DISTINCT FROM OLD.content OR
+    NEW.excerpt IS DISTINCT FROM OLD.excerpt OR
+    NEW.tags IS DISTINCT FROM OLD.tags OR
+    NEW.cover_image_url IS DISTINCT FROM OLD.cover_image_url OR
+    NEW.reading_time IS DISTINCT FROM OLD.reading_time
+  ) THEN
+    RAISE EXCEPTION 'Edits to a published article must be submitted for review';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,51 @@
+-- Approving a scheduled post notifies the author right away, but the approval
+-- email says the post is live, so it waits in the outbox until the post is
+-- published. send-notifications skips it if the post was unpublished meanwhile.
+CREATE OR REPLACE FUNCTION public.enqueue_notification_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  send_at TIMESTAMP WITH TIME ZONE := now();
+BEGIN
+  IF notification_delivery(NEW.user_id, NEW.type) <> 'email' THEN
+    RETURN NULL;
+  END IF;
+
+  IF NEW.type = 'blog_approved' THEN
+    SELECT GREATEST(now(), COALESCE(published_at, now())) INTO send_at FROM blogs WHERE id = NEW.blog_id;
+  END IF;
+
+  INSERT INTO email_outbox (idempotency_key, recipient_id, template, payload, next_attempt_at)
+  VALUES (
+    'notification:' || NEW.id,
+    NEW.user_id,
+    CASE NEW.type
+      WHEN 'mention' THEN 'new_mention'
+      WHEN 'comment' THEN 'new_comment'
+      WHEN 'reply' THEN 'new_reply'
+      WHEN 'follow' THEN 'new_follower'
+      ELSE NEW.type
+    END,
+    jsonb_strip_nulls(jsonb_build_object(
+      'actorId', NEW.actor_id,
+      'blogId', NEW.blog_id,
+      'commentId', NEW.comment_id
+    )),
+    COALESCE(send_at, now())
+  )
+  ON CONFLICT (idempotency_key) DO NOTHING;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Hold back approval emails already queued for posts that are still scheduled
+UPDATE public.email_outbox o
+SET next_attempt_at = b.published_at
+FROM public.blogs b
+WHERE o.template = 'blog_approved'
+  AND o.status = 'pending'
+  AND b.id = (o.payload->>'blogId')::uuid
+  AND b.published_at > now();
@@ -0,0 +1,6 @@
+-- Authors can throw away their own drafts; anything that has been submitted
+-- stays for the moderators
+CREATE POLICY "Authors can delete their own drafts"
+ON public.blogs
+FOR DELETE
+USING (status = 'draft' AND auth.uid() = (SELECT user_id FROM profiles WHERE id = blogs.author_id));